@@ -4,12 +4,31 @@ import { Toaster } from "@/components/ui/toaster";
 import { createRoot } from "react-dom/client";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import {
+  QueryCache,
+  QueryClient,
+  QueryClientProvider,
+} from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Board from "./pages/Board";
+import LeadDetail from "./pages/LeadDetail";
+import Duplicates from "./pages/Duplicates";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
+import RequireSession from "./components/RequireSession";
+import { ApiError } from "./lib/api";
 
-const queryClient = new QueryClient();
+// A 401 from any query means the session ended; recheck it so the app
+// falls back to the login page
+const queryClient: QueryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (e) => {
+      if (e instanceof ApiError && e.status === 401)
+        queryClient.invalidateQueries({ queryKey: ["session"] });
+    },
+  }),
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -18,7 +37,13 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/login" element={<Login />} />
+          <Route element={<RequireSession />}>
+            <Route path="/" element={<Index />} />
+            <Route path="/board" element={<Board />} />
+            <Route path="/leads/:id" element={<LeadDetail />} />
+            <Route path="/duplicates" element={<Duplicates />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,351 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type {
+  AssignmentCondition,
+  AssignmentOperator,
+  AssignmentPreviewResponse,
+  AssignmentRule,
+  AssignmentRulesResponse,
+  Salesperson,
+  UpdateAssignmentRulesRequest,
+} from "@shared/api";
+import { apiError } from "@/lib/api";
+
+const fieldClass =
+  "rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs dark:border-neutral-700 dark:bg-neutral-800";
+
+const OPERATOR_LABELS: Record<AssignmentOperator, string> = {
+  equals: "is",
+  prefix: "starts with",
+  contains: "contains",
+  range: "between",
+};
+
+function parseBound(value: string) {
+  return value.trim() === "" ? null : Number(value);
+}
+
+// Ordered rules for auto-assign, with a dry run of the next assignment
+export default function AssignmentRulesEditor({
+  team,
+}: {
+  team: Salesperson[];
+}) {
+  const qc = useQueryClient();
+  const rulesQ = useQuery<AssignmentRulesResponse>({
+    queryKey: ["assignment-rules"],
+    queryFn: async () => {
+      const r = await fetch("/api/assignment-rules");
+      if (!r.ok) throw await apiError(r);
+      return r.json();
+    },
+  });
+  const rules = rulesQ.data?.rules;
+  const [draft, setDraft] = useState<AssignmentRule[]>([]);
+  useEffect(() => setDraft(rules || []), [rules]);
+
+  const save = useMutation({
+    mutationFn: async (next: AssignmentRule[]) => {
+      const body: UpdateAssignmentRulesRequest = { rules: next };
+      const r = await fetch("/api/assignment-rules", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!r.ok) throw await apiError(r);
+      return (await r.json()) as AssignmentRulesResponse;
+    },
+    onSuccess: (data) => {
+      qc.setQueryData(["assignment-rules"], data);
+      preview.reset();
+    },
+  });
+  const preview = useMutation({
+    mutationFn: async () => {
+      const r = await fetch("/api/assign-leads/preview");
+      if (!r.ok) throw await apiError(r);
+      return (await r.json()) as AssignmentPreviewResponse;
+    },
+  });
+
+  const patch = (i: number, p: Partial<AssignmentRule>) =>
+    setDraft(draft.map((r, j) => (j === i ? { ...r, ...p } : r)));
+  const patchCondition = (
+    i: number,
+    k: number,
+    p: Partial<AssignmentCondition>,
+  ) =>
+    patch(i, {
+      conditions: draft[i].conditions.map((c, j) =>
+        j === k ? { ...c, ...p } : c,
+      ),
+    });
+  const move = (i: number, dir: -1 | 1) => {
+    const j = i + dir;
+    if (j < 0 || j >= draft.length) return;
+    const next = [...draft];
+    [next[i], next[j]] = [next[j], next[i]];
+    setDraft(next);
+  };
+  const add = () =>
+    setDraft([
+      ...draft,
+      {
+        id: "",
+        name: "",
+        order: draft.length,
+        active: true,
+        conditions: [{ field: "post_code", op: "prefix", values: [] }],
+        targetIds: [],
+      },
+    ]);
+
+  const teamIds = new Set(team.map((p) => p.id));
+  const nameOf = (id: string) => team.find((p) => p.id === id)?.name || id;
+  const ruleName = (id: string | null) =>
+    id
+      ? rules?.find((r) => r.id === id)?.name || "Rule"
+      : "Least loaded (no rule)";
+
+  return (
+    <div className="mt-8 rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
+      <h3 className="text-sm font-semibold">Assignment rules</h3>
+      <p className="mt-1 text-xs text-neutral-500">
+        Tried from the top; the first rule whose conditions all match picks the
+        owner. Leads no rule places go to whoever has the fewest leads.
+      </p>
+      <ul className="mt-3 space-y-3">
+        {draft.map((r, i) => (
+          <li
+            key={r.id || `new-${i}`}
+            className="rounded-lg border border-neutral-200 p-2 dark:border-neutral-800"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="checkbox"
+                checked={r.active}
+                onChange={(e) => patch(i, { active: e.target.checked })}
+                title="Active"
+              />
+              <input
+                value={r.name}
+                onChange={(e) => patch(i, { name: e.target.value })}
+                placeholder={`Rule ${i + 1}`}
+                className={`${fieldClass} w-48`}
+              />
+              <span className="text-xs text-neutral-500">assign to</span>
+              <select
+                multiple
+                value={r.targetIds}
+                onChange={(e) =>
+                  patch(i, {
+                    targetIds: Array.from(e.target.selectedOptions).map(
+                      (o) => o.value,
+                    ),
+                  })
+                }
+                title="One salesperson, or several to share the leads"
+                className={`${fieldClass} h-14 w-44`}
+              >
+                {team.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                    {p.active ? "" : " (inactive)"}
+                  </option>
+                ))}
+              </select>
+              <div className="flex-1" />
+              <button onClick={() => move(i, -1)} className={fieldClass}>
+                ↑
+              </button>
+              <button onClick={() => move(i, 1)} className={fieldClass}>
+                ↓
+              </button>
+              <button
+                onClick={() => setDraft(draft.filter((_, j) => j !== i))}
+                className="text-xs text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </div>
+            <ul className="mt-2 space-y-1 pl-6">
+              {r.conditions.map((c, k) => (
+                <li key={k} className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={c.field}
+                    onChange={(e) =>
+                      patchCondition(i, k, { field: e.target.value })
+                    }
+                    placeholder="Field, e.g. post_code or source"
+                    className={`${fieldClass} w-52`}
+                  />
+                  <select
+                    value={c.op}
+                    onChange={(e) =>
+                      patchCondition(i, k, {
+                        op: e.target.value as AssignmentOperator,
+                      })
+                    }
+                    className={fieldClass}
+                  >
+                    {(Object.keys(OPERATOR_LABELS) as AssignmentOperator[]).map(
+                      (op) => (
+                        <option key={op} value={op}>
+                          {OPERATOR_LABELS[op]}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                  {c.op === "range" ? (
+                    <>
+                      <input
+                        type="number"
+                        value={c.min ?? ""}
+                        onChange={(e) =>
+                          patchCondition(i, k, {
+                            min: parseBound(e.target.value),
+                          })
+                        }
+                        placeholder="Min"
+                        className={`${fieldClass} w-24`}
+                      />
+                      <input
+                        type="number"
+                        value={c.max ?? ""}
+                        onChange={(e) =>
+                          patchCondition(i, k, {
+                            max: parseBound(e.target.value),
+                          })
+                        }
+                        placeholder="Max"
+                        className={`${fieldClass} w-24`}
+                      />
+                    </>
+                  ) : (
+                    <input
+                      value={(c.values || []).join(",")}
+                      onChange={(e) =>
+                        patchCondition(i, k, {
+                          values: e.target.value.split(","),
+                        })
+                      }
+                      placeholder="Values, comma separated"
+                      className={`${fieldClass} w-56`}
+                    />
+                  )}
+                  <button
+                    onClick={() =>
+                      patch(i, {
+                        conditions: r.conditions.filter((_, j) => j !== k),
+                      })
+                    }
+                    className="text-xs text-neutral-500 hover:underline"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+              <li>
+                <button
+                  onClick={() =>
+                    patch(i, {
+                      conditions: [
+                        ...r.conditions,
+                        { field: "", op: "equals", values: [] },
+                      ],
+                    })
+                  }
+                  className="text-xs text-brand-700 hover:underline"
+                >
+                  + Condition
+                </button>
+              </li>
+            </ul>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 flex items-center gap-2">
+        <button onClick={add} className={fieldClass}>
+          Add rule
+        </button>
+        <button
+          onClick={() => preview.mutate()}
+          disabled={preview.isPending}
+          title="Uses the saved rules"
+          className={fieldClass}
+        >
+          Preview assignment
+        </button>
+        <div className="flex-1" />
+        {save.isError && (
+          <span className="text-xs text-red-600">
+            {(save.error as Error).message}
+          </span>
+        )}
+        {save.isSuccess && (
+          <span className="text-xs text-green-700">Saved</span>
+        )}
+        <button
+          onClick={() => setDraft(rules || [])}
+          className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-xs font-medium dark:border-neutral-700 dark:bg-neutral-800"
+        >
+          Reset
+        </button>
+        <button
+          onClick={() =>
+            // drop salespeople deleted since the rule was saved
+            save.mutate(
+              draft.map((r) => ({
+                ...r,
+                targetIds: r.targetIds.filter((id) => teamIds.has(id)),
+              })),
+            )
+          }
+          disabled={save.isPending}
+          className="rounded-lg bg-brand-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-brand-700 disabled:opacity-60"
+        >
+          Save rules
+        </button>
+      </div>
+      {preview.isError && (
+        <p className="mt-3 text-xs text-red-600">
+          {(preview.error as Error).message}
+        </p>
+      )}
+      {preview.data && (
+        <div className="mt-3 rounded-lg bg-neutral-50 p-3 text-xs dark:bg-neutral-800/50">
+          {preview.data.items.length === 0 ? (
+            <p className="text-neutral-500">No unassigned leads to place.</p>
+          ) : (
+            <table className="min-w-full">
+              <thead>
+                <tr className="text-left text-neutral-500">
+                  <th className="py-1 pr-4 font-medium">Lead</th>
+                  <th className="py-1 pr-4 font-medium">Goes to</th>
+                  <th className="py-1 font-medium">Because of</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.data.items.map((p) => (
+                  <tr key={p.leadId}>
+                    <td className="py-1 pr-4">{p.leadName || "—"}</td>
+                    <td className="py-1 pr-4">{nameOf(p.ownerId)}</td>
+                    <td className="py-1 text-neutral-500">
+                      {ruleName(p.ruleId)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {preview.data.unassigned > 0 && (
+            <p className="mt-2 text-amber-700">
+              {preview.data.unassigned} lead(s) stay unassigned: nobody is
+              available with capacity.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import type { Availability, LeaveRange } from "@shared/api";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const fieldClass =
+  "rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs dark:border-neutral-700 dark:bg-neutral-800";
+
+function today() {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// One-line summary for the team table
+export function describeAvailability(av?: Availability | null) {
+  if (!av) return "Always";
+  const date = today();
+  const leave = (av.leave || []).find((r) => r.from <= date && date <= r.to);
+  if (leave) return `On leave until ${leave.to}`;
+  const days = WEEKDAYS.filter((_, i) => !(av.offDays || []).includes(i));
+  const hours = av.workingHours
+    ? `${av.workingHours.start}–${av.workingHours.end}`
+    : "any time";
+  return `${days.length === 7 ? "Every day" : days.join(" ")}, ${hours}`;
+}
+
+// Working hours, weekly off days and leave for one salesperson
+export default function AvailabilityEditor({
+  value,
+  onSave,
+  onCancel,
+}: {
+  value?: Availability | null;
+  onSave: (next: Availability | null) => void;
+  onCancel: () => void;
+}) {
+  const [timeZone, setTimeZone] = useState(
+    value?.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+  );
+  const [start, setStart] = useState(value?.workingHours?.start || "");
+  const [end, setEnd] = useState(value?.workingHours?.end || "");
+  const [offDays, setOffDays] = useState<number[]>(value?.offDays || []);
+  const [leave, setLeave] = useState<LeaveRange[]>(value?.leave || []);
+  const [reassign, setReassign] = useState(!!value?.reassignOnLeave);
+
+  const toggleDay = (d: number) =>
+    setOffDays(
+      offDays.includes(d)
+        ? offDays.filter((x) => x !== d)
+        : [...offDays, d].sort(),
+    );
+  const patchLeave = (i: number, p: Partial<LeaveRange>) =>
+    setLeave(leave.map((r, j) => (j === i ? { ...r, ...p } : r)));
+
+  return (
+    <div className="space-y-2 p-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-xs text-neutral-500">Time zone</label>
+        <input
+          value={timeZone}
+          onChange={(e) => setTimeZone(e.target.value)}
+          placeholder="Asia/Kolkata"
+          className={`${fieldClass} w-40`}
+        />
+        <label className="ml-2 text-xs text-neutral-500">Hours</label>
+        <input
+          type="time"
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+          className={fieldClass}
+        />
+        <span className="text-xs">to</span>
+        <input
+          type="time"
+          value={end}
+          onChange={(e) => setEnd(e.target.value)}
+          title="Leave both empty to allow any time"
+          className={fieldClass}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="mr-1 text-xs text-neutral-500">Off days</span>
+        {WEEKDAYS.map((label, d) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => toggleDay(d)}
+            className={`${fieldClass} ${offDays.includes(d) ? "bg-neutral-200 line-through dark:bg-neutral-700" : ""}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-1">
+        {leave.map((r, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-neutral-500">Leave</span>
+            <input
+              type="date"
+              value={r.from}
+              onChange={(e) => patchLeave(i, { from: e.target.value })}
+              className={fieldClass}
+            />
+            <span className="text-xs">to</span>
+            <input
+              type="date"
+              value={r.to}
+              onChange={(e) => patchLeave(i, { to: e.target.value })}
+              className={fieldClass}
+            />
+            <input
+              value={r.note || ""}
+              onChange={(e) =>
+                patchLeave(i, { note: e.target.value || undefined })
+              }
+              placeholder="Note"
+              className={`${fieldClass} w-40`}
+            />
+            <button
+              type="button"
+              onClick={() => setLeave(leave.filter((_, j) => j !== i))}
+              className="text-xs text-red-600 hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setLeave([...leave, { from: today(), to: today() }])}
+          className="text-xs text-brand-700 hover:underline"
+        >
+          + Leave
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-xs">
+        <input
+          type="checkbox"
+          checked={reassign}
+          onChange={(e) => setReassign(e.target.checked)}
+        />
+        While on leave, hand leads nobody has worked yet to teammates
+      </label>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() =>
+            onSave({
+              timeZone: timeZone.trim() || undefined,
+              workingHours: start && end ? { start, end } : null,
+              offDays,
+              leave,
+              reassignOnLeave: reassign,
+            })
+          }
+          className="rounded-lg bg-brand-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-brand-700"
+        >
+          Save availability
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(null)}
+          title="Available whenever active"
+          className={fieldClass}
+        >
+          Clear
+        </button>
+        <button type="button" onClick={onCancel} className={fieldClass}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
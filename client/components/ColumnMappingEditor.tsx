@@ -0,0 +1,145 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  ColumnMapping,
+  ConfigState,
+  UpdateConfigRequest,
+} from "@shared/api";
+import {
+  MAPPED_FIELDS,
+  MAPPED_FIELD_LABELS,
+  suggestColumnMapping,
+} from "@shared/column-mapping";
+import { apiError } from "@/lib/api";
+
+const fieldClass =
+  "rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs dark:border-neutral-700 dark:bg-neutral-800";
+
+// One header picker per lead field; "auto" marks fields not saved yet
+export function ColumnMappingFields({
+  headers,
+  draft,
+  onChange,
+  saved,
+}: {
+  headers: string[];
+  draft: ColumnMapping;
+  onChange: (next: ColumnMapping) => void;
+  saved?: ColumnMapping | null;
+}) {
+  const suggested = useMemo(() => suggestColumnMapping(headers), [headers]);
+  // saved headers the sheet no longer has still show up as options
+  const options = (value?: string) =>
+    value && !headers.includes(value) ? [...headers, value] : headers;
+
+  return (
+    <div className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-3">
+      {MAPPED_FIELDS.map((field) => (
+        <label key={field} className="flex items-center gap-2 text-xs">
+          <span className="w-28 text-neutral-500">
+            {MAPPED_FIELD_LABELS[field]}
+          </span>
+          <select
+            value={draft[field] || ""}
+            onChange={(e) => onChange({ ...draft, [field]: e.target.value })}
+            className={`${fieldClass} min-w-0 flex-1`}
+          >
+            <option value="">— not imported —</option>
+            {options(draft[field]).map((h) => (
+              <option key={h} value={h}>
+                {h}
+              </option>
+            ))}
+          </select>
+          {saved?.[field] === undefined && suggested[field] && (
+            <span className="text-neutral-400" title="Suggested">
+              auto
+            </span>
+          )}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// Which sheet column fills each lead field on import
+export default function ColumnMappingEditor({
+  config,
+}: {
+  config?: ConfigState;
+}) {
+  const qc = useQueryClient();
+  const headers = useMemo(() => config?.headers || [], [config?.headers]);
+  const saved = config?.columnMapping;
+  const suggested = useMemo(() => suggestColumnMapping(headers), [headers]);
+  const [draft, setDraft] = useState<ColumnMapping>({});
+  useEffect(
+    () => setDraft({ ...suggested, ...(saved || {}) }),
+    [suggested, saved],
+  );
+
+  const save = useMutation({
+    mutationFn: async (next: ColumnMapping | null) => {
+      const body: UpdateConfigRequest = { columnMapping: next };
+      const r = await fetch("/api/config", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!r.ok) throw await apiError(r);
+      return (await r.json()) as ConfigState;
+    },
+    onSuccess: (data) => qc.setQueryData(["config"], data),
+  });
+
+  return (
+    <div className="mt-8 rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
+      <h3 className="text-sm font-semibold">Sheet columns</h3>
+      <p className="mt-1 text-xs text-neutral-500">
+        Which column of the sheet fills each lead field. Fields you have not
+        saved follow the suggestion from the sheet's headers.
+      </p>
+      {headers.length === 0 && (
+        <p className="mt-3 text-xs text-neutral-500">
+          Sync the sheet once to pick from its headers.
+        </p>
+      )}
+      <ColumnMappingFields
+        headers={headers}
+        draft={draft}
+        onChange={setDraft}
+        saved={saved}
+      />
+      <div className="mt-3 flex items-center gap-2">
+        <div className="flex-1" />
+        {save.isError && (
+          <span className="text-xs text-red-600">
+            {(save.error as Error).message}
+          </span>
+        )}
+        {save.isSuccess && (
+          <span className="text-xs text-green-700">Saved</span>
+        )}
+        <button
+          onClick={() => save.mutate(null)}
+          disabled={save.isPending}
+          title="Forget the saved columns and follow the suggestions"
+          className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-xs font-medium dark:border-neutral-700 dark:bg-neutral-800"
+        >
+          Use suggestions
+        </button>
+        <button
+          onClick={() =>
+            save.mutate(
+              Object.fromEntries(MAPPED_FIELDS.map((f) => [f, draft[f] || ""])),
+            )
+          }
+          disabled={save.isPending}
+          className="rounded-lg bg-brand-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-brand-700 disabled:opacity-60"
+        >
+          Save columns
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import type {
+  ImportFileRequest,
+  ImportFileResponse,
+  ImportPreviewResponse,
+  LeadSourcesResponse,
+} from "@shared/api";
+import ImportPreviewDialog from "@/components/ImportPreviewDialog";
+import { apiError } from "@/lib/api";
+
+const fieldClass =
+  "rounded-lg border border-neutral-200 bg-white/70 px-3 py-2 text-sm dark:bg-neutral-800 dark:border-neutral-700";
+
+async function postFile<T>(url: string, file: File, fields: ImportFileRequest) {
+  const form = new FormData();
+  form.append("file", file);
+  if (fields.sheet) form.append("sheet", fields.sheet);
+  if (fields.sourceId) form.append("sourceId", fields.sourceId);
+  const r = await fetch(url, { method: "POST", body: form });
+  if (!r.ok) throw await apiError(r);
+  return (await r.json()) as T;
+}
+
+// Imports a .csv or .xlsx of leads, such as an expo or partner list
+export default function FileImport() {
+  const qc = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [sheet, setSheet] = useState("");
+  const [sourceId, setSourceId] = useState("");
+  const sourcesQ = useQuery<LeadSourcesResponse>({
+    queryKey: ["lead-sources"],
+    queryFn: async () => {
+      const r = await fetch("/api/lead-sources");
+      if (!r.ok) throw await apiError(r);
+      return r.json();
+    },
+  });
+  const fields = (): ImportFileRequest => ({
+    sheet: sheet.trim() || undefined,
+    sourceId: sourceId || undefined,
+  });
+  const preview = useMutation({
+    mutationFn: (f: File) =>
+      postFile<ImportPreviewResponse>("/api/import-file/preview", f, fields()),
+  });
+  const upload = useMutation({
+    mutationFn: (f: File) =>
+      postFile<ImportFileResponse>("/api/import-file", f, fields()),
+    onSuccess: (r) => {
+      toast.success(
+        `${r.imported} new, ${r.updated} updated, ${r.skipped ?? 0} skipped`,
+      );
+      qc.invalidateQueries({ queryKey: ["leads"] });
+    },
+    onError: (e) =>
+      toast.error("Could not import the file", {
+        description: (e as Error).message,
+      }),
+  });
+  const busy = preview.isPending || upload.isPending;
+  const isXlsx = !!file?.name.toLowerCase().endsWith(".xlsx");
+  const sources = sourcesQ.data?.items || [];
+
+  return (
+    <div className="flex flex-col items-stretch gap-2 md:flex-row md:items-center">
+      <input
+        type="file"
+        accept=".csv,.xlsx"
+        onChange={(e) => {
+          setFile(e.target.files?.[0] || null);
+          preview.reset();
+        }}
+        className="text-sm file:mr-2 file:rounded-lg file:border file:border-neutral-200 file:bg-white file:px-3 file:py-1.5 file:text-sm file:font-medium dark:file:border-neutral-700 dark:file:bg-neutral-800"
+      />
+      {isXlsx && (
+        <input
+          value={sheet}
+          onChange={(e) => setSheet(e.target.value)}
+          placeholder="Sheet (first if empty)"
+          className={`w-44 ${fieldClass}`}
+        />
+      )}
+      {sources.length > 0 && (
+        <select
+          value={sourceId}
+          onChange={(e) => setSourceId(e.target.value)}
+          className={fieldClass}
+          title="Read the file with this source's columns, tag and owners"
+        >
+          <option value="">Default columns</option>
+          {sources.map((s) => (
+            <option key={s.id} value={s.id}>
+              As {s.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <div className="flex items-center gap-2">
+        {preview.isError && (
+          <span className="text-xs text-red-600">
+            {(preview.error as Error).message}
+          </span>
+        )}
+        <button
+          onClick={() => file && preview.mutate(file)}
+          disabled={!file || busy}
+          className="rounded-lg border border-neutral-200 bg-white px-3 py-2 text-sm font-medium shadow hover:bg-neutral-50 disabled:opacity-60 dark:border-neutral-700 dark:bg-neutral-800"
+          title="See what importing the file would change before writing anything"
+        >
+          {preview.isPending ? "Reading..." : "Preview file"}
+        </button>
+        <button
+          onClick={() => file && upload.mutate(file)}
+          disabled={!file || busy}
+          className="rounded-lg bg-brand-600 px-3 py-2 text-sm font-semibold text-white shadow hover:bg-brand-700 active:bg-brand-800 disabled:opacity-60"
+        >
+          {upload.isPending ? "Importing..." : "Import file"}
+        </button>
+      </div>
+      <ImportPreviewDialog
+        title="Review file import"
+        preview={preview.data || null}
+        onClose={() => preview.reset()}
+      />
+    </div>
+  );
+}
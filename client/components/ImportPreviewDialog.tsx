@@ -0,0 +1,159 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  ApplyImportRequest,
+  ImportPreviewResponse,
+  ImportPreviewRow,
+  ImportSheetResponse,
+} from "@shared/api";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiError } from "@/lib/api";
+
+const ACTION_LABELS: Record<ImportPreviewRow["action"], string> = {
+  create: "New",
+  update: "Update",
+  unchanged: "Unchanged",
+  skip: "Skip",
+  duplicate: "Duplicate",
+};
+
+const ACTION_CLASSES: Record<ImportPreviewRow["action"], string> = {
+  create:
+    "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  update: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  unchanged:
+    "bg-neutral-100 text-neutral-600 dark:bg-neutral-800 dark:text-neutral-400",
+  skip: "bg-neutral-100 text-neutral-600 dark:bg-neutral-800 dark:text-neutral-400",
+  duplicate:
+    "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+};
+
+function fieldLabel(field: string) {
+  return field.startsWith("fields.") ? field.slice(7) : field;
+}
+
+function Outcome({ item }: { item: ImportPreviewRow }) {
+  if (item.action !== "update") return <>{item.reason}</>;
+  if (!item.changes?.length) return <>No changes</>;
+  return (
+    <ul className="space-y-0.5">
+      {item.changes.map((c, i) => (
+        <li key={i} className="break-words">
+          <span className="font-medium">{fieldLabel(c.field)}:</span>{" "}
+          <span className="text-neutral-500">{c.from || "—"}</span> →{" "}
+          {c.to || "—"}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Row-by-row review of a sheet sync or file; Apply writes exactly what is listed
+export default function ImportPreviewDialog({
+  preview,
+  onClose,
+  title = "Review sheet sync",
+}: {
+  preview: ImportPreviewResponse | null;
+  onClose: () => void;
+  title?: string;
+}) {
+  const qc = useQueryClient();
+  const apply = useMutation({
+    mutationFn: async (previewId: string) => {
+      const body: ApplyImportRequest = { previewId };
+      const r = await fetch("/api/import-sheet/apply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!r.ok) throw await apiError(r);
+      return (await r.json()) as ImportSheetResponse;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["leads"] });
+      qc.invalidateQueries({ queryKey: ["config"] });
+      qc.invalidateQueries({ queryKey: ["lead-sources"] });
+      onClose();
+    },
+  });
+  const changes = preview ? preview.created + preview.updated : 0;
+  const close = () => {
+    apply.reset();
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {preview && (
+            <DialogDescription>
+              {preview.created} new, {preview.updated} updated,{" "}
+              {preview.unchanged} unchanged, {preview.skipped} skipped,{" "}
+              {preview.duplicates} duplicate(s). Nothing is written until you
+              apply.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto">
+          <table className="min-w-full text-xs">
+            <thead className="sticky top-0 bg-white dark:bg-neutral-900">
+              <tr className="text-left text-neutral-500">
+                <th className="py-1 pr-3 font-medium">Row</th>
+                <th className="py-1 pr-3 font-medium">Action</th>
+                <th className="py-1 pr-3 font-medium">Lead</th>
+                <th className="py-1 font-medium">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200 dark:divide-neutral-800">
+              {preview?.rows.map((item) => (
+                <tr key={item.row} className="align-top">
+                  <td className="py-1.5 pr-3 text-neutral-500">{item.row}</td>
+                  <td className="py-1.5 pr-3">
+                    <span
+                      className={`rounded-full px-2 py-0.5 font-semibold ${ACTION_CLASSES[item.action]}`}
+                    >
+                      {ACTION_LABELS[item.action]}
+                    </span>
+                  </td>
+                  <td className="py-1.5 pr-3">{item.name || "—"}</td>
+                  <td className="py-1.5 text-neutral-600 dark:text-neutral-400">
+                    <Outcome item={item} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <DialogFooter className="items-center gap-2">
+          {apply.isError && (
+            <span className="mr-auto text-xs text-red-600">
+              {(apply.error as Error).message}
+            </span>
+          )}
+          <button
+            onClick={close}
+            className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-sm font-medium dark:border-neutral-700 dark:bg-neutral-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => preview && apply.mutate(preview.previewId)}
+            disabled={apply.isPending || changes === 0}
+            className="rounded-lg bg-brand-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-brand-700 disabled:opacity-60"
+          >
+            {apply.isPending ? "Applying..." : `Apply ${changes} change(s)`}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useQuery } from "@tanstack/react-query";
+import type {
+  LeadActivity,
+  LeadActivityChange,
+  ListLeadActivityResponse,
+} from "@shared/api";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+const KIND_LABELS: Record<LeadActivity["kind"], string> = {
+  create: "Created",
+  update: "Edited",
+  sync: "Updated from sheet",
+  assign: "Reassigned",
+  escalate: "Missed first-contact SLA",
+  merge: "Merged a duplicate",
+};
+
+function fieldLabel(field: string) {
+  const key = field.startsWith("fields.") ? field.slice(7) : field;
+  if (key === "ownerId") return "Owner";
+  if (key === "slaBreachedAt") return "SLA missed";
+  if (key === "escalatedTo") return "Escalated to";
+  if (key === "mergedFrom") return "Merged from";
+  return key.replace(/[_-]+/g, " ").replace(/^./, (c) => c.toUpperCase());
+}
+
+function ChangeLine({
+  change,
+  ownerName,
+}: {
+  change: LeadActivityChange;
+  ownerName: (id?: string | null) => string | undefined;
+}) {
+  const fmt = (v?: string | null) => {
+    if (!v) return "—";
+    if (change.field === "ownerId") return ownerName(v) || "—";
+    if (change.field === "slaBreachedAt") return new Date(v).toLocaleString();
+    // a user id; the team table shows who manages whom
+    if (change.field === "escalatedTo") return "manager";
+    return v;
+  };
+  return (
+    <li className="break-words">
+      <span className="font-medium">{fieldLabel(change.field)}:</span>{" "}
+      <span className="text-neutral-500">{fmt(change.from)}</span> →{" "}
+      {fmt(change.to)}
+    </li>
+  );
+}
+
+// Timeline of a lead's changes, newest first
+export function LeadActivityList({
+  leadId,
+  ownerName,
+}: {
+  leadId: string | null;
+  ownerName: (id?: string | null) => string | undefined;
+}) {
+  const activityQ = useQuery<ListLeadActivityResponse>({
+    queryKey: ["activity", leadId],
+    enabled: !!leadId,
+    queryFn: async () => {
+      const r = await fetch(`/api/leads/${leadId}/activity`);
+      if (!r.ok) throw new Error(`Failed to load history (${r.status})`);
+      return r.json();
+    },
+  });
+  const items = activityQ.data?.items || [];
+
+  return (
+    <>
+      {activityQ.isLoading && (
+        <p className="mt-6 text-sm text-neutral-500">Loading…</p>
+      )}
+      {activityQ.isError && (
+        <p className="mt-6 text-sm text-red-600">
+          {(activityQ.error as Error).message}
+        </p>
+      )}
+      {activityQ.isSuccess && items.length === 0 && (
+        <p className="mt-6 text-sm text-neutral-500">No changes recorded.</p>
+      )}
+      <ol className="mt-6 space-y-4 border-l border-neutral-200 pl-4 dark:border-neutral-800">
+        {items.map((a) => (
+          <li key={a.id} className="text-sm">
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="font-semibold">{KIND_LABELS[a.kind]}</span>
+              <span className="text-xs text-neutral-500">
+                {new Date(a.at).toLocaleString()}
+              </span>
+            </div>
+            <div className="text-xs text-neutral-500">by {a.actor}</div>
+            {a.kind !== "create" && (
+              <ul className="mt-1 space-y-0.5 text-xs">
+                {a.changes.map((c, i) => (
+                  <ChangeLine key={i} change={c} ownerName={ownerName} />
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+    </>
+  );
+}
+
+export default function LeadActivityPanel({
+  leadId,
+  title,
+  ownerName,
+  onClose,
+}: {
+  leadId: string | null;
+  title?: string;
+  ownerName: (id?: string | null) => string | undefined;
+  onClose: () => void;
+}) {
+  return (
+    <Sheet open={!!leadId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>{title || "Lead"}</SheetDescription>
+        </SheetHeader>
+        <LeadActivityList leadId={leadId} ownerName={ownerName} />
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type {
+  ColumnMapping,
+  ImportPreviewResponse,
+  ImportSheetRequest,
+  ImportSheetResponse,
+  LeadSource,
+  LeadSourceInput,
+  LeadSourcesResponse,
+  Salesperson,
+} from "@shared/api";
+import { suggestColumnMapping } from "@shared/column-mapping";
+import { ColumnMappingFields } from "@/components/ColumnMappingEditor";
+import ImportPreviewDialog from "@/components/ImportPreviewDialog";
+import { apiError } from "@/lib/api";
+
+const fieldClass =
+  "rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs dark:border-neutral-700 dark:bg-neutral-800";
+
+const NEW_SOURCE: LeadSourceInput = {
+  name: "",
+  sheetUrl: "",
+  sourceTag: "",
+  ownerIds: [],
+  enabled: true,
+  syncMinutes: 15,
+  columnMapping: null,
+};
+
+async function postJson<T>(url: string, method: string, body: unknown) {
+  const r = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!r.ok) throw await apiError(r);
+  return (await r.json()) as T;
+}
+
+// Named sheets, each synced on its own interval with its own columns and owners
+export default function LeadSourcesEditor({ team }: { team: Salesperson[] }) {
+  const qc = useQueryClient();
+  const sourcesQ = useQuery<LeadSourcesResponse>({
+    queryKey: ["lead-sources"],
+    queryFn: async () => {
+      const r = await fetch("/api/lead-sources");
+      if (!r.ok) throw await apiError(r);
+      return r.json();
+    },
+  });
+  const [adding, setAdding] = useState(false);
+  const preview = useMutation({
+    mutationFn: (sourceId: string) => {
+      const body: ImportSheetRequest = { sourceId };
+      return postJson<ImportPreviewResponse>(
+        "/api/import-sheet/preview",
+        "POST",
+        body,
+      );
+    },
+  });
+  const sources = sourcesQ.data?.items || [];
+
+  return (
+    <div className="mt-8 rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
+      <div className="flex items-center gap-2">
+        <h3 className="text-sm font-semibold">Lead sources</h3>
+        <div className="flex-1" />
+        <button
+          onClick={() => setAdding(true)}
+          disabled={adding}
+          className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-xs font-medium dark:border-neutral-700 dark:bg-neutral-800"
+        >
+          + Add source
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-neutral-500">
+        Each sheet syncs on its own schedule. While there are none, the sheet
+        above syncs every 5 minutes.
+      </p>
+      {preview.isError && (
+        <p className="mt-2 text-xs text-red-600">
+          {(preview.error as Error).message}
+        </p>
+      )}
+      <div className="mt-3 space-y-3">
+        {adding && (
+          <SourceForm
+            team={team}
+            onDone={() => {
+              setAdding(false);
+              qc.invalidateQueries({ queryKey: ["lead-sources"] });
+            }}
+          />
+        )}
+        {sources.map((s) => (
+          <SourceForm
+            key={s.id}
+            source={s}
+            team={team}
+            onPreview={() => preview.mutate(s.id)}
+            previewing={preview.isPending && preview.variables === s.id}
+            onDone={() => qc.invalidateQueries({ queryKey: ["lead-sources"] })}
+          />
+        ))}
+        {!adding && sources.length === 0 && (
+          <p className="text-xs text-neutral-500">No lead sources yet.</p>
+        )}
+      </div>
+      <ImportPreviewDialog
+        preview={preview.data || null}
+        onClose={() => preview.reset()}
+      />
+    </div>
+  );
+}
+
+function SyncStatus({ source }: { source: LeadSource }) {
+  return (
+    <span className="text-xs text-neutral-500">
+      {source.lastSyncAt
+        ? `Last sync: ${new Date(source.lastSyncAt).toLocaleString()}`
+        : "Not synced yet"}
+      {source.lastError && (
+        <span className="ml-2 text-red-600" title={source.lastErrorAt || ""}>
+          Failed: {source.lastError}
+        </span>
+      )}
+    </span>
+  );
+}
+
+function SourceForm({
+  source,
+  team,
+  onPreview,
+  previewing,
+  onDone,
+}: {
+  source?: LeadSource; // omitted for a new source
+  team: Salesperson[];
+  onPreview?: () => void;
+  previewing?: boolean;
+  onDone: () => void;
+}) {
+  const qc = useQueryClient();
+  const [draft, setDraft] = useState<LeadSourceInput>(NEW_SOURCE);
+  useEffect(
+    () =>
+      setDraft(
+        source
+          ? {
+              name: source.name,
+              sheetUrl: source.sheetUrl,
+              sourceTag: source.sourceTag || "",
+              ownerIds: source.ownerIds,
+              enabled: source.enabled,
+              syncMinutes: source.syncMinutes,
+              columnMapping: source.columnMapping ?? null,
+            }
+          : NEW_SOURCE,
+      ),
+    [source],
+  );
+  const headers = source?.headers || [];
+  const patch = (p: LeadSourceInput) => setDraft({ ...draft, ...p });
+
+  const save = useMutation({
+    mutationFn: (next: LeadSourceInput) =>
+      source
+        ? postJson<LeadSource>(`/api/lead-sources/${source.id}`, "PUT", next)
+        : postJson<LeadSource>("/api/lead-sources", "POST", next),
+    onSuccess: onDone,
+  });
+  const remove = useMutation({
+    mutationFn: async () => {
+      const r = await fetch(`/api/lead-sources/${source!.id}`, {
+        method: "DELETE",
+      });
+      if (!r.ok) throw await apiError(r);
+    },
+    onSuccess: onDone,
+  });
+  const sync = useMutation({
+    mutationFn: () => {
+      const body: ImportSheetRequest = { sourceId: source!.id };
+      return postJson<ImportSheetResponse>("/api/import-sheet", "POST", body);
+    },
+    onSettled: () => {
+      onDone();
+      qc.invalidateQueries({ queryKey: ["leads"] });
+    },
+  });
+  const error = [save, remove, sync].find((m) => m.isError)?.error as
+    | Error
+    | undefined;
+
+  const toggleOwner = (id: string) => {
+    const owners = draft.ownerIds || [];
+    patch({
+      ownerIds: owners.includes(id)
+        ? owners.filter((o) => o !== id)
+        : [...owners, id],
+    });
+  };
+  const ownColumns = !!draft.columnMapping;
+
+  return (
+    <div className="rounded-xl border border-neutral-200 p-3 dark:border-neutral-800">
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-4">
+        <input
+          value={draft.name || ""}
+          onChange={(e) => patch({ name: e.target.value })}
+          placeholder="Name, e.g. Facebook ads"
+          className={fieldClass}
+        />
+        <input
+          value={draft.sheetUrl || ""}
+          onChange={(e) => patch({ sheetUrl: e.target.value })}
+          placeholder="Google Sheet URL"
+          className={`${fieldClass} md:col-span-2`}
+        />
+        <input
+          value={draft.sourceTag || ""}
+          onChange={(e) => patch({ sourceTag: e.target.value })}
+          placeholder="Source tag for new leads"
+          className={fieldClass}
+        />
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-3 text-xs">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={!!draft.enabled}
+            onChange={(e) => patch({ enabled: e.target.checked })}
+          />
+          Sync automatically
+        </label>
+        <label className="flex items-center gap-1">
+          every
+          <input
+            type="number"
+            min={1}
+            value={draft.syncMinutes ?? ""}
+            onChange={(e) => patch({ syncMinutes: Number(e.target.value) })}
+            className={`${fieldClass} w-16`}
+          />
+          min
+        </label>
+        <span className="text-neutral-500">New leads go to:</span>
+        {team.map((s) => (
+          <label key={s.id} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={(draft.ownerIds || []).includes(s.id)}
+              onChange={() => toggleOwner(s.id)}
+            />
+            {s.name}
+          </label>
+        ))}
+        {(draft.ownerIds || []).length === 0 && (
+          <span className="text-neutral-400">the whole team</span>
+        )}
+      </div>
+      <label className="mt-2 flex items-center gap-1 text-xs">
+        <input
+          type="checkbox"
+          checked={ownColumns}
+          onChange={(e) =>
+            patch({
+              columnMapping: e.target.checked
+                ? suggestColumnMapping(headers)
+                : null,
+            })
+          }
+        />
+        Own columns (otherwise the shared sheet columns apply; fields left unset
+        follow the suggestions)
+      </label>
+      {ownColumns && (
+        <ColumnMappingFields
+          headers={headers}
+          draft={draft.columnMapping || {}}
+          onChange={(next: ColumnMapping) => patch({ columnMapping: next })}
+          saved={source?.columnMapping}
+        />
+      )}
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        {source && <SyncStatus source={source} />}
+        <div className="flex-1" />
+        {error && <span className="text-xs text-red-600">{error.message}</span>}
+        {sync.isSuccess && (
+          <span className="text-xs text-green-700">
+            {sync.data.imported} new, {sync.data.updated} updated
+          </span>
+        )}
+        {source && (
+          <>
+            <button
+              onClick={() => remove.mutate()}
+              disabled={remove.isPending}
+              className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-xs font-medium text-red-600 dark:border-neutral-700 dark:bg-neutral-800"
+            >
+              Delete
+            </button>
+            <button
+              onClick={onPreview}
+              disabled={previewing}
+              title="See what a sync would change before writing anything"
+              className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-xs font-medium dark:border-neutral-700 dark:bg-neutral-800"
+            >
+              {previewing ? "Reading..." : "Preview"}
+            </button>
+            <button
+              onClick={() => sync.mutate()}
+              disabled={sync.isPending}
+              className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-xs font-medium dark:border-neutral-700 dark:bg-neutral-800"
+            >
+              {sync.isPending ? "Syncing..." : "Sync now"}
+            </button>
+          </>
+        )}
+        {!source && (
+          <button
+            onClick={onDone}
+            className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-xs font-medium dark:border-neutral-700 dark:bg-neutral-800"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={() => save.mutate(draft)}
+          disabled={save.isPending}
+          className="rounded-lg bg-brand-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-brand-700 disabled:opacity-60"
+        >
+          {source ? "Save" : "Add"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type {
+  CreateLeadTaskRequest,
+  Lead,
+  LeadTask,
+  LeadTaskType,
+  ListLeadTasksResponse,
+  Salesperson,
+  UpdateLeadTaskRequest,
+} from "@shared/api";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+export const TASK_TYPE_OPTIONS: { value: LeadTaskType; label: string }[] = [
+  { value: "call", label: "Call" },
+  { value: "site visit", label: "Site visit" },
+  { value: "send quotation", label: "Send quotation" },
+];
+
+export function taskTypeLabel(type: LeadTaskType) {
+  return TASK_TYPE_OPTIONS.find((o) => o.value === type)?.label || type;
+}
+
+async function send(url: string, method: string, body?: unknown) {
+  const r = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!r.ok && r.status !== 204) throw new Error(await r.text());
+  return r.status === 204 ? null : r.json();
+}
+
+// Shared by the lead panel and the "My tasks" view
+export function useTaskMutations(leadId?: string) {
+  const qc = useQueryClient();
+  const invalidate = () => {
+    qc.invalidateQueries({ queryKey: ["tasks"] });
+  };
+  const create = useMutation({
+    mutationFn: (body: CreateLeadTaskRequest) =>
+      send(`/api/leads/${leadId}/tasks`, "POST", body),
+    onSuccess: invalidate,
+  });
+  const update = useMutation({
+    mutationFn: ({
+      task,
+      patch,
+    }: {
+      task: LeadTask;
+      patch: UpdateLeadTaskRequest;
+    }) => send(`/api/leads/${task.leadId}/tasks/${task.id}`, "PUT", patch),
+    onSuccess: invalidate,
+  });
+  const remove = useMutation({
+    mutationFn: (task: LeadTask) =>
+      send(`/api/leads/${task.leadId}/tasks/${task.id}`, "DELETE"),
+    onSuccess: invalidate,
+  });
+  return { create, update, remove };
+}
+
+// <input type="datetime-local"> value for a date, in local time
+function localInputValue(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export default function LeadTasksPanel({
+  lead,
+  team,
+  onClose,
+}: {
+  lead: Lead | null;
+  team: Salesperson[];
+  onClose: () => void;
+}) {
+  const tasksQ = useQuery<ListLeadTasksResponse>({
+    queryKey: ["tasks", "lead", lead?.id],
+    enabled: !!lead,
+    queryFn: async () => {
+      const r = await fetch(`/api/leads/${lead!.id}/tasks`);
+      if (!r.ok) throw new Error(`Failed to load tasks (${r.status})`);
+      return r.json();
+    },
+  });
+  const { create, update, remove } = useTaskMutations(lead?.id);
+  const [type, setType] = useState<LeadTaskType>("call");
+  const [dueAt, setDueAt] = useState(() =>
+    localInputValue(new Date(Date.now() + 24 * 60 * 60 * 1000)),
+  );
+  const [note, setNote] = useState("");
+  const ownerName = (id?: string | null) =>
+    team.find((p) => p.id === id)?.name || "Unassigned";
+
+  return (
+    <Sheet open={!!lead} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Follow-ups</SheetTitle>
+          <SheetDescription>
+            {lead?.name || lead?.email || "Lead"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <form
+          className="mt-6 grid gap-2 rounded-xl border border-neutral-200 p-3 text-sm dark:border-neutral-800"
+          onSubmit={(e) => {
+            e.preventDefault();
+            create.mutate(
+              { type, dueAt: new Date(dueAt).toISOString(), note },
+              { onSuccess: () => setNote("") },
+            );
+          }}
+        >
+          <div className="flex gap-2">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as LeadTaskType)}
+              className="rounded-md border border-neutral-200 bg-white px-2 py-1 dark:border-neutral-700 dark:bg-neutral-800"
+            >
+              {TASK_TYPE_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="datetime-local"
+              value={dueAt}
+              onChange={(e) => setDueAt(e.target.value)}
+              required
+              className="flex-1 rounded-md border border-neutral-200 bg-white px-2 py-1 dark:border-neutral-700 dark:bg-neutral-800"
+            />
+          </div>
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="rounded-md border border-neutral-200 bg-white px-2 py-1 dark:border-neutral-700 dark:bg-neutral-800"
+          />
+          <button
+            type="submit"
+            disabled={create.isPending}
+            className="rounded-lg bg-brand-600 px-3 py-1.5 font-semibold text-white shadow hover:bg-brand-700 disabled:opacity-60"
+          >
+            Add follow-up
+          </button>
+          {create.isError && (
+            <p className="text-xs text-red-600">
+              {(create.error as Error).message}
+            </p>
+          )}
+        </form>
+
+        {tasksQ.isSuccess && tasksQ.data.items.length === 0 && (
+          <p className="mt-6 text-sm text-neutral-500">No follow-ups yet.</p>
+        )}
+        <ul className="mt-6 space-y-3">
+          {(tasksQ.data?.items || []).map((t) => (
+            <li
+              key={t.id}
+              className="flex items-start gap-3 rounded-lg border border-neutral-200 p-3 text-sm dark:border-neutral-800"
+            >
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={!!t.completedAt}
+                onChange={(e) =>
+                  update.mutate({
+                    task: t,
+                    patch: { completed: e.target.checked },
+                  })
+                }
+              />
+              <div className="flex-1">
+                <div
+                  className={`font-medium ${t.completedAt ? "line-through opacity-60" : ""}`}
+                >
+                  {taskTypeLabel(t.type)}
+                  {t.overdueAt && !t.completedAt && (
+                    <span className="ml-2 rounded bg-red-100 px-1.5 py-0.5 text-[10px] font-semibold text-red-700 dark:bg-red-950/50 dark:text-red-300">
+                      Overdue
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-neutral-500">
+                  {new Date(t.dueAt).toLocaleString()} · {ownerName(t.ownerId)}
+                </div>
+                {t.note && <div className="mt-1 text-xs">{t.note}</div>}
+              </div>
+              <button
+                onClick={() => remove.mutate(t)}
+                className="text-xs text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      </SheetContent>
+    </Sheet>
+  );
+}
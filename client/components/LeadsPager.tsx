@@ -0,0 +1,43 @@
+export default function LeadsPager({
+  page,
+  limit,
+  total,
+  onPage,
+}: {
+  page: number;
+  limit: number;
+  total: number;
+  onPage: (page: number) => void;
+}) {
+  const pages = Math.max(1, Math.ceil(total / limit));
+  const first = total === 0 ? 0 : (page - 1) * limit + 1;
+  const last = Math.min(total, page * limit);
+  const btn =
+    "rounded-md border border-neutral-200 bg-white px-3 py-1 text-xs font-medium shadow-sm hover:bg-neutral-50 disabled:opacity-50 dark:border-neutral-700 dark:bg-neutral-800";
+  return (
+    <div className="mt-3 flex items-center justify-between text-xs text-neutral-600 dark:text-neutral-400">
+      <div>
+        {first}–{last} of {total} leads
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          className={btn}
+          disabled={page <= 1}
+          onClick={() => onPage(page - 1)}
+        >
+          Previous
+        </button>
+        <span>
+          Page {page} of {pages}
+        </span>
+        <button
+          className={btn}
+          disabled={page >= pages}
+          onClick={() => onPage(page + 1)}
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+}
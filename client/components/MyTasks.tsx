@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { DueTask, DueTasksResponse, Salesperson } from "@shared/api";
+import { taskTypeLabel, useTaskMutations } from "@/components/LeadTasksPanel";
+
+function endOfToday() {
+  const d = new Date();
+  d.setHours(23, 59, 59, 999);
+  return d.toISOString();
+}
+
+function TaskList({
+  title,
+  tasks,
+  tone,
+  onComplete,
+}: {
+  title: string;
+  tasks: DueTask[];
+  tone: "overdue" | "today";
+  onComplete: (task: DueTask) => void;
+}) {
+  return (
+    <div className="rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
+      <h3
+        className={`text-sm font-semibold ${tone === "overdue" ? "text-red-700 dark:text-red-300" : ""}`}
+      >
+        {title} ({tasks.length})
+      </h3>
+      {tasks.length === 0 ? (
+        <p className="mt-3 text-sm text-neutral-500">Nothing here.</p>
+      ) : (
+        <ul className="mt-3 divide-y divide-neutral-200 dark:divide-neutral-800">
+          {tasks.map((t) => (
+            <li key={t.id} className="flex items-center gap-3 py-2 text-sm">
+              <input type="checkbox" onChange={() => onComplete(t)} />
+              <div className="flex-1">
+                <div className="font-medium">
+                  {taskTypeLabel(t.type)} · {t.leadName || "Lead"}
+                  {t.leadPhone && (
+                    <span className="ml-2 text-neutral-500">{t.leadPhone}</span>
+                  )}
+                </div>
+                <div className="text-xs text-neutral-500">
+                  {new Date(t.dueAt).toLocaleString()}
+                  {t.note && <> · {t.note}</>}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function MyTasks({ team }: { team: Salesperson[] }) {
+  const [ownerId, setOwnerId] = useState("");
+  const tasksQ = useQuery<DueTasksResponse>({
+    queryKey: ["tasks", "due", ownerId],
+    queryFn: async () => {
+      const p = new URLSearchParams({ until: endOfToday() });
+      if (ownerId) p.set("ownerId", ownerId);
+      const r = await fetch(`/api/tasks/due?${p}`);
+      if (!r.ok) throw new Error(`Failed to load tasks (${r.status})`);
+      return r.json();
+    },
+    refetchInterval: 60 * 1000,
+  });
+  const { update } = useTaskMutations();
+  const complete = (task: DueTask) =>
+    update.mutate({ task, patch: { completed: true } });
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-neutral-600 dark:text-neutral-400">
+          Tasks for
+        </span>
+        <select
+          value={ownerId}
+          onChange={(e) => setOwnerId(e.target.value)}
+          className="rounded-md border border-neutral-200 bg-white px-2 py-1 dark:border-neutral-700 dark:bg-neutral-800"
+        >
+          <option value="">Everyone</option>
+          {team.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      {tasksQ.isError && (
+        <p className="mt-4 text-sm text-red-600">
+          {(tasksQ.error as Error).message}
+        </p>
+      )}
+      <div className="mt-4 grid gap-4 md:grid-cols-2">
+        <TaskList
+          title="Overdue"
+          tone="overdue"
+          tasks={tasksQ.data?.overdue || []}
+          onComplete={complete}
+        />
+        <TaskList
+          title="Due today"
+          tone="today"
+          tasks={tasksQ.data?.dueToday || []}
+          onComplete={complete}
+        />
+      </div>
+    </div>
+  );
+}
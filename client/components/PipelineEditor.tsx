@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  PipelineOutcome,
+  PipelineResponse,
+  PipelineStage,
+  UpdatePipelineRequest,
+} from "@shared/api";
+
+const TOKEN_KEY = "crm.adminToken";
+
+const fieldClass =
+  "rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs dark:border-neutral-700 dark:bg-neutral-800";
+
+// Admin-only: saving sends the ADMIN_TOKEN entered here with the request
+export default function PipelineEditor({
+  stages,
+}: {
+  stages: PipelineStage[];
+}) {
+  const qc = useQueryClient();
+  const [draft, setDraft] = useState<PipelineStage[]>(stages);
+  const [newLabel, setNewLabel] = useState("");
+  const [token, setToken] = useState(
+    () => sessionStorage.getItem(TOKEN_KEY) || "",
+  );
+
+  useEffect(() => setDraft(stages), [stages]);
+
+  const save = useMutation({
+    mutationFn: async (next: PipelineStage[]) => {
+      sessionStorage.setItem(TOKEN_KEY, token);
+      const body: UpdatePipelineRequest = { stages: next };
+      const r = await fetch("/api/admin/pipeline", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", "x-admin-token": token },
+        body: JSON.stringify(body),
+      });
+      const data = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(data.error || `HTTP ${r.status}`);
+      return data as PipelineResponse;
+    },
+    onSuccess: (data) => qc.setQueryData(["pipeline"], data),
+  });
+
+  const patch = (i: number, p: Partial<PipelineStage>) =>
+    setDraft(draft.map((s, j) => (j === i ? { ...s, ...p } : s)));
+  const remove = (i: number) => {
+    const id = draft[i].id;
+    setDraft(
+      draft
+        .filter((_, j) => j !== i)
+        .map((s) => ({
+          ...s,
+          allowedFrom: (s.allowedFrom || []).filter((f) => f !== id),
+        })),
+    );
+  };
+  const move = (i: number, dir: -1 | 1) => {
+    const j = i + dir;
+    if (j < 0 || j >= draft.length) return;
+    const next = [...draft];
+    [next[i], next[j]] = [next[j], next[i]];
+    setDraft(next);
+  };
+  const add = () => {
+    const label = newLabel.trim();
+    const id = label.toLowerCase();
+    if (!label || draft.some((s) => s.id === id)) return;
+    setDraft([
+      ...draft,
+      {
+        id,
+        label,
+        order: draft.length,
+        color: "#64748b",
+        outcome: null,
+        allowedFrom: [],
+        requiredFields: [],
+      },
+    ]);
+    setNewLabel("");
+  };
+
+  return (
+    <div className="mt-8 rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Pipeline stages</h3>
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="Admin token"
+          className={`${fieldClass} w-40`}
+        />
+      </div>
+      <ul className="mt-3 space-y-2">
+        {draft.map((s, i) => (
+          <li key={s.id} className="flex flex-wrap items-center gap-2">
+            <input
+              type="color"
+              value={s.color}
+              onChange={(e) => patch(i, { color: e.target.value })}
+              className="h-7 w-8 cursor-pointer rounded border border-neutral-200 dark:border-neutral-700"
+            />
+            <input
+              value={s.label}
+              onChange={(e) => patch(i, { label: e.target.value })}
+              className={`${fieldClass} w-48`}
+            />
+            <span className="w-32 truncate text-xs text-neutral-500">
+              {s.id}
+            </span>
+            <select
+              value={s.outcome || ""}
+              onChange={(e) =>
+                patch(i, {
+                  outcome: (e.target.value || null) as PipelineOutcome | null,
+                })
+              }
+              className={fieldClass}
+            >
+              <option value="">Open</option>
+              <option value="won">Won (final)</option>
+              <option value="lost">Lost (final)</option>
+            </select>
+            <input
+              value={(s.requiredFields || []).join(",")}
+              onChange={(e) =>
+                patch(i, { requiredFields: e.target.value.split(",") })
+              }
+              placeholder="Required fields, comma separated"
+              title="Lead fields that must be filled before entering this stage"
+              className={`${fieldClass} w-56`}
+            />
+            <select
+              multiple
+              value={s.allowedFrom || []}
+              onChange={(e) =>
+                patch(i, {
+                  allowedFrom: Array.from(e.target.selectedOptions).map(
+                    (o) => o.value,
+                  ),
+                })
+              }
+              title="Only allow entering this stage from the selected stages (none selected: any)"
+              className={`${fieldClass} h-14 w-40`}
+            >
+              {draft
+                .filter((o) => o.id !== s.id)
+                .map((o) => (
+                  <option key={o.id} value={o.id}>
+                    {o.label}
+                  </option>
+                ))}
+            </select>
+            <button onClick={() => move(i, -1)} className={fieldClass}>
+              ↑
+            </button>
+            <button onClick={() => move(i, 1)} className={fieldClass}>
+              ↓
+            </button>
+            <button
+              onClick={() => remove(i)}
+              className="text-xs text-red-600 hover:underline"
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 flex items-center gap-2">
+        <input
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder="New stage"
+          className={`${fieldClass} w-48`}
+        />
+        <button onClick={add} className={fieldClass}>
+          Add stage
+        </button>
+        <div className="flex-1" />
+        {save.isError && (
+          <span className="text-xs text-red-600">
+            {(save.error as Error).message}
+          </span>
+        )}
+        {save.isSuccess && (
+          <span className="text-xs text-green-700">Saved</span>
+        )}
+        <button
+          onClick={() => setDraft(stages)}
+          className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-xs font-medium dark:border-neutral-700 dark:bg-neutral-800"
+        >
+          Reset
+        </button>
+        <button
+          onClick={() => save.mutate(draft)}
+          disabled={save.isPending || !token}
+          className="rounded-lg bg-brand-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-brand-700 disabled:opacity-60"
+        >
+          Save pipeline
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useSession } from "@/hooks/use-session";
+
+// Layout route that sends signed-out visitors to /login and back afterwards
+export default function RequireSession() {
+  const location = useLocation();
+  const sessionQ = useSession();
+  if (sessionQ.isLoading)
+    return (
+      <div className="flex min-h-screen items-center justify-center text-sm text-neutral-500">
+        Loading…
+      </div>
+    );
+  if (!sessionQ.data?.user)
+    return (
+      <Navigate
+        to="/login"
+        replace
+        state={{ from: location.pathname + location.search }}
+      />
+    );
+  return <Outlet />;
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  ConfigState,
+  Lead,
+  PipelineStage,
+  SlaPolicy,
+  UpdateConfigRequest,
+} from "@shared/api";
+import { apiError } from "@/lib/api";
+
+const fieldClass =
+  "rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs dark:border-neutral-700 dark:bg-neutral-800";
+
+// Shown while a lead whose owner missed the SLA is still uncontacted
+export function SlaBadge({
+  lead,
+  stages,
+}: {
+  lead: Lead;
+  stages: PipelineStage[];
+}) {
+  if (!lead.slaBreachedAt || lead.status !== stages[0]?.id) return null;
+  return (
+    <span
+      title={`First contact was due by ${new Date(lead.slaBreachedAt).toLocaleString()}`}
+      className="ml-2 rounded-full bg-red-100 px-2 py-0.5 text-[10px] font-semibold text-red-700 dark:bg-red-900/40 dark:text-red-300"
+    >
+      SLA missed
+    </span>
+  );
+}
+
+// First-contact SLA: how long a new lead may wait, and what happens after
+export default function SlaSettings({ sla }: { sla?: SlaPolicy | null }) {
+  const qc = useQueryClient();
+  const [enabled, setEnabled] = useState(!!sla);
+  const [minutes, setMinutes] = useState(
+    String(sla?.firstContactMinutes ?? 30),
+  );
+  const [workingHoursOnly, setWorkingHoursOnly] = useState(
+    sla?.workingHoursOnly ?? true,
+  );
+  const [reassign, setReassign] = useState(!!sla?.reassign);
+  useEffect(() => {
+    setEnabled(!!sla);
+    setMinutes(String(sla?.firstContactMinutes ?? 30));
+    setWorkingHoursOnly(sla?.workingHoursOnly ?? true);
+    setReassign(!!sla?.reassign);
+  }, [sla]);
+
+  const save = useMutation({
+    mutationFn: async (next: SlaPolicy | null) => {
+      const body: UpdateConfigRequest = { sla: next };
+      const r = await fetch("/api/config", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!r.ok) throw await apiError(r);
+      return (await r.json()) as ConfigState;
+    },
+    onSuccess: (data) => qc.setQueryData(["config"], data),
+  });
+
+  return (
+    <div className="mt-8 rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
+      <h3 className="text-sm font-semibold">First-contact SLA</h3>
+      <p className="mt-1 text-xs text-neutral-500">
+        Leads still in the first stage this long after they were assigned are
+        escalated to the owner's manager and recorded in the lead's history.
+      </p>
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-xs">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          Time first contact
+        </label>
+        <label className="flex items-center gap-2">
+          within
+          <input
+            type="number"
+            min={1}
+            value={minutes}
+            disabled={!enabled}
+            onChange={(e) => setMinutes(e.target.value)}
+            className={`${fieldClass} w-20`}
+          />
+          minutes
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={workingHoursOnly}
+            disabled={!enabled}
+            onChange={(e) => setWorkingHoursOnly(e.target.checked)}
+          />
+          of the owner's working hours
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={reassign}
+            disabled={!enabled}
+            onChange={(e) => setReassign(e.target.checked)}
+          />
+          then hand the lead to the next available salesperson
+        </label>
+        <div className="flex-1" />
+        {save.isError && (
+          <span className="text-red-600">{(save.error as Error).message}</span>
+        )}
+        {save.isSuccess && <span className="text-green-700">Saved</span>}
+        <button
+          onClick={() =>
+            save.mutate(
+              enabled
+                ? {
+                    firstContactMinutes: Number(minutes),
+                    workingHoursOnly,
+                    reassign,
+                  }
+                : null,
+            )
+          }
+          disabled={save.isPending}
+          className="rounded-lg bg-brand-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-brand-700 disabled:opacity-60"
+        >
+          Save SLA
+        </button>
+      </div>
+    </div>
+  );
+}
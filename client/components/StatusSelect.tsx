@@ -0,0 +1,104 @@
+import { useState } from "react";
+import type {
+  Lead,
+  LeadStatus,
+  PipelineStage,
+  ValidationIssue,
+} from "@shared/api";
+import { ApiError } from "@/lib/api";
+
+// Status picker that shows pipeline rule violations inline and lets the user
+// fill in the fields a stage requires
+export default function StatusSelect({
+  lead,
+  stages,
+  onSave,
+}: {
+  lead: Lead;
+  stages: PipelineStage[];
+  onSave: (patch: Partial<Lead>) => Promise<unknown>;
+}) {
+  // status the user picked but the server refused, with the reasons
+  const [attempt, setAttempt] = useState<LeadStatus | null>(null);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const reset = () => {
+    setAttempt(null);
+    setIssues([]);
+    setValues({});
+  };
+  const save = async (status: LeadStatus, fields?: Record<string, string>) => {
+    try {
+      await onSave(fields ? { status, fields } : { status });
+      reset();
+    } catch (e) {
+      setAttempt(status);
+      setIssues(
+        e instanceof ApiError && e.issues.length > 0
+          ? e.issues
+          : [{ field: "status", code: "transition", message: String(e) }],
+      );
+    }
+  };
+
+  const missing = issues
+    .filter((i) => i.code === "required")
+    .map((i) => i.field.replace(/^fields\./, ""));
+  const blocked = issues.some((i) => i.code !== "required");
+  const value = attempt ?? lead.status;
+
+  return (
+    <div className="space-y-1">
+      <select
+        value={value}
+        onChange={(e) => save(e.target.value as LeadStatus)}
+        style={{ borderLeftColor: stages.find((s) => s.id === value)?.color }}
+        className={`rounded-md border border-l-4 bg-white px-2 py-1 text-sm dark:bg-neutral-800 ${issues.length > 0 ? "border-red-400" : "border-neutral-200 dark:border-neutral-700"}`}
+      >
+        {!stages.some((s) => s.id === lead.status) && (
+          <option value={lead.status}>{lead.status}</option>
+        )}
+        {stages.map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.label}
+          </option>
+        ))}
+      </select>
+      {issues.length > 0 && (
+        <div className="w-48 space-y-1 text-[11px] text-red-600 dark:text-red-400">
+          {issues
+            .filter((i) => i.code !== "required")
+            .map((i) => (
+              <div key={i.field + i.code}>{i.message}</div>
+            ))}
+          {!blocked &&
+            missing.map((key) => (
+              <input
+                key={key}
+                value={values[key] || ""}
+                onChange={(e) =>
+                  setValues({ ...values, [key]: e.target.value })
+                }
+                placeholder={key}
+                className="w-full rounded-md border border-red-300 bg-white px-2 py-1 text-xs text-neutral-900 dark:bg-neutral-800 dark:text-neutral-100"
+              />
+            ))}
+          <div className="flex gap-2">
+            {!blocked && (
+              <button
+                onClick={() => save(attempt!, values)}
+                className="font-semibold underline"
+              >
+                Save
+              </button>
+            )}
+            <button onClick={reset} className="underline opacity-75">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { StoreStatusResponse } from "@shared/api";
+
+export default function StoreStatusBanner({
+  status,
+}: {
+  status?: StoreStatusResponse;
+}) {
+  if (!status?.degraded) return null;
+  const since = status.degradedSince
+    ? new Date(status.degradedSince).toLocaleString()
+    : undefined;
+  return (
+    <div className="border-b border-amber-300 bg-amber-50 px-6 py-3 text-sm text-amber-900 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-200">
+      <div className="mx-auto max-w-[1800px]">
+        <span className="font-semibold">
+          {status.mode === "fallback"
+            ? "Database unavailable — working from local backup."
+            : "Database unavailable — changes cannot be saved."}
+        </span>{" "}
+        {since && <>Since {since}. </>}
+        {status.pendingWrites > 0 && (
+          <>
+            {status.pendingWrites} change
+            {status.pendingWrites === 1 ? " is" : "s are"} waiting to be
+            reconciled.{" "}
+          </>
+        )}
+        {status.lastError && (
+          <span className="opacity-75">({status.lastError})</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import type {
+  CreateUserRequest,
+  ListUsersResponse,
+  Salesperson,
+  UpdateUserRequest,
+  User,
+  UserRole,
+} from "@shared/api";
+import { apiError } from "@/lib/api";
+import { useSession } from "@/hooks/use-session";
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  manager: "Manager",
+  salesperson: "Salesperson",
+};
+
+// All login accounts; admin-only on the server
+export function useUsers({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery<ListUsersResponse>({
+    queryKey: ["users"],
+    enabled,
+    queryFn: async () => {
+      const r = await fetch("/api/users");
+      if (!r.ok) throw await apiError(r);
+      return r.json();
+    },
+  });
+}
+
+const inputCls =
+  "rounded-md border border-neutral-200 bg-white px-3 py-2 text-sm dark:border-neutral-700 dark:bg-neutral-800";
+
+// Login accounts, each optionally acting as one member of the team
+export default function UserAccounts({ team }: { team: Salesperson[] }) {
+  const qc = useQueryClient();
+  const me = useSession().data?.user;
+  const usersQ = useUsers();
+  const onError = (e: Error) =>
+    toast.error("Could not save account", { description: e.message });
+
+  const createUser = useMutation({
+    mutationFn: async (body: CreateUserRequest) => {
+      const r = await fetch("/api/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!r.ok) throw await apiError(r);
+      return (await r.json()) as User;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["users"] }),
+    onError,
+  });
+  const updateUser = useMutation({
+    mutationFn: async ({
+      id,
+      patch,
+    }: {
+      id: string;
+      patch: UpdateUserRequest;
+    }) => {
+      const r = await fetch(`/api/users/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      if (!r.ok) throw await apiError(r);
+      return (await r.json()) as User;
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["users"] }),
+    onError,
+  });
+  const deleteUser = useMutation({
+    mutationFn: async (id: string) => {
+      const r = await fetch(`/api/users/${id}`, { method: "DELETE" });
+      if (!r.ok) throw await apiError(r);
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["users"] }),
+    onError,
+  });
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [salespersonId, setSalespersonId] = useState("");
+  const [role, setRole] = useState<UserRole>("salesperson");
+
+  const users = usersQ.data?.items || [];
+  return (
+    <div className="mt-6 rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
+      <h3 className="text-sm font-semibold">Accounts</h3>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          createUser.mutate(
+            { email, password, role, salespersonId: salespersonId || null },
+            {
+              onSuccess: () => {
+                setEmail("");
+                setPassword("");
+                setSalespersonId("");
+                setRole("salesperson");
+              },
+            },
+          );
+        }}
+        className="mt-3 flex flex-col gap-2 md:flex-row md:items-center"
+      >
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          required
+          className={`${inputCls} md:w-64`}
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (8+ characters)"
+          autoComplete="new-password"
+          required
+          className={`${inputCls} md:w-56`}
+        />
+        <RoleSelect value={role} onChange={setRole} />
+        <SalespersonSelect
+          team={team}
+          value={salespersonId}
+          onChange={setSalespersonId}
+        />
+        <button
+          type="submit"
+          disabled={createUser.isPending}
+          className="rounded-lg bg-brand-600 px-3 py-2 text-sm font-semibold text-white hover:bg-brand-700 disabled:opacity-60"
+        >
+          Add account
+        </button>
+      </form>
+      <table className="mt-4 min-w-full divide-y divide-neutral-200 text-sm dark:divide-neutral-800">
+        <thead>
+          <tr className="text-left text-xs text-neutral-500">
+            <th className="py-2 pr-4 font-medium">Email</th>
+            <th className="py-2 pr-4 font-medium">Name</th>
+            <th className="py-2 pr-4 font-medium">Role</th>
+            <th className="py-2 pr-4 font-medium">Team member</th>
+            <th className="py-2 text-right font-medium">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-neutral-200 dark:divide-neutral-800">
+          {users.map((u) => (
+            <tr key={u.id}>
+              <td className="py-2 pr-4">{u.email}</td>
+              <td className="py-2 pr-4">{u.name}</td>
+              <td className="py-2 pr-4">
+                <RoleSelect
+                  value={u.role}
+                  disabled={u.id === me?.id}
+                  onChange={(next) =>
+                    updateUser.mutate({ id: u.id, patch: { role: next } })
+                  }
+                />
+              </td>
+              <td className="py-2 pr-4">
+                <SalespersonSelect
+                  team={team}
+                  value={u.salespersonId || ""}
+                  onChange={(id) =>
+                    updateUser.mutate({
+                      id: u.id,
+                      patch: { salespersonId: id || null },
+                    })
+                  }
+                />
+              </td>
+              <td className="py-2 text-right">
+                <button
+                  onClick={() => {
+                    const next = window.prompt(`New password for ${u.email}`);
+                    if (next)
+                      updateUser.mutate(
+                        { id: u.id, patch: { password: next } },
+                        { onSuccess: () => toast.success("Password changed") },
+                      );
+                  }}
+                  className="mr-1 rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs hover:bg-neutral-50 dark:border-neutral-700 dark:bg-neutral-800 dark:hover:bg-neutral-700"
+                >
+                  Reset password
+                </button>
+                <button
+                  onClick={() => deleteUser.mutate(u.id)}
+                  disabled={u.id === me?.id}
+                  className="rounded-md border border-red-200 bg-red-50 px-2 py-1 text-xs text-red-700 hover:bg-red-100 disabled:opacity-50 dark:border-red-900/50 dark:bg-red-950/40 dark:text-red-300"
+                >
+                  Delete
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function SalespersonSelect({
+  team,
+  value,
+  onChange,
+}: {
+  team: Salesperson[];
+  value: string;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="rounded-md border border-neutral-200 bg-white px-2 py-2 text-sm dark:border-neutral-700 dark:bg-neutral-800"
+    >
+      <option value="">No team member</option>
+      {team.map((p) => (
+        <option key={p.id} value={p.id}>
+          {p.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: UserRole;
+  onChange: (role: UserRole) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value as UserRole)}
+      className="rounded-md border border-neutral-200 bg-white px-2 py-2 text-sm disabled:opacity-60 dark:border-neutral-700 dark:bg-neutral-800"
+    >
+      {(Object.keys(ROLE_LABELS) as UserRole[]).map((r) => (
+        <option key={r} value={r}>
+          {ROLE_LABELS[r]}
+        </option>
+      ))}
+    </select>
+  );
+}
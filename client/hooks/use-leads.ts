@@ -0,0 +1,65 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Lead, ListLeadsResponse } from "@shared/api";
+import { apiError } from "@/lib/api";
+
+type LeadPatch = { id: string; patch: Partial<Lead> };
+
+function applyPatch(lead: Lead, patch: Partial<Lead>): Lead {
+  return {
+    ...lead,
+    ...patch,
+    fields: { ...lead.fields, ...(patch.fields || {}) },
+  };
+}
+
+/**
+ * PUT /api/leads/:id. Every cached lead list (query keys starting with
+ * "leads") and the lead's own ["lead", id] entry show the change straight
+ * away and are rolled back if the server refuses it; errors are ApiErrors so
+ * callers can show validation issues.
+ */
+export function useUpdateLead() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, patch }: LeadPatch) => {
+      const r = await fetch(`/api/leads/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      if (!r.ok) throw await apiError(r);
+      return (await r.json()) as Lead;
+    },
+    onMutate: async ({ id, patch }: LeadPatch) => {
+      await qc.cancelQueries({ queryKey: ["leads"] });
+      await qc.cancelQueries({ queryKey: ["lead", id] });
+      const snapshot = [
+        ...qc.getQueriesData<unknown>({ queryKey: ["leads"] }),
+        ...qc.getQueriesData<unknown>({ queryKey: ["lead", id] }),
+      ];
+      qc.setQueryData<Lead>(["lead", id], (lead) =>
+        lead ? applyPatch(lead, patch) : lead,
+      );
+      qc.setQueriesData<ListLeadsResponse>({ queryKey: ["leads"] }, (data) =>
+        data?.items
+          ? {
+              ...data,
+              items: data.items.map((l) =>
+                l.id === id ? applyPatch(l, patch) : l,
+              ),
+            }
+          : data,
+      );
+      return { snapshot };
+    },
+    onError: (_err, _vars, context) => {
+      for (const [key, data] of context?.snapshot || [])
+        qc.setQueryData(key, data);
+    },
+    onSettled: (_lead, _err, { id }) => {
+      qc.invalidateQueries({ queryKey: ["leads"] });
+      qc.invalidateQueries({ queryKey: ["lead", id] });
+      qc.invalidateQueries({ queryKey: ["activity", id] });
+    },
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PipelineResponse, PipelineStage } from "@shared/api";
+
+// Pipeline stages from the server, in order, with a lookup by id
+export function usePipeline() {
+  const q = useQuery<PipelineResponse>({
+    queryKey: ["pipeline"],
+    queryFn: async () => {
+      const r = await fetch("/api/pipeline");
+      if (!r.ok) throw new Error(`Failed to load pipeline (${r.status})`);
+      return r.json();
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+  const stages = q.data?.stages || [];
+  const byId = new Map(stages.map((s) => [s.id, s] as const));
+  return {
+    stages,
+    isLoading: q.isLoading,
+    stage: (id?: string | null): PipelineStage | undefined =>
+      id ? byId.get(id) : undefined,
+  };
+}
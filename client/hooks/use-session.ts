@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type {
+  CreateUserRequest,
+  LoginRequest,
+  SessionResponse,
+} from "@shared/api";
+import { apiError } from "@/lib/api";
+
+// The signed-in user (null when signed out), from the session cookie
+export function useSession() {
+  return useQuery<SessionResponse>({
+    queryKey: ["session"],
+    queryFn: async () => {
+      const r = await fetch("/api/auth/session");
+      if (!r.ok) throw await apiError(r);
+      return r.json();
+    },
+    staleTime: 1000 * 60,
+  });
+}
+
+// Signs in, or creates the first account when `setup` is true
+export function useLogin() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      setup,
+      ...body
+    }: (LoginRequest | CreateUserRequest) & { setup?: boolean }) => {
+      const r = await fetch(setup ? "/api/auth/setup" : "/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!r.ok) throw await apiError(r);
+      return (await r.json()) as SessionResponse;
+    },
+    onSuccess: (session) => qc.setQueryData(["session"], session),
+  });
+}
+
+// Drops every cached query so the next user starts from a clean slate
+export function useLogout() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      await fetch("/api/auth/logout", { method: "POST" });
+    },
+    onSuccess: () => {
+      qc.clear();
+      qc.setQueryData<SessionResponse>(["session"], {
+        user: null,
+        setupRequired: false,
+      });
+    },
+  });
+}
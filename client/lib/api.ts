@@ -0,0 +1,23 @@
+import type { ValidationIssue } from "@shared/api";
+
+// Failed API response; `issues` is set for 422 ValidationErrorResponses
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly issues: ValidationIssue[] = [],
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export async function apiError(r: Response) {
+  const text = await r.text().catch(() => "");
+  try {
+    const body = JSON.parse(text);
+    return new ApiError(body.error || text, r.status, body.issues || []);
+  } catch {
+    return new ApiError(text || `HTTP ${r.status}`, r.status);
+  }
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import type {
+  ColumnMapping,
+  ConfigState,
+  Lead,
+  ListLeadsResponse,
+  PipelineStage,
+  Salesperson,
+} from "@shared/api";
+import { mappedValue, resolveColumnMapping } from "@shared/column-mapping";
+import { usePipeline } from "@/hooks/use-pipeline";
+import { useUpdateLead } from "@/hooks/use-leads";
+
+// Cards loaded per column; the count still shows the full total
+const COLUMN_LIMIT = 100;
+
+function columnUrl(stage: PipelineStage) {
+  const p = new URLSearchParams({
+    status: stage.id,
+    limit: String(COLUMN_LIMIT),
+    sort: "updatedAt",
+    order: "desc",
+  });
+  return `/api/leads?${p}`;
+}
+
+function LeadCard({
+  lead,
+  columnMapping,
+  ownerName,
+  onDragStart,
+}: {
+  lead: Lead;
+  columnMapping?: ColumnMapping | null; // ConfigState.columnMapping
+  ownerName?: string;
+  onDragStart: () => void;
+}) {
+  // resolved per lead, as leads from different sheets carry different headers
+  const fields = lead.fields || {};
+  const mapping = resolveColumnMapping(columnMapping, Object.keys(fields));
+  const bill = mappedValue(fields, mapping, "bill");
+  const property = mappedValue(fields, mapping, "propertyType");
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", lead.id);
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      className="cursor-grab rounded-lg border border-neutral-200 bg-white p-3 text-xs shadow-sm active:cursor-grabbing dark:border-neutral-700 dark:bg-neutral-800"
+    >
+      <div className="truncate text-sm font-semibold">
+        {lead.name || lead.email || "Unnamed lead"}
+      </div>
+      {lead.phone && <div className="text-neutral-600">{lead.phone}</div>}
+      {(bill || property) && (
+        <div className="mt-1 text-neutral-500">
+          {[bill && `Bill ${bill}`, property].filter(Boolean).join(" · ")}
+        </div>
+      )}
+      <div className="mt-2 text-[11px] text-neutral-500">
+        {ownerName || "Unassigned"}
+      </div>
+    </div>
+  );
+}
+
+export default function Board() {
+  const { stages } = usePipeline();
+  const updateLead = useUpdateLead();
+  const [dragging, setDragging] = useState<Lead | null>(null);
+  const [over, setOver] = useState<string | null>(null);
+
+  const teamQ = useQuery<{ items: Salesperson[]; total: number }>({
+    queryKey: ["salespersons"],
+    queryFn: async () => (await fetch("/api/salespersons")).json(),
+  });
+  const ownerName = (id?: string | null) =>
+    teamQ.data?.items.find((p) => p.id === id)?.name;
+  const configQ = useQuery<ConfigState>({
+    queryKey: ["config"],
+    queryFn: async () => (await fetch("/api/config")).json(),
+  });
+
+  const columns = useQueries({
+    queries: stages.map((s) => ({
+      queryKey: ["leads", "board", s.id],
+      queryFn: async (): Promise<ListLeadsResponse> => {
+        const r = await fetch(columnUrl(s));
+        if (!r.ok) throw new Error(`Failed to load ${s.label}`);
+        return r.json();
+      },
+    })),
+  });
+
+  // Leads are grouped by their current (possibly optimistic) status, so a
+  // dropped card shows in its new column before the server confirms it
+  const byId = new Map<string, Lead>();
+  for (const c of columns)
+    for (const l of c.data?.items || []) byId.set(l.id, l);
+  const leads = [...byId.values()];
+
+  const count = (i: number) => {
+    const loaded = columns[i]?.data;
+    if (!loaded) return 0;
+    const id = stages[i].id;
+    const movedOut = loaded.items.filter((l) => l.status !== id).length;
+    const movedIn = columns.reduce(
+      (n, c, j) =>
+        j === i
+          ? n
+          : n + (c.data?.items || []).filter((l) => l.status === id).length,
+      0,
+    );
+    return loaded.total - movedOut + movedIn;
+  };
+
+  const drop = (stage: PipelineStage) => {
+    setOver(null);
+    const lead = dragging;
+    setDragging(null);
+    if (!lead || lead.status === stage.id) return;
+    updateLead.mutate(
+      { id: lead.id, patch: { status: stage.id } },
+      {
+        onError: (e) =>
+          toast.error(`Could not move ${lead.name || "lead"}`, {
+            description: (e as Error).message,
+          }),
+      },
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-50 text-neutral-900 dark:bg-neutral-950 dark:text-neutral-100">
+      <header className="border-b border-neutral-200 bg-white px-6 py-4 dark:border-neutral-800 dark:bg-neutral-900">
+        <div className="flex items-center justify-between">
+          <h1 className="text-lg font-extrabold tracking-tight">
+            Pipeline board
+          </h1>
+          <Link
+            to="/"
+            className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-sm font-medium hover:bg-neutral-50 dark:border-neutral-700 dark:bg-neutral-800"
+          >
+            Table view
+          </Link>
+        </div>
+      </header>
+      <main className="flex gap-4 overflow-x-auto p-6">
+        {stages.map((s, i) => {
+          const cards = leads.filter((l) => l.status === s.id);
+          const total = count(i);
+          return (
+            <section
+              key={s.id}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setOver(s.id);
+              }}
+              onDragLeave={() => setOver((cur) => (cur === s.id ? null : cur))}
+              onDrop={(e) => {
+                e.preventDefault();
+                drop(s);
+              }}
+              className={`flex w-72 shrink-0 flex-col rounded-2xl border bg-neutral-100/70 p-3 dark:bg-neutral-900 ${over === s.id ? "border-brand-500" : "border-transparent"}`}
+            >
+              <div className="mb-3 flex items-center gap-2">
+                <span
+                  className="h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: s.color }}
+                />
+                <h2 className="flex-1 truncate text-sm font-semibold">
+                  {s.label}
+                </h2>
+                <span className="rounded-full bg-white px-2 py-0.5 text-xs font-medium dark:bg-neutral-800">
+                  {total}
+                </span>
+              </div>
+              <div className="flex min-h-16 flex-col gap-2">
+                {columns[i]?.isLoading && (
+                  <p className="text-xs text-neutral-500">Loading…</p>
+                )}
+                {cards.map((l) => (
+                  <LeadCard
+                    key={l.id}
+                    lead={l}
+                    columnMapping={configQ.data?.columnMapping}
+                    ownerName={ownerName(l.ownerId)}
+                    onDragStart={() => setDragging(l)}
+                  />
+                ))}
+                {total > cards.length && (
+                  <p className="text-center text-xs text-neutral-500">
+                    +{total - cards.length} more
+                  </p>
+                )}
+              </div>
+            </section>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
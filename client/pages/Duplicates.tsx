@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import type {
+  DuplicatePair,
+  DuplicatesResponse,
+  Lead,
+  MergeField,
+  MergeLeadsRequest,
+  Salesperson,
+} from "@shared/api";
+import { usePipeline } from "@/hooks/use-pipeline";
+import { apiError } from "@/lib/api";
+
+const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: "name", label: "Name" },
+  { field: "email", label: "Email" },
+  { field: "phone", label: "Phone" },
+  { field: "company", label: "Company" },
+  { field: "source", label: "Source" },
+  { field: "status", label: "Status" },
+  { field: "ownerId", label: "Owner" },
+];
+
+// Column each field is taken from: the kept lead's, unless it is empty
+function defaultPicks(leads: Lead[], keep: number) {
+  const picks = {} as Record<MergeField, number>;
+  for (const { field } of MERGE_FIELDS)
+    picks[field] = leads[keep][field] ? keep : 1 - keep;
+  return picks;
+}
+
+function PairCard({
+  pair,
+  display,
+}: {
+  pair: DuplicatePair;
+  display: (field: MergeField, lead: Lead) => string;
+}) {
+  const qc = useQueryClient();
+  const [keep, setKeep] = useState(0);
+  const [picks, setPicks] = useState(() => defaultPicks(pair.leads, 0));
+  const merge = useMutation({
+    mutationFn: async () => {
+      const take: MergeLeadsRequest["take"] = {};
+      for (const { field } of MERGE_FIELDS)
+        take[field] = picks[field] === keep ? "survivor" : "absorbed";
+      const body: MergeLeadsRequest = {
+        survivorId: pair.leads[keep].id,
+        absorbedId: pair.leads[1 - keep].id,
+        take,
+      };
+      const r = await fetch("/api/leads/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!r.ok) throw await apiError(r);
+      return (await r.json()) as Lead;
+    },
+    onSuccess: () => {
+      toast.success("Leads merged");
+      qc.invalidateQueries({ queryKey: ["duplicates"] });
+      qc.invalidateQueries({ queryKey: ["leads"] });
+    },
+    onError: (e) =>
+      toast.error("Could not merge leads", {
+        description: (e as Error).message,
+      }),
+  });
+
+  const chooseKeep = (i: number) => {
+    setKeep(i);
+    setPicks(defaultPicks(pair.leads, i));
+  };
+
+  return (
+    <section className="rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="rounded-full bg-amber-100 px-2 py-0.5 font-semibold text-amber-800 dark:bg-amber-900/40 dark:text-amber-200">
+          {Math.round(pair.score * 100)}% match
+        </span>
+        {pair.reasons.map((r) => (
+          <span key={r} className="text-neutral-500">
+            {r}
+          </span>
+        ))}
+      </div>
+      <table className="mt-3 w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-neutral-500">
+            <th className="w-28 py-1 font-medium" />
+            {pair.leads.map((l, i) => (
+              <th key={l.id} className="py-1 font-medium">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    name={`${pair.leads[0].id}-keep`}
+                    checked={keep === i}
+                    onChange={() => chooseKeep(i)}
+                  />
+                  Keep this lead
+                  <Link
+                    to={`/leads/${l.id}`}
+                    className="ml-2 text-brand-700 hover:underline dark:text-brand-300"
+                  >
+                    Open
+                  </Link>
+                </label>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {MERGE_FIELDS.map(({ field, label }) => (
+            <tr
+              key={field}
+              className="border-t border-neutral-100 dark:border-neutral-800"
+            >
+              <td className="py-1.5 text-xs text-neutral-500">{label}</td>
+              {pair.leads.map((l, i) => (
+                <td key={l.id} className="py-1.5">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name={`${pair.leads[0].id}-${field}`}
+                      checked={picks[field] === i}
+                      onChange={() => setPicks({ ...picks, [field]: i })}
+                    />
+                    <span className={l[field] ? "" : "text-neutral-400"}>
+                      {display(field, l)}
+                    </span>
+                  </label>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="mt-3 flex items-center gap-2">
+        <p className="flex-1 text-xs text-neutral-500">
+          Notes, sheet columns, tasks and history of both leads are kept.
+        </p>
+        <button
+          onClick={() => merge.mutate()}
+          disabled={merge.isPending}
+          className="rounded-lg bg-brand-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-brand-700 disabled:opacity-60"
+        >
+          {merge.isPending ? "Merging..." : "Merge"}
+        </button>
+      </div>
+    </section>
+  );
+}
+
+// Likely duplicate leads, best match first, each mergeable into one
+export default function Duplicates() {
+  const { stage } = usePipeline();
+  const duplicatesQ = useQuery<DuplicatesResponse>({
+    queryKey: ["duplicates"],
+    queryFn: async () => {
+      const r = await fetch("/api/leads/duplicates");
+      if (!r.ok) throw await apiError(r);
+      return r.json();
+    },
+  });
+  const teamQ = useQuery<{ items: Salesperson[]; total: number }>({
+    queryKey: ["salespersons"],
+    queryFn: async () => (await fetch("/api/salespersons")).json(),
+  });
+  const team = teamQ.data?.items || [];
+
+  const display = (field: MergeField, lead: Lead) => {
+    const value = lead[field];
+    if (!value) return "—";
+    if (field === "ownerId")
+      return team.find((p) => p.id === value)?.name || "Unknown";
+    if (field === "status") return stage(value)?.label || value;
+    return value;
+  };
+  const pairs = duplicatesQ.data?.items || [];
+
+  return (
+    <div className="min-h-screen bg-neutral-50 text-neutral-900 dark:bg-neutral-950 dark:text-neutral-100">
+      <header className="border-b border-neutral-200 bg-white px-6 py-4 dark:border-neutral-800 dark:bg-neutral-900">
+        <div className="flex items-center justify-between">
+          <h1 className="text-lg font-extrabold tracking-tight">
+            Possible duplicates
+          </h1>
+          <Link
+            to="/"
+            className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-sm font-medium hover:bg-neutral-50 dark:border-neutral-700 dark:bg-neutral-800"
+          >
+            All leads
+          </Link>
+        </div>
+      </header>
+      <main className="mx-auto max-w-5xl space-y-4 p-6">
+        {duplicatesQ.isLoading && (
+          <p className="text-sm text-neutral-500">Loading…</p>
+        )}
+        {duplicatesQ.isError && (
+          <p className="text-sm text-red-600">
+            {(duplicatesQ.error as Error).message}
+          </p>
+        )}
+        {duplicatesQ.isSuccess && pairs.length === 0 && (
+          <p className="text-sm text-neutral-500">No likely duplicates.</p>
+        )}
+        {pairs.map((p) => (
+          <PairCard
+            key={`${p.leads[0].id}:${p.leads[1].id}`}
+            pair={p}
+            display={display}
+          />
+        ))}
+      </main>
+    </div>
+  );
+}
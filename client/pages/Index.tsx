@@ -1,24 +1,50 @@
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
 import type {
+  CreateLeadResponse,
   Lead,
   LeadStatus,
+  PipelineStage,
   Salesperson,
   ImportSheetResponse,
+  ImportPreviewResponse,
   ConfigState,
+  ListLeadsResponse,
+  SalespersonLoadResponse,
+  StoreStatusResponse,
 } from "@shared/api";
+import StoreStatusBanner from "@/components/StoreStatusBanner";
+import LeadsPager from "@/components/LeadsPager";
+import LeadActivityPanel from "@/components/LeadActivityPanel";
+import LeadTasksPanel from "@/components/LeadTasksPanel";
+import MyTasks from "@/components/MyTasks";
+import PipelineEditor from "@/components/PipelineEditor";
+import AssignmentRulesEditor from "@/components/AssignmentRulesEditor";
+import SlaSettings, { SlaBadge } from "@/components/SlaSettings";
+import ColumnMappingEditor from "@/components/ColumnMappingEditor";
+import LeadSourcesEditor from "@/components/LeadSourcesEditor";
+import ImportPreviewDialog from "@/components/ImportPreviewDialog";
+import FileImport from "@/components/FileImport";
+import AvailabilityEditor, {
+  describeAvailability,
+} from "@/components/AvailabilityEditor";
+import { usePipeline } from "@/hooks/use-pipeline";
+import { useUpdateLead } from "@/hooks/use-leads";
+import StatusSelect from "@/components/StatusSelect";
+import UserAccounts, { useUsers } from "@/components/UserAccounts";
+import { useLogout, useSession } from "@/hooks/use-session";
+import { ApiError, apiError } from "@/lib/api";
 
-const statusOptions: { value: LeadStatus; label: string }[] = [
-  { value: "new", label: "New" },
-  { value: "call", label: "Call" },
-  { value: "not lifted", label: "Not lifted" },
-  { value: "not connected", label: "Not connected" },
-  { value: "voice message", label: "Voice Message" },
-  { value: "quotation sent", label: "Quotation sent" },
-  { value: "site visit", label: "Site visit" },
-  { value: "advance payment", label: "Advance payment" },
-  { value: "lead finished", label: "Lead finished" },
-  { value: "contacted", label: "Contacted" },
+const PAGE_SIZE = 50;
+
+const sortOptions = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "updatedAt:desc", label: "Recently updated" },
+  { value: "name:asc", label: "Name A–Z" },
+  { value: "status:asc", label: "Status" },
 ];
 
 // Make headers human readable e.g. 'full_name' -> 'Full Name'
@@ -43,6 +69,7 @@ function useApi<T>(key: string[], url: string) {
         const r = await fetch(url);
         // try to parse JSON safely even if some instrumentation (FullStory) has read the body
         try {
+          if (r.status === 401) throw await apiError(r);
           if (!r.ok) {
             // attempt to read text for error details
             let errTxt = "";
@@ -68,12 +95,14 @@ function useApi<T>(key: string[], url: string) {
           throw innerErr;
         }
       } catch (err) {
+        // a signed-out session must reach the QueryCache, not be defaulted
+        if (err instanceof ApiError) throw err;
         // Log for debugging
         // eslint-disable-next-line no-console
         console.error("API fetch failed", url, err);
         // Provide safe defaults for known endpoints to avoid breaking the UI
-        if (url.endsWith("/api/leads"))
-          return { items: [], total: 0 } as unknown as T;
+        if (url.startsWith("/api/leads"))
+          return { items: [], total: 0, page: 1, limit: 0 } as unknown as T;
         if (url.endsWith("/api/salespersons"))
           return { items: [], total: 0 } as unknown as T;
         if (url.endsWith("/api/config")) return {} as unknown as T;
@@ -90,19 +119,61 @@ function useApi<T>(key: string[], url: string) {
 export default function Index() {
   const qc = useQueryClient();
 
-  const leadsQ = useApi<{ items: Lead[]; total: number }>(
-    ["leads"],
-    "/api/leads",
+  const [activeTab, setActiveTab] = useState<"leads" | "tasks" | "team">(
+    "leads",
+  );
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [sort, setSort] = useState(sortOptions[0].value);
+  const [page, setPage] = useState(1);
+  const [historyLead, setHistoryLead] = useState<Lead | null>(null);
+  const [tasksLead, setTasksLead] = useState<Lead | null>(null);
+  const { stages } = usePipeline();
+
+  useEffect(() => {
+    const id = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(id);
+  }, [search]);
+
+  // any filter change starts again from the first page
+  useEffect(() => setPage(1), [debouncedSearch, statusFilter, sort]);
+
+  const filterParams = useMemo(() => {
+    const p = new URLSearchParams();
+    if (debouncedSearch) p.set("q", debouncedSearch);
+    if (statusFilter !== "all") p.set("status", statusFilter);
+    return p;
+  }, [debouncedSearch, statusFilter]);
+
+  const leadsUrl = useMemo(() => {
+    const p = new URLSearchParams(filterParams);
+    const [sortField, order] = sort.split(":");
+    p.set("sort", sortField);
+    p.set("order", order);
+    p.set("page", String(page));
+    p.set("limit", String(PAGE_SIZE));
+    return `/api/leads?${p}`;
+  }, [filterParams, sort, page]);
+
+  const unassignedUrl = useMemo(() => {
+    const p = new URLSearchParams(filterParams);
+    p.set("ownerId", "unassigned");
+    p.set("limit", "1");
+    return `/api/leads?${p}`;
+  }, [filterParams]);
+
+  const leadsQ = useApi<ListLeadsResponse>(["leads", leadsUrl], leadsUrl);
+  const unassignedQ = useApi<ListLeadsResponse>(
+    ["leads", unassignedUrl],
+    unassignedUrl,
   );
   const teamQ = useApi<{ items: Salesperson[]; total: number }>(
     ["salespersons"],
     "/api/salespersons",
   );
   const configQ = useApi<ConfigState>(["config"], "/api/config");
-
-  const [activeTab, setActiveTab] = useState<"leads" | "team">("leads");
-  const [search, setSearch] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const statusQ = useApi<StoreStatusResponse>(["status"], "/api/status");
 
   const columns = useMemo(() => {
     const cfgHeaders = configQ.data?.headers;
@@ -160,60 +231,11 @@ export default function Index() {
     return cols;
   }, [configQ.data?.headers, leadsQ.data?.items]);
 
-  const filteredLeads = useMemo(() => {
-    const src = leadsQ.data?.items || [];
-    const s = search.toLowerCase();
-    const byText = s
-      ? src.filter((l) => {
-          // search across fields
-          const fv = Object.values(l.fields || {})
-            .join(" ")
-            .toLowerCase();
-          return (
-            fv.includes(s) ||
-            l.name.toLowerCase().includes(s) ||
-            (l.email || "").toLowerCase().includes(s) ||
-            (l.phone || "").toLowerCase().includes(s) ||
-            (l.company || "").toLowerCase().includes(s)
-          );
-        })
-      : src;
-
-    const byStatus =
-      statusFilter === "all"
-        ? byText
-        : byText.filter((l) => l.status === statusFilter);
-
-    // Remove rows that are empty or contain only the detected date column
-    const dateKey = columns && columns.length ? columns[0]?.key : undefined;
-    const cleaned = byStatus.filter((l) => {
-      const fields = l.fields || {};
-      const nonEmptyKeys = Object.keys(fields).filter((k) => {
-        const v = fields[k];
-        return v !== undefined && v !== null && String(v).trim() !== "";
-      });
-
-      // skip fully empty rows
-      if (nonEmptyKeys.length === 0) return false;
-
-      // skip rows where the only non-empty cell is the date column
-      if (dateKey && nonEmptyKeys.length === 1 && nonEmptyKeys[0] === dateKey)
-        return false;
-
-      return true;
-    });
-
-    return cleaned;
-  }, [leadsQ.data?.items, search, statusFilter, columns]);
-
   const kpis = useMemo(() => {
-    const items = filteredLeads || [];
-    const total = items.length;
-    const assigned = items.filter((l) => !!l.ownerId).length;
-    const unassigned = total - assigned;
-    const won = items.filter((l) => l.status === "won").length;
-    return { total, assigned, unassigned, won };
-  }, [filteredLeads]);
+    const total = leadsQ.data?.total || 0;
+    const unassigned = unassignedQ.data?.total || 0;
+    return { total, assigned: total - unassigned, unassigned };
+  }, [leadsQ.data?.total, unassignedQ.data?.total]);
 
   const createLead = useMutation({
     mutationFn: async (payload: Partial<Lead>) => {
@@ -223,24 +245,20 @@ export default function Index() {
         body: JSON.stringify(payload),
       });
       if (!r.ok) throw new Error(await r.text());
-      return (await r.json()) as Lead;
+      return (await r.json()) as CreateLeadResponse;
     },
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["leads"] }),
-  });
-
-  const updateLead = useMutation({
-    mutationFn: async ({ id, patch }: { id: string; patch: Partial<Lead> }) => {
-      const r = await fetch(`/api/leads/${id}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(patch),
-      });
-      if (!r.ok) throw new Error(await r.text());
-      return (await r.json()) as Lead;
+    onSuccess: (created) => {
+      qc.invalidateQueries({ queryKey: ["leads"] });
+      if (created.possibleDuplicates > 0)
+        toast.warning(
+          `Looks like ${created.possibleDuplicates === 1 ? "an existing lead" : `${created.possibleDuplicates} existing leads`}`,
+          { description: "An admin can review and merge it under Duplicates." },
+        );
     },
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["leads"] }),
   });
 
+  const updateLead = useUpdateLead();
+
   const deleteLead = useMutation({
     mutationFn: async (id: string) => {
       const r = await fetch(`/api/leads/${id}`, { method: "DELETE" });
@@ -313,26 +331,51 @@ export default function Index() {
     },
   });
 
+  const previewImport = useMutation({
+    mutationFn: async (sheetUrl?: string) => {
+      const r = await fetch(`/api/import-sheet/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sheetUrl }),
+      });
+      if (!r.ok) throw await apiError(r);
+      return (await r.json()) as ImportPreviewResponse;
+    },
+  });
+
+  const session = useSession();
+  const logout = useLogout();
+  // the server enforces roles; this only hides what would be refused
+  const isAdmin = session.data?.user?.role === "admin";
+  const isManager = session.data?.user?.role === "manager";
+
   const assignLeads = useMutation({
     mutationFn: async () => {
       const r = await fetch(`/api/assign-leads`, { method: "POST" });
       if (!r.ok) throw new Error(await r.text());
       return (await r.json()) as { assigned: number };
     },
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["leads"] }),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["leads"] });
+      qc.invalidateQueries({ queryKey: ["salesperson-load"] });
+    },
   });
 
   useEffect(() => {
     const id = setInterval(() => {
       qc.invalidateQueries({ queryKey: ["leads"] });
+      qc.invalidateQueries({ queryKey: ["status"] });
     }, 30000);
     return () => clearInterval(id);
   }, [qc]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-brand-50 to-white dark:from-neutral-950 dark:to-neutral-900 text-neutral-900 dark:text-neutral-100">
+      <StoreStatusBanner status={statusQ.data} />
       <Header
-        onImport={() => importSheet.mutate()}
+        userName={session.data?.user?.name}
+        onLogout={() => logout.mutate()}
+        onImport={isAdmin ? () => importSheet.mutate() : undefined}
         syncing={importSheet.isPending}
         lastSyncAt={configQ.data?.lastSyncAt}
       />
@@ -348,20 +391,60 @@ export default function Index() {
               Leads
             </button>
             <button
-              onClick={() => setActiveTab("team")}
-              className={`px-4 py-2 rounded-lg text-sm font-medium transition ${activeTab === "team" ? "bg-white dark:bg-neutral-700 shadow" : "opacity-70 hover:opacity-100"}`}
+              onClick={() => setActiveTab("tasks")}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition ${activeTab === "tasks" ? "bg-white dark:bg-neutral-700 shadow" : "opacity-70 hover:opacity-100"}`}
             >
-              Team
+              My tasks
             </button>
+            {(isAdmin || isManager) && (
+              <button
+                onClick={() => setActiveTab("team")}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition ${activeTab === "team" ? "bg-white dark:bg-neutral-700 shadow" : "opacity-70 hover:opacity-100"}`}
+              >
+                Team
+              </button>
+            )}
+            <Link
+              to="/board"
+              className="px-4 py-2 rounded-lg text-sm font-medium opacity-70 transition hover:opacity-100"
+            >
+              Board
+            </Link>
+            {isAdmin && (
+              <Link
+                to="/duplicates"
+                className="px-4 py-2 rounded-lg text-sm font-medium opacity-70 transition hover:opacity-100"
+              >
+                Duplicates
+              </Link>
+            )}
           </div>
 
-          <SheetControls
-            defaultUrl={configQ.data?.sheetUrl}
-            onSync={(url) => importSheet.mutate(url)}
-            syncing={importSheet.isPending}
-            lastSyncAt={configQ.data?.lastSyncAt}
+          {isAdmin && (
+            <SheetControls
+              defaultUrl={configQ.data?.sheetUrl}
+              onSync={(url) => importSheet.mutate(url)}
+              onPreview={(url) => previewImport.mutate(url)}
+              syncing={importSheet.isPending}
+              previewing={previewImport.isPending}
+              previewError={
+                previewImport.isError
+                  ? (previewImport.error as Error).message
+                  : undefined
+              }
+              lastSyncAt={configQ.data?.lastSyncAt}
+            />
+          )}
+          <ImportPreviewDialog
+            preview={previewImport.data || null}
+            onClose={() => previewImport.reset()}
           />
         </div>
+        {isAdmin && (
+          <div className="mt-3 flex justify-end">
+            <FileImport />
+          </div>
+        )}
 
         {activeTab === "leads" ? (
           <section className="mt-6">
@@ -379,7 +462,18 @@ export default function Index() {
                   className="rounded-lg border border-neutral-200 bg-white/70 px-3 py-2 text-sm dark:bg-neutral-800 dark:border-neutral-700"
                 >
                   <option value="all">All statuses</option>
-                  {statusOptions.map((s) => (
+                  {stages.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value)}
+                  className="rounded-lg border border-neutral-200 bg-white/70 px-3 py-2 text-sm dark:bg-neutral-800 dark:border-neutral-700"
+                >
+                  {sortOptions.map((s) => (
                     <option key={s.value} value={s.value}>
                       {s.label}
                     </option>
@@ -387,32 +481,79 @@ export default function Index() {
                 </select>
               </div>
               <div className="flex gap-2">
-                <button
-                  onClick={() => assignLeads.mutate()}
-                  className="rounded-lg bg-brand-600 px-3 py-2 text-sm font-semibold text-white shadow hover:bg-brand-700 active:bg-brand-800 disabled:opacity-60"
-                  disabled={assignLeads.isPending}
-                >
-                  Auto-assign Unassigned
-                </button>
-                <NewLead onCreate={(payload) => createLead.mutate(payload)} />
+                {isAdmin && (
+                  <button
+                    onClick={() => assignLeads.mutate()}
+                    className="rounded-lg bg-brand-600 px-3 py-2 text-sm font-semibold text-white shadow hover:bg-brand-700 active:bg-brand-800 disabled:opacity-60"
+                    disabled={assignLeads.isPending}
+                  >
+                    Auto-assign Unassigned
+                  </button>
+                )}
+                <NewLead
+                  stages={stages}
+                  onCreate={(payload) => createLead.mutate(payload)}
+                />
               </div>
             </div>
             <LeadsTable
               columns={columns}
-              leads={filteredLeads}
+              leads={leadsQ.data?.items || []}
               team={teamQ.data?.items || []}
+              stages={stages}
               onUpdate={(id, patch) => updateLead.mutate({ id, patch })}
-              onDelete={(id) => deleteLead.mutate(id)}
+              onUpdateStatus={(id, patch) =>
+                updateLead.mutateAsync({ id, patch })
+              }
+              onDelete={isAdmin ? (id) => deleteLead.mutate(id) : undefined}
+              onHistory={(lead) => setHistoryLead(lead)}
+              onTasks={(lead) => setTasksLead(lead)}
+            />
+            <LeadTasksPanel
+              lead={tasksLead}
+              team={teamQ.data?.items || []}
+              onClose={() => setTasksLead(null)}
+            />
+            <LeadActivityPanel
+              leadId={historyLead?.id || null}
+              title={historyLead?.name || historyLead?.email || undefined}
+              ownerName={(id) =>
+                teamQ.data?.items.find((p) => p.id === id)?.name ||
+                id ||
+                undefined
+              }
+              onClose={() => setHistoryLead(null)}
+            />
+            <LeadsPager
+              page={page}
+              limit={PAGE_SIZE}
+              total={leadsQ.data?.total || 0}
+              onPage={setPage}
             />
           </section>
+        ) : activeTab === "tasks" ? (
+          <section className="mt-6">
+            <MyTasks team={teamQ.data?.items || []} />
+          </section>
         ) : (
           <section className="mt-6">
             <TeamSection
               team={teamQ.data?.items || []}
+              isAdmin={isAdmin}
               onCreate={(p) => createSalesperson.mutate(p)}
               onUpdate={(id, patch) => updateSalesperson.mutate({ id, patch })}
               onDelete={(id) => deleteSalesperson.mutate(id)}
             />
+            {isAdmin && (
+              <>
+                <UserAccounts team={teamQ.data?.items || []} />
+                <AssignmentRulesEditor team={teamQ.data?.items || []} />
+                <SlaSettings sla={configQ.data?.sla} />
+                <ColumnMappingEditor config={configQ.data} />
+                <LeadSourcesEditor team={teamQ.data?.items || []} />
+                <PipelineEditor stages={stages} />
+              </>
+            )}
           </section>
         )}
       </main>
@@ -424,11 +565,15 @@ export default function Index() {
 }
 
 function Header({
+  userName,
+  onLogout,
   onImport,
   syncing,
   lastSyncAt,
 }: {
-  onImport: () => void;
+  userName?: string;
+  onLogout: () => void;
+  onImport?: () => void; // omitted for users who may not sync
   syncing: boolean;
   lastSyncAt?: string;
 }) {
@@ -448,13 +593,26 @@ function Header({
             </div>
           </div>
           <div className="hidden md:flex items-center gap-3">
+            {userName && (
+              <span className="text-sm text-neutral-600 dark:text-neutral-300">
+                {userName}
+              </span>
+            )}
             <button
-              onClick={onImport}
-              className="rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-brand-700 active:bg-brand-800 disabled:opacity-60"
-              disabled={syncing}
+              onClick={onLogout}
+              className="rounded-lg border border-neutral-200 bg-white px-3 py-2 text-sm font-medium hover:bg-neutral-50 dark:border-neutral-700 dark:bg-neutral-800"
             >
-              {syncing ? "Syncing..." : "Sync from Sheet"}
+              Sign out
             </button>
+            {onImport && (
+              <button
+                onClick={onImport}
+                className="rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-brand-700 active:bg-brand-800 disabled:opacity-60"
+                disabled={syncing}
+              >
+                {syncing ? "Syncing..." : "Sync from Sheet"}
+              </button>
+            )}
           </div>
         </div>
         <div className="mt-6 max-w-2xl">
@@ -491,12 +649,10 @@ function Kpis({
   total,
   assigned,
   unassigned,
-  won,
 }: {
   total: number;
   assigned: number;
   unassigned: number;
-  won: number;
 }) {
   const items = [
     { label: "Total Leads", value: total },
@@ -523,12 +679,18 @@ function Kpis({
 function SheetControls({
   defaultUrl,
   onSync,
+  onPreview,
   syncing,
+  previewing,
+  previewError,
   lastSyncAt,
 }: {
   defaultUrl?: string;
   onSync: (url?: string) => void;
+  onPreview: (url?: string) => void;
   syncing: boolean;
+  previewing: boolean;
+  previewError?: string;
   lastSyncAt?: string;
 }) {
   const [url, setUrl] = useState<string>(defaultUrl || "");
@@ -541,7 +703,18 @@ function SheetControls({
         placeholder="Paste Google Sheet URL"
         className="w-full md:w-96 rounded-lg border border-neutral-200 bg-white/70 px-3 py-2 text-sm outline-none ring-brand-500 focus:ring-2 dark:bg-neutral-800 dark:border-neutral-700"
       />
-      <div className="flex gap-2">
+      <div className="flex items-center gap-2">
+        {previewError && (
+          <span className="text-xs text-red-600">{previewError}</span>
+        )}
+        <button
+          onClick={() => onPreview(url)}
+          className="rounded-lg border border-neutral-200 bg-white px-3 py-2 text-sm font-medium shadow hover:bg-neutral-50 disabled:opacity-60 dark:border-neutral-700 dark:bg-neutral-800"
+          disabled={previewing || syncing}
+          title="See what a sync would change before writing anything"
+        >
+          {previewing ? "Reading..." : "Preview"}
+        </button>
         <button
           onClick={() => onSync(url)}
           className="rounded-lg bg-brand-600 px-3 py-2 text-sm font-semibold text-white shadow hover:bg-brand-700 active:bg-brand-800 disabled:opacity-60"
@@ -554,7 +727,13 @@ function SheetControls({
   );
 }
 
-function NewLead({ onCreate }: { onCreate: (payload: Partial<Lead>) => void }) {
+function NewLead({
+  stages,
+  onCreate,
+}: {
+  stages: PipelineStage[];
+  onCreate: (payload: Partial<Lead>) => void;
+}) {
   const [open, setOpen] = useState(false);
   const [form, setForm] = useState<Record<string, string | undefined>>({
     Name: "",
@@ -614,12 +793,12 @@ function NewLead({ onCreate }: { onCreate: (payload: Partial<Lead>) => void }) {
                   Status
                 </label>
                 <select
-                  value={(form["Status"] as string) || "new"}
+                  value={(form["Status"] as string) || stages[0]?.id || ""}
                   onChange={(e) => setForm({ ...form, Status: e.target.value })}
                   className="mt-1 w-full rounded-lg border border-neutral-200 bg-white px-3 py-2 text-sm dark:border-neutral-700 dark:bg-neutral-800"
                 >
-                  {statusOptions.map((s) => (
-                    <option key={s.value} value={s.value}>
+                  {stages.map((s) => (
+                    <option key={s.id} value={s.id}>
                       {s.label}
                     </option>
                   ))}
@@ -654,7 +833,8 @@ function NewLead({ onCreate }: { onCreate: (payload: Partial<Lead>) => void }) {
                     company: form.Company,
                     source: form.Source,
                     notes: form.Notes,
-                    status: (form.Status as LeadStatus) || "new",
+                    // left out when unset so the server picks the first stage
+                    status: (form.Status as LeadStatus) || undefined,
                   };
                   onCreate(payload);
                   setOpen(false);
@@ -683,14 +863,23 @@ function LeadsTable({
   columns,
   leads,
   team,
+  stages,
   onUpdate,
+  onUpdateStatus,
   onDelete,
+  onHistory,
+  onTasks,
 }: {
   columns: { key: string; label: string }[];
   leads: Lead[];
   team: Salesperson[];
+  stages: PipelineStage[];
   onUpdate: (id: string, patch: Partial<Lead>) => void;
-  onDelete: (id: string) => void;
+  // rejects with an ApiError so rule violations can be shown next to the status
+  onUpdateStatus: (id: string, patch: Partial<Lead>) => Promise<unknown>;
+  onDelete?: (id: string) => void; // omitted for users who may not delete
+  onHistory: (lead: Lead) => void;
+  onTasks: (lead: Lead) => void;
 }) {
   const extraNotes = columns.some((c) =>
     c.label.toLowerCase().startsWith("note "),
@@ -759,19 +948,12 @@ function LeadsTable({
               })}
 
               <Td>
-                <select
-                  value={l.status}
-                  onChange={(e) =>
-                    onUpdate(l.id, { status: e.target.value as LeadStatus })
-                  }
-                  className="rounded-md border border-neutral-200 bg-white px-2 py-1 text-sm dark:border-neutral-700 dark:bg-neutral-800"
-                >
-                  {statusOptions.map((s) => (
-                    <option key={s.value} value={s.value}>
-                      {s.label}
-                    </option>
-                  ))}
-                </select>
+                <StatusSelect
+                  lead={l}
+                  stages={stages}
+                  onSave={(patch) => onUpdateStatus(l.id, patch)}
+                />
+                <SlaBadge lead={l} stages={stages} />
               </Td>
 
               {extraNotes > 0 ? (
@@ -813,12 +995,32 @@ function LeadsTable({
                 </select>
               </Td>
               <Td className="text-right">
+                <Link
+                  to={`/leads/${l.id}`}
+                  className="mr-1 inline-block rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs hover:bg-neutral-50 dark:border-neutral-700 dark:bg-neutral-800 dark:hover:bg-neutral-700"
+                >
+                  Open
+                </Link>
+                <button
+                  onClick={() => onTasks(l)}
+                  className="mr-1 rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs hover:bg-neutral-50 dark:border-neutral-700 dark:bg-neutral-800 dark:hover:bg-neutral-700"
+                >
+                  Tasks
+                </button>
                 <button
-                  onClick={() => onDelete(l.id)}
-                  className="rounded-md border border-red-200 bg-red-50 px-2 py-1 text-xs text-red-700 hover:bg-red-100 dark:border-red-900/50 dark:bg-red-950/40 dark:text-red-300"
+                  onClick={() => onHistory(l)}
+                  className="mr-1 rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs hover:bg-neutral-50 dark:border-neutral-700 dark:bg-neutral-800 dark:hover:bg-neutral-700"
                 >
-                  Delete
+                  History
                 </button>
+                {onDelete && (
+                  <button
+                    onClick={() => onDelete(l.id)}
+                    className="rounded-md border border-red-200 bg-red-50 px-2 py-1 text-xs text-red-700 hover:bg-red-100 dark:border-red-900/50 dark:bg-red-950/40 dark:text-red-300"
+                  >
+                    Delete
+                  </button>
+                )}
               </Td>
             </tr>
           ))}
@@ -860,115 +1062,200 @@ function EditableCell({
   );
 }
 
-function CellField({
-  lead,
-  fieldKey,
-  onChange,
-}: {
-  lead: Lead;
-  fieldKey: string;
-  onChange: (next: string) => void;
-}) {
-  const [value, setValue] = useState<string>(
-    (lead.fields && (lead.fields[fieldKey] || "")) || "",
-  );
-  useEffect(
-    () => setValue((lead.fields && (lead.fields[fieldKey] || "")) || ""),
-    [lead.id, fieldKey, lead.fields],
-  );
-  return (
-    <div className="w-full px-2 py-1 text-xs text-neutral-800 dark:text-neutral-100 truncate">
-      {value || "."}
-    </div>
-  );
-}
-
 function TeamSection({
   team,
+  isAdmin,
   onCreate,
   onUpdate,
   onDelete,
 }: {
   team: Salesperson[];
+  isAdmin: boolean; // managers only see their team and edit capacity
   onCreate: (p: Partial<Salesperson>) => void;
   onUpdate: (id: string, patch: Partial<Salesperson>) => void;
   onDelete: (id: string) => void;
 }) {
+  const managers = (useUsers({ enabled: isAdmin }).data?.items || []).filter(
+    (u) => u.role === "manager",
+  );
+  const loadQ = useQuery<SalespersonLoadResponse>({
+    queryKey: ["salesperson-load"],
+    queryFn: async () => {
+      const r = await fetch("/api/salespersons/load");
+      if (!r.ok) throw await apiError(r);
+      return r.json();
+    },
+  });
+  const load = new Map(
+    (loadQ.data?.items || []).map((l) => [l.salespersonId, l] as const),
+  );
+  // the server only reports load for the people the caller manages
+  const members = isAdmin ? team : team.filter((p) => load.has(p.id));
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
+  const [editing, setEditing] = useState<string | null>(null);
+  const columns = isAdmin ? 9 : 7;
   return (
     <div>
-      <div className="rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
-        <div className="flex flex-col gap-3 md:flex-row md:items-end">
-          <Input
-            label="Name"
-            value={name}
-            onChange={setName}
-            className="md:w-64"
-          />
-          <Input
-            label="Email"
-            value={email}
-            onChange={setEmail}
-            className="md:w-64"
-          />
-          <button
-            onClick={() => {
-              if (!name.trim()) return;
-              onCreate({ name: name.trim(), email: email.trim() || undefined });
-              setName("");
-              setEmail("");
-            }}
-            className="h-9 rounded-lg bg-brand-600 px-4 text-sm font-semibold text-white hover:bg-brand-700 active:bg-brand-800"
-          >
-            Add Salesperson
-          </button>
+      {isAdmin && (
+        <div className="rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
+          <div className="flex flex-col gap-3 md:flex-row md:items-end">
+            <Input
+              label="Name"
+              value={name}
+              onChange={setName}
+              className="md:w-64"
+            />
+            <Input
+              label="Email"
+              value={email}
+              onChange={setEmail}
+              className="md:w-64"
+            />
+            <button
+              onClick={() => {
+                if (!name.trim()) return;
+                onCreate({
+                  name: name.trim(),
+                  email: email.trim() || undefined,
+                });
+                setName("");
+                setEmail("");
+              }}
+              className="h-9 rounded-lg bg-brand-600 px-4 text-sm font-semibold text-white hover:bg-brand-700 active:bg-brand-800"
+            >
+              Add Salesperson
+            </button>
+          </div>
         </div>
-      </div>
+      )}
       <div className="mt-4 overflow-visible rounded-2xl border border-neutral-200 bg-white shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
         <table className="min-w-full table-fixed divide-y divide-neutral-200 dark:divide-neutral-800 text-xs leading-tight">
           <thead className="bg-neutral-50/60 dark:bg-neutral-800/40">
             <tr>
               <Th>Name</Th>
               <Th>Email</Th>
+              {isAdmin && <Th>Manager</Th>}
               <Th>Status</Th>
-              <Th className="text-right">Actions</Th>
+              <Th>Availability</Th>
+              <Th>Weight</Th>
+              <Th>Open leads</Th>
+              <Th>Assigned today</Th>
+              {isAdmin && <Th className="text-right">Actions</Th>}
             </tr>
           </thead>
           <tbody className="divide-y divide-neutral-200 dark:divide-neutral-800">
-            {team.map((p) => (
-              <tr
-                key={p.id}
-                className="hover:bg-neutral-50/50 dark:hover:bg-neutral-800/40"
-              >
-                <Td className="font-medium">{p.name}</Td>
-                <Td>{p.email || "—"}</Td>
-                <Td>
-                  <label className="inline-flex items-center gap-2 text-xs">
-                    <input
-                      type="checkbox"
-                      checked={p.active}
-                      onChange={(e) =>
-                        onUpdate(p.id, { active: e.target.checked })
+            {members.map((p) => (
+              <Fragment key={p.id}>
+                <tr className="hover:bg-neutral-50/50 dark:hover:bg-neutral-800/40">
+                  <Td className="font-medium">{p.name}</Td>
+                  <Td>{p.email || "—"}</Td>
+                  {isAdmin && (
+                    <Td>
+                      <select
+                        value={p.managerId || ""}
+                        onChange={(e) =>
+                          onUpdate(p.id, { managerId: e.target.value || null })
+                        }
+                        className="w-36 rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs dark:border-neutral-700 dark:bg-neutral-800"
+                      >
+                        <option value="">No manager</option>
+                        {managers.map((u) => (
+                          <option key={u.id} value={u.id}>
+                            {u.name}
+                          </option>
+                        ))}
+                      </select>
+                    </Td>
+                  )}
+                  <Td>
+                    <label className="inline-flex items-center gap-2 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={p.active}
+                        disabled={!isAdmin}
+                        onChange={(e) =>
+                          onUpdate(p.id, { active: e.target.checked })
+                        }
+                      />
+                      Active
+                    </label>
+                  </Td>
+                  <Td>
+                    <button
+                      onClick={() => setEditing(editing === p.id ? null : p.id)}
+                      title="Edit working hours, off days and leave"
+                      className="max-w-full truncate text-left text-xs hover:underline"
+                    >
+                      {describeAvailability(p.availability)}
+                    </button>
+                  </Td>
+                  <Td>
+                    <CapacityInput
+                      value={p.weight ?? 1}
+                      step="0.5"
+                      title="Share of new leads compared with others (1 = normal)"
+                      onCommit={(weight) => {
+                        // weight has no "unlimited"; clearing it resets to 1
+                        onUpdate(p.id, { weight: weight || 1 });
+                      }}
+                    />
+                  </Td>
+                  <Td>
+                    <LoadCell
+                      used={load.get(p.id)?.openLeads}
+                      limit={p.maxOpenLeads}
+                      onLimit={(maxOpenLeads) =>
+                        onUpdate(p.id, { maxOpenLeads })
                       }
                     />
-                    Active
-                  </label>
-                </Td>
-                <Td className="text-right">
-                  <button
-                    onClick={() => onDelete(p.id)}
-                    className="rounded-md border border-red-200 bg-red-50 px-2 py-1 text-xs text-red-700 hover:bg-red-100 dark:border-red-900/50 dark:bg-red-950/40 dark:text-red-300"
-                  >
-                    Remove
-                  </button>
-                </Td>
-              </tr>
+                  </Td>
+                  <Td>
+                    <LoadCell
+                      used={load.get(p.id)?.assignedToday}
+                      limit={p.dailyCap}
+                      onLimit={(dailyCap) => onUpdate(p.id, { dailyCap })}
+                    />
+                  </Td>
+                  {isAdmin && (
+                    <Td className="text-right">
+                      <button
+                        onClick={() => onDelete(p.id)}
+                        className="rounded-md border border-red-200 bg-red-50 px-2 py-1 text-xs text-red-700 hover:bg-red-100 dark:border-red-900/50 dark:bg-red-950/40 dark:text-red-300"
+                      >
+                        Remove
+                      </button>
+                    </Td>
+                  )}
+                </tr>
+                {editing === p.id && (
+                  <tr>
+                    <Td
+                      colSpan={columns}
+                      className="bg-neutral-50/60 dark:bg-neutral-800/40"
+                    >
+                      <AvailabilityEditor
+                        value={p.availability}
+                        onCancel={() => setEditing(null)}
+                        onSave={(availability) => {
+                          onUpdate(p.id, { availability });
+                          setEditing(null);
+                        }}
+                      />
+                    </Td>
+                  </tr>
+                )}
+              </Fragment>
             ))}
-            {team.length === 0 && (
+            {members.length === 0 && (
               <tr>
-                <Td colSpan={4} className="py-8 text-center text-neutral-500">
-                  No team members. Add your first salesperson.
+                <Td
+                  colSpan={columns}
+                  className="py-8 text-center text-neutral-500"
+                >
+                  {isAdmin
+                    ? "No team members. Add your first salesperson."
+                    : "Nobody reports to you yet."}
                 </Td>
               </tr>
             )}
@@ -979,6 +1266,65 @@ function TeamSection({
   );
 }
 
+// Number field saved on blur; empty means "no value"
+function CapacityInput({
+  value,
+  onCommit,
+  step = "1",
+  title,
+}: {
+  value: number | null | undefined;
+  onCommit: (value: number | null) => void;
+  step?: string;
+  title?: string;
+}) {
+  const [draft, setDraft] = useState(value == null ? "" : String(value));
+  useEffect(() => setDraft(value == null ? "" : String(value)), [value]);
+  return (
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={draft}
+      title={title}
+      placeholder="∞"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        const next = draft.trim() === "" ? null : Number(draft);
+        if (next !== (value ?? null)) onCommit(next);
+      }}
+      className="w-16 rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs dark:border-neutral-700 dark:bg-neutral-800"
+    />
+  );
+}
+
+// "used / limit", with the limit editable; full rows turn amber
+function LoadCell({
+  used = 0,
+  limit,
+  onLimit,
+}: {
+  used?: number;
+  limit?: number | null;
+  onLimit: (limit: number | null) => void;
+}) {
+  const full = limit != null && used >= limit;
+  return (
+    <span
+      className={`inline-flex items-center gap-1 ${full ? "text-amber-700 dark:text-amber-400" : ""}`}
+    >
+      {used} /
+      <CapacityInput
+        value={limit}
+        title="Leave empty for no limit"
+        onCommit={(next) =>
+          onLimit(next == null ? null : Math.max(0, Math.floor(next)))
+        }
+      />
+    </span>
+  );
+}
+
 function Input({
   label,
   value,
@@ -0,0 +1,451 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import type {
+  ColumnMapping,
+  ConfigState,
+  Lead,
+  Salesperson,
+  ValidationIssue,
+} from "@shared/api";
+import { resolveColumnMapping } from "@shared/column-mapping";
+import { DEFAULT_COUNTRY_CODE, phoneLinks, toE164 } from "@shared/phone";
+import { usePipeline } from "@/hooks/use-pipeline";
+import { useUpdateLead } from "@/hooks/use-leads";
+import { ApiError } from "@/lib/api";
+import StatusSelect from "@/components/StatusSelect";
+import { SlaBadge } from "@/components/SlaSettings";
+import { LeadActivityList } from "@/components/LeadActivityPanel";
+
+// Address lives in the sheet columns rather than on the lead itself
+type AddressKeys = { street: string; postCode: string };
+
+// The columns the column mapping reads the address from, or the keys this
+// page adds for leads whose sheet has no address columns
+function addressKeys(lead: Lead, saved?: ColumnMapping | null): AddressKeys {
+  const mapping = resolveColumnMapping(saved, Object.keys(lead.fields || {}));
+  return {
+    street: mapping.address || "street address",
+    postCode: mapping.postCode || "post_code",
+  };
+}
+
+type ContactForm = {
+  name: string;
+  email: string;
+  phone: string;
+  street: string;
+  postCode: string;
+};
+
+function toForm(lead: Lead, keys: AddressKeys): ContactForm {
+  return {
+    name: lead.name || "",
+    email: lead.email || "",
+    phone: lead.phone || "",
+    street: lead.fields[keys.street] || "",
+    postCode: lead.fields[keys.postCode] || "",
+  };
+}
+
+// Mirrors the server's contact checks so most mistakes never round-trip
+function validate(form: ContactForm): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!form.name.trim()) errors.name = "Name is required";
+  if (form.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(form.email.trim()))
+    errors.email = "Enter a valid email address";
+  if (form.phone && !toE164(form.phone))
+    errors.phone = `Enter a valid phone number (with the country code if not +${DEFAULT_COUNTRY_CODE})`;
+  return errors;
+}
+
+function issueErrors(issues: ValidationIssue[], keys: AddressKeys) {
+  const errors: Record<string, string> = {};
+  for (const i of issues) {
+    const key =
+      i.field === `fields.${keys.street}`
+        ? "street"
+        : i.field === `fields.${keys.postCode}`
+          ? "postCode"
+          : i.field;
+    errors[key] = i.message;
+  }
+  return errors;
+}
+
+function fmtDate(v?: string) {
+  return v ? new Date(v).toLocaleString() : "—";
+}
+
+export default function LeadDetail() {
+  const { id = "" } = useParams();
+  const { stages, stage } = usePipeline();
+  const updateLead = useUpdateLead();
+
+  const leadQ = useQuery<Lead>({
+    queryKey: ["lead", id],
+    queryFn: async () => {
+      const r = await fetch(`/api/leads/${id}`);
+      if (r.status === 404) throw new Error("Lead not found");
+      if (!r.ok) throw new Error(`Failed to load lead (${r.status})`);
+      return r.json();
+    },
+  });
+  const teamQ = useQuery<{ items: Salesperson[]; total: number }>({
+    queryKey: ["salespersons"],
+    queryFn: async () => (await fetch("/api/salespersons")).json(),
+  });
+  const configQ = useQuery<ConfigState>({
+    queryKey: ["config"],
+    queryFn: async () => (await fetch("/api/config")).json(),
+  });
+  const team = teamQ.data?.items || [];
+  const ownerName = (ownerId?: string | null) =>
+    team.find((p) => p.id === ownerId)?.name;
+
+  const lead = leadQ.data;
+  // the id of a merged-away lead redirects to the lead that absorbed it
+  const navigate = useNavigate();
+  useEffect(() => {
+    if (lead && lead.id !== id)
+      navigate(`/leads/${lead.id}`, { replace: true });
+  }, [lead, id, navigate]);
+  const [form, setForm] = useState<ContactForm | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const configLoading = configQ.isPending;
+  const columnMapping = configQ.data?.columnMapping;
+  const keys = useMemo(
+    () =>
+      lead ? addressKeys(lead, columnMapping) : { street: "", postCode: "" },
+    [lead, columnMapping],
+  );
+  useEffect(() => {
+    if (lead && !form && !configLoading) setForm(toForm(lead, keys));
+  }, [lead, form, configLoading, keys]);
+
+  const save = (patch: Partial<Lead>) => updateLead.mutateAsync({ id, patch });
+
+  const saveContact = async () => {
+    if (!form) return;
+    const found = validate(form);
+    setErrors(found);
+    if (Object.keys(found).length > 0) return;
+    try {
+      const saved = await save({
+        name: form.name.trim(),
+        email: form.email.trim(),
+        phone: form.phone.trim(),
+        fields: {
+          [keys.street]: form.street.trim(),
+          [keys.postCode]: form.postCode.trim(),
+        },
+      });
+      setForm(toForm(saved, keys));
+      toast.success("Lead saved");
+    } catch (e) {
+      if (e instanceof ApiError && e.issues.length > 0)
+        setErrors(issueErrors(e.issues, keys));
+      else toast.error("Could not save lead", { description: String(e) });
+    }
+  };
+
+  const reassign = (ownerId: string | null) =>
+    save({ ownerId }).catch((e) =>
+      toast.error("Could not reassign lead", { description: String(e) }),
+    );
+
+  const links = phoneLinks(lead?.phone);
+  const current = lead ? stage(lead.status) : undefined;
+
+  return (
+    <div className="min-h-screen bg-neutral-50 text-neutral-900 dark:bg-neutral-950 dark:text-neutral-100">
+      <header className="border-b border-neutral-200 bg-white px-6 py-4 dark:border-neutral-800 dark:bg-neutral-900">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="truncate text-lg font-extrabold tracking-tight">
+              {lead ? lead.name || lead.email || "Unnamed lead" : "Lead"}
+            </h1>
+            {lead && (
+              <div className="mt-1 flex items-center gap-2 text-xs text-neutral-500">
+                <span
+                  className="h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: current?.color }}
+                />
+                <span>{current?.label || lead.status}</span>
+                <span>·</span>
+                <span>{ownerName(lead.ownerId) || "Unassigned"}</span>
+                <SlaBadge lead={lead} stages={stages} />
+              </div>
+            )}
+          </div>
+          <Link
+            to="/"
+            className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-sm font-medium hover:bg-neutral-50 dark:border-neutral-700 dark:bg-neutral-800"
+          >
+            All leads
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-5xl p-6">
+        {leadQ.isLoading && (
+          <p className="text-sm text-neutral-500">Loading…</p>
+        )}
+        {leadQ.isError && (
+          <p className="text-sm text-red-600">
+            {(leadQ.error as Error).message}
+          </p>
+        )}
+        {lead && form && (
+          <div className="grid gap-6 lg:grid-cols-3">
+            <div className="space-y-6 lg:col-span-2">
+              <Card title="Quick actions">
+                <div className="flex flex-wrap items-start gap-3">
+                  <ActionLink href={links?.tel} label="Call" />
+                  <ActionLink
+                    href={links?.whatsapp}
+                    label="WhatsApp"
+                    external
+                  />
+                  <div className="w-48 text-xs">
+                    <StatusSelect lead={lead} stages={stages} onSave={save} />
+                  </div>
+                  <select
+                    value={lead.ownerId || ""}
+                    onChange={(e) => reassign(e.target.value || null)}
+                    className="w-44 rounded-md border border-neutral-200 bg-white px-2 py-1 text-xs dark:border-neutral-700 dark:bg-neutral-800"
+                  >
+                    <option value="">Unassigned</option>
+                    {team.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </Card>
+
+              <Card title="Contact">
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <Field
+                    label="Name"
+                    value={form.name}
+                    error={errors.name}
+                    onChange={(name) => setForm({ ...form, name })}
+                  />
+                  <Field
+                    label="Phone"
+                    value={form.phone}
+                    error={errors.phone}
+                    onChange={(phone) => setForm({ ...form, phone })}
+                  />
+                  <Field
+                    label="Email"
+                    value={form.email}
+                    error={errors.email}
+                    onChange={(email) => setForm({ ...form, email })}
+                  />
+                  <Field
+                    label="Post code"
+                    value={form.postCode}
+                    error={errors.postCode}
+                    onChange={(postCode) => setForm({ ...form, postCode })}
+                  />
+                  <div className="sm:col-span-2">
+                    <Field
+                      label="Street address"
+                      value={form.street}
+                      error={errors.street}
+                      onChange={(street) => setForm({ ...form, street })}
+                    />
+                  </div>
+                </div>
+                <div className="mt-4 flex gap-2">
+                  <button
+                    onClick={saveContact}
+                    disabled={updateLead.isPending}
+                    className="rounded-lg bg-brand-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-brand-700 disabled:opacity-60"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => {
+                      setForm(toForm(lead, keys));
+                      setErrors({});
+                    }}
+                    className="rounded-lg border border-neutral-200 bg-white px-3 py-1.5 text-sm hover:bg-neutral-50 dark:border-neutral-700 dark:bg-neutral-800"
+                  >
+                    Reset
+                  </button>
+                </div>
+              </Card>
+
+              <Card title="Notes">
+                <NotesEditor
+                  key={lead.id}
+                  lead={lead}
+                  onSave={(patch) =>
+                    save(patch).catch((e) =>
+                      toast.error("Could not save notes", {
+                        description: String(e),
+                      }),
+                    )
+                  }
+                />
+              </Card>
+
+              <Card title="All fields">
+                <dl className="grid gap-x-4 gap-y-2 text-sm sm:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+                  {Object.entries(lead.fields).map(([k, v]) => (
+                    <div key={k} className="contents">
+                      <dt className="break-words text-neutral-500">{k}</dt>
+                      <dd className="break-words">{v || "—"}</dd>
+                    </div>
+                  ))}
+                  {Object.keys(lead.fields).length === 0 && (
+                    <p className="text-neutral-500">No sheet fields.</p>
+                  )}
+                </dl>
+              </Card>
+            </div>
+
+            <div className="space-y-6">
+              <Card title="Details">
+                <dl className="space-y-2 text-sm">
+                  <Prop label="Status" value={current?.label || lead.status} />
+                  <Prop
+                    label="Owner"
+                    value={ownerName(lead.ownerId) || "Unassigned"}
+                  />
+                  <Prop label="Company" value={lead.company} />
+                  <Prop label="Source" value={lead.source} />
+                  <Prop label="Created" value={fmtDate(lead.createdAt)} />
+                  <Prop label="Updated" value={fmtDate(lead.updatedAt)} />
+                  <Prop label="ID" value={lead.id} />
+                </dl>
+              </Card>
+              <Card title="Activity">
+                <LeadActivityList leadId={lead.id} ownerName={ownerName} />
+              </Card>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function Card({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="rounded-2xl border border-neutral-200 bg-white p-4 shadow-sm dark:border-neutral-800 dark:bg-neutral-900">
+      <h2 className="mb-3 text-sm font-semibold">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function Prop({ label, value }: { label: string; value?: string }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <dt className="text-neutral-500">{label}</dt>
+      <dd className="break-all text-right">{value || "—"}</dd>
+    </div>
+  );
+}
+
+function ActionLink({
+  href,
+  label,
+  external,
+}: {
+  href?: string;
+  label: string;
+  external?: boolean;
+}) {
+  const cls =
+    "rounded-md border border-neutral-200 bg-white px-3 py-1 text-xs font-medium dark:border-neutral-700 dark:bg-neutral-800";
+  if (!href)
+    return (
+      <span className={`${cls} cursor-not-allowed opacity-50`}>{label}</span>
+    );
+  return (
+    <a
+      href={href}
+      target={external ? "_blank" : undefined}
+      rel={external ? "noreferrer" : undefined}
+      className={`${cls} hover:bg-neutral-50 dark:hover:bg-neutral-700`}
+    >
+      {label}
+    </a>
+  );
+}
+
+function Field({
+  label,
+  value,
+  error,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  error?: string;
+  onChange: (v: string) => void;
+}) {
+  return (
+    <label className="flex flex-col gap-1 text-sm">
+      <span className="text-neutral-600 dark:text-neutral-300">{label}</span>
+      <input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        aria-invalid={!!error}
+        className={`rounded-md border bg-white px-3 py-2 text-sm dark:bg-neutral-800 ${error ? "border-red-400" : "border-neutral-200 dark:border-neutral-700"}`}
+      />
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </label>
+  );
+}
+
+function NotesEditor({
+  lead,
+  onSave,
+}: {
+  lead: Lead;
+  onSave: (patch: Partial<Lead>) => void;
+}) {
+  const [notes, setNotes] = useState(lead.notes || "");
+  const [note1, setNote1] = useState(lead.fields.note1 || "");
+  const [note2, setNote2] = useState(lead.fields.note2 || "");
+  const dirty =
+    notes !== (lead.notes || "") ||
+    note1 !== (lead.fields.note1 || "") ||
+    note2 !== (lead.fields.note2 || "");
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={4}
+        placeholder="Notes"
+        className="w-full rounded-md border border-neutral-200 bg-white px-3 py-2 text-sm dark:border-neutral-700 dark:bg-neutral-800"
+      />
+      <div className="grid gap-3 sm:grid-cols-2">
+        <Field label="Note 1" value={note1} onChange={setNote1} />
+        <Field label="Note 2" value={note2} onChange={setNote2} />
+      </div>
+      <button
+        onClick={() => onSave({ notes, fields: { note1, note2 } })}
+        disabled={!dirty}
+        className="rounded-lg bg-brand-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-brand-700 disabled:opacity-60"
+      >
+        Save notes
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useLogin, useSession } from "@/hooks/use-session";
+
+export default function Login() {
+  const location = useLocation();
+  const next = (location.state as { from?: string } | null)?.from || "/";
+  const sessionQ = useSession();
+  const login = useLogin();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (sessionQ.data?.user) return <Navigate to={next} replace />;
+  const setup = !!sessionQ.data?.setupRequired;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-neutral-50 px-4 text-neutral-900 dark:bg-neutral-950 dark:text-neutral-100">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          login.mutate({ email, password, name, setup });
+        }}
+        className="w-full max-w-sm rounded-2xl border border-neutral-200 bg-white p-6 shadow-sm dark:border-neutral-800 dark:bg-neutral-900"
+      >
+        <div className="mb-6 flex items-center gap-3">
+          <div className="h-9 w-9 rounded-xl bg-brand-600 shadow-inner ring-4 ring-brand-200/50 dark:ring-brand-900/50" />
+          <div>
+            <h1 className="text-xl font-extrabold tracking-tight">LeadFlow</h1>
+            <p className="text-xs text-neutral-600 dark:text-neutral-400">
+              {setup ? "Create the first account" : "Sign in to continue"}
+            </p>
+          </div>
+        </div>
+        <div className="space-y-3">
+          {setup && (
+            <Field label="Name" value={name} onChange={setName} autoFocus />
+          )}
+          <Field
+            label="Email"
+            type="email"
+            value={email}
+            onChange={setEmail}
+            autoFocus={!setup}
+            autoComplete="username"
+          />
+          <Field
+            label="Password"
+            type="password"
+            value={password}
+            onChange={setPassword}
+            autoComplete={setup ? "new-password" : "current-password"}
+          />
+        </div>
+        {login.isError && (
+          <p className="mt-3 text-sm text-red-600">
+            {(login.error as Error).message}
+          </p>
+        )}
+        <button
+          type="submit"
+          disabled={login.isPending || sessionQ.isLoading}
+          className="mt-5 w-full rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-brand-700 active:bg-brand-800 disabled:opacity-60"
+        >
+          {setup ? "Create account" : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+function Field({
+  label,
+  value,
+  onChange,
+  type = "text",
+  autoFocus,
+  autoComplete,
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  type?: string;
+  autoFocus?: boolean;
+  autoComplete?: string;
+}) {
+  return (
+    <label className="flex flex-col gap-1 text-sm">
+      <span className="text-neutral-600 dark:text-neutral-300">{label}</span>
+      <input
+        type={type}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        autoFocus={autoFocus}
+        autoComplete={autoComplete}
+        required
+        className="rounded-md border border-neutral-200 bg-white px-3 py-2 text-sm dark:border-neutral-700 dark:bg-neutral-800"
+      />
+    </label>
+  );
+}
@@ -2,9 +2,19 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
-import { getLeads, postLead, putLead, deleteLeadHandler } from "./routes/leads";
+import {
+  getLeads,
+  postLead,
+  putLead,
+  deleteLeadHandler,
+  getLeadHandler,
+  getLeadActivity,
+  getDuplicates,
+  postMergeLeads,
+} from "./routes/leads";
 import {
   getSalespersons,
+  getSalespersonLoad,
   postSalesperson,
   putSalesperson,
   deleteSalespersonHandler,
@@ -13,15 +23,64 @@ import {
   getConfig,
   updateConfig,
   importSheet,
+  previewSheetImport,
+  applySheetImport,
+  importFile,
+  previewFileImport,
   assignLeads,
 } from "./routes/sheets";
-import { adminImportSheet, adminMigrateToSupabase } from "./routes/admin";
+import {
+  adminImportSheet,
+  adminMigrateToSupabase,
+  adminReconcile,
+  adminUpdatePipeline,
+} from "./routes/admin";
+import { getPipelineHandler } from "./routes/pipeline";
+import {
+  getAssignmentPreview,
+  getAssignmentRulesHandler,
+  putAssignmentRules,
+} from "./routes/assignment";
+import {
+  getSession,
+  login,
+  logout,
+  requireSession,
+  setup,
+} from "./routes/auth";
+import { getUsers, postUser, putUser, deleteUserHandler } from "./routes/users";
+import {
+  getLeadSources,
+  postLeadSource,
+  putLeadSource,
+  deleteLeadSourceHandler,
+} from "./routes/sources";
+import { getStatus } from "./routes/status";
+
+import {
+  getLeadTasks,
+  postLeadTask,
+  putLeadTask,
+  deleteLeadTask,
+  getDueTasks,
+} from "./routes/tasks";
 
-import { startSheetSync } from "./scheduler";
+import {
+  startLeaveHandover,
+  startSlaChecks,
+  startSheetSync,
+  startTaskReminders,
+} from "./scheduler";
+import { getStore, StoreError } from "./stores";
+import { ValidationError } from "./services/errors";
+import type { ErrorResponse, ValidationErrorResponse } from "@shared/api";
 
 export function createServer() {
   const app = express();
 
+  // Pick the storage backend once, before any request touches it
+  getStore();
+
   // Middleware
   app.use(cors());
   app.use(express.json());
@@ -33,30 +92,97 @@ export function createServer() {
     res.json({ message: ping });
   });
 
+  // Sign-in; every route registered after requireSession needs a session
+  app.get("/api/auth/session", getSession);
+  app.post("/api/auth/login", login);
+  app.post("/api/auth/logout", logout);
+  app.post("/api/auth/setup", setup);
+  app.use("/api", requireSession);
+
   app.get("/api/demo", handleDemo);
 
+  // Storage health, including degraded fallback mode
+  app.get("/api/status", getStatus);
+
   // CRM routes
   app.get("/api/leads", getLeads);
   app.post("/api/leads", postLead);
+  app.get("/api/leads/duplicates", getDuplicates);
+  app.post("/api/leads/merge", postMergeLeads);
+  app.get("/api/leads/:id", getLeadHandler);
   app.put("/api/leads/:id", putLead);
   app.delete("/api/leads/:id", deleteLeadHandler);
+  app.get("/api/leads/:id/activity", getLeadActivity);
+  app.get("/api/leads/:id/tasks", getLeadTasks);
+  app.post("/api/leads/:id/tasks", postLeadTask);
+  app.put("/api/leads/:id/tasks/:taskId", putLeadTask);
+  app.delete("/api/leads/:id/tasks/:taskId", deleteLeadTask);
+  app.get("/api/tasks/due", getDueTasks);
 
   app.get("/api/salespersons", getSalespersons);
+  app.get("/api/salespersons/load", getSalespersonLoad);
   app.post("/api/salespersons", postSalesperson);
   app.put("/api/salespersons/:id", putSalesperson);
   app.delete("/api/salespersons/:id", deleteSalespersonHandler);
 
+  app.get("/api/users", getUsers);
+  app.post("/api/users", postUser);
+  app.put("/api/users/:id", putUser);
+  app.delete("/api/users/:id", deleteUserHandler);
+
+  app.get("/api/pipeline", getPipelineHandler);
+
   app.get("/api/config", getConfig);
   app.put("/api/config", updateConfig);
   app.post("/api/import-sheet", importSheet);
+  app.post("/api/import-sheet/preview", previewSheetImport);
+  app.post("/api/import-sheet/apply", applySheetImport);
+  app.post("/api/import-file", importFile);
+  app.post("/api/import-file/preview", previewFileImport);
+  app.get("/api/lead-sources", getLeadSources);
+  app.post("/api/lead-sources", postLeadSource);
+  app.put("/api/lead-sources/:id", putLeadSource);
+  app.delete("/api/lead-sources/:id", deleteLeadSourceHandler);
   app.post("/api/assign-leads", assignLeads);
+  app.get("/api/assign-leads/preview", getAssignmentPreview);
+  app.get("/api/assignment-rules", getAssignmentRulesHandler);
+  app.put("/api/assignment-rules", putAssignmentRules);
 
   // Admin-only on-demand import (requires ADMIN_TOKEN in env and header x-admin-token or Authorization: Bearer <token>)
   app.post("/api/admin/import-sheet", adminImportSheet);
   app.post("/api/admin/migrate-to-supabase", adminMigrateToSupabase);
+  app.post("/api/admin/reconcile", adminReconcile);
+  app.put("/api/admin/pipeline", adminUpdatePipeline);
+
+  // Rule violations become 422s and storage failures 5xx ErrorResponses
+  // instead of HTML error pages
+  app.use(
+    "/api",
+    (
+      err: any,
+      _req: express.Request,
+      res: express.Response,
+      next: express.NextFunction,
+    ) => {
+      if (res.headersSent) return next(err);
+      if (err instanceof ValidationError) {
+        const body: ValidationErrorResponse = {
+          error: err.message,
+          issues: err.issues,
+        };
+        return res.status(422).json(body);
+      }
+      const status = err instanceof StoreError ? err.status : 500;
+      const body: ErrorResponse = { error: err?.message || String(err) };
+      res.status(status).json(body);
+    },
+  );
 
-  // Background sync
+  // Background sync, overdue task checks, leave handover and SLA escalation
   startSheetSync();
+  startTaskReminders();
+  startLeaveHandover();
+  startSlaChecks();
 
   return app;
 }
@@ -0,0 +1,25 @@
+import "dotenv/config";
+import { getStoreStatus, reconcileStore } from "./stores";
+
+// Replays writes that were buffered locally while Supabase was unavailable.
+// Usage: npm run reconcile
+async function main() {
+  const result = await reconcileStore();
+  if (!result) {
+    const { backend } = await getStoreStatus();
+    console.log(`Store "${backend}" does not buffer writes; nothing to do`);
+    return;
+  }
+  console.log(
+    `Replayed ${result.replayed} writes, skipped ${result.skipped} stale leads, ${result.remaining} remaining`,
+  );
+  if (result.error) {
+    console.error(`Stopped on error: ${result.error}`);
+    process.exit(1);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,69 +1,111 @@
-import { RequestHandler } from "express";
-import { importSheet } from "./sheets";
+import { Request, RequestHandler, Response } from "express";
+import { runSheetImport } from "./sheets";
 import {
-  getState,
-  saveLeads,
-  saveSalespersons,
-  saveConfig,
-} from "../services/crm";
+  createJsonStore,
+  createSupabaseStoreFromEnv,
+  hasSupabaseEnv,
+  reconcileStore,
+} from "../stores";
+import { savePipeline } from "../services/pipeline";
+import type {
+  PipelineResponse,
+  UpdatePipelineRequest,
+  User,
+} from "@shared/api";
 
-export const adminImportSheet: RequestHandler = async (req, res) => {
+// Accepts ADMIN_TOKEN via x-admin-token or Authorization: Bearer <token>
+export function hasAdminToken(req: Request): boolean {
   const token = process.env.ADMIN_TOKEN;
-  if (!token)
-    return res.status(500).json({ error: "admin token not configured" });
-
   let provided: any =
     req.headers["x-admin-token"] || req.headers["authorization"];
-  if (!provided) return res.status(401).json({ error: "unauthorized" });
-
   if (typeof provided === "string" && provided.startsWith("Bearer ")) {
     provided = provided.slice(7);
   }
+  return !!token && !!provided && provided === token;
+}
+
+// Signed-in admins pass without the token. Responds and returns false when
+// the request is not allowed.
+function checkAdminToken(req: Request, res: Response): boolean {
+  if ((res.locals.user as User | undefined)?.role === "admin") return true;
+  if (!process.env.ADMIN_TOKEN) {
+    res.status(500).json({ error: "admin token not configured" });
+    return false;
+  }
+  if (!hasAdminToken(req)) {
+    res.status(401).json({ error: "unauthorized" });
+    return false;
+  }
+  return true;
+}
 
-  if (provided !== token)
-    return res.status(401).json({ error: "unauthorized" });
+export const adminImportSheet: RequestHandler = async (req, res, next) => {
+  if (!checkAdminToken(req, res)) return;
 
-  // Delegate to existing importSheet handler
-  return importSheet(req, res);
+  // Same import as POST /api/import-sheet, minus the role check
+  return runSheetImport(req, res, next);
 };
 
 export const adminMigrateToSupabase: RequestHandler = async (req, res) => {
-  const token = process.env.ADMIN_TOKEN;
-  if (!token)
-    return res.status(500).json({ error: "admin token not configured" });
-
-  let provided: any =
-    req.headers["x-admin-token"] || req.headers["authorization"];
-  if (!provided) return res.status(401).json({ error: "unauthorized" });
-
-  if (typeof provided === "string" && provided.startsWith("Bearer ")) {
-    provided = provided.slice(7);
-  }
-
-  if (provided !== token)
-    return res.status(401).json({ error: "unauthorized" });
+  if (!checkAdminToken(req, res)) return;
 
   try {
-    const state = await getState();
-
-    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    if (!hasSupabaseEnv()) {
       return res.status(500).json({ error: "Supabase not configured" });
     }
 
-    // Force save to Supabase
-    await saveLeads(state.leads);
-    await saveSalespersons(state.salespersons);
-    await saveConfig(state.config);
+    // Copy the local JSON files into Supabase regardless of the active store
+    const local = createJsonStore();
+    const remote = createSupabaseStoreFromEnv();
+    const [leads, salespersons, config, stages, users, rules, sources] =
+      await Promise.all([
+        local.listLeads(),
+        local.listSalespersons(),
+        local.getConfig(),
+        local.listStages(),
+        local.listUsers(),
+        local.listAssignmentRules(),
+        local.listLeadSources(),
+      ]);
+    await remote.upsertLeads(leads);
+    await remote.upsertSalespersons(salespersons);
+    await remote.upsertUsers(users);
+    await remote.saveConfig(config);
+    if (stages.length > 0) await remote.saveStages(stages);
+    if (rules.length > 0) await remote.saveAssignmentRules(rules);
+    await remote.upsertLeadSources(sources);
 
     res.json({
       success: true,
       message: "Data migrated to Supabase",
       counts: {
-        leads: state.leads.length,
-        salespersons: state.salespersons.length,
+        leads: leads.length,
+        salespersons: salespersons.length,
+        users: users.length,
       },
     });
   } catch (e: any) {
     res.status(500).json({ error: e?.message || "Migration failed" });
   }
 };
+
+export const adminReconcile: RequestHandler = async (req, res) => {
+  if (!checkAdminToken(req, res)) return;
+
+  const result = await reconcileStore();
+  if (!result)
+    return res
+      .status(400)
+      .json({ error: "Active store does not buffer writes" });
+  res.status(result.error ? 502 : 200).json(result);
+};
+
+export const adminUpdatePipeline: RequestHandler = async (req, res) => {
+  if (!checkAdminToken(req, res)) return;
+
+  const body = req.body as UpdatePipelineRequest;
+  const result = await savePipeline(body?.stages);
+  if ("error" in result) return res.status(400).json({ error: result.error });
+  const response: PipelineResponse = { stages: result.stages };
+  res.json(response);
+};
@@ -0,0 +1,33 @@
+import { RequestHandler } from "express";
+import {
+  getAssignmentRules,
+  saveAssignmentRules,
+} from "../services/assignment";
+import { previewAssignment } from "../services/crm";
+import { checkRole } from "./auth";
+import type {
+  AssignmentRulesResponse,
+  UpdateAssignmentRulesRequest,
+} from "@shared/api";
+
+// Rules decide where auto-assign sends leads; admin-only like assigning itself
+export const getAssignmentRulesHandler: RequestHandler = async (_req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const body: AssignmentRulesResponse = { rules: await getAssignmentRules() };
+  res.json(body);
+};
+
+export const putAssignmentRules: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const body = req.body as UpdateAssignmentRulesRequest;
+  const result = await saveAssignmentRules(body?.rules);
+  if ("error" in result) return res.status(400).json({ error: result.error });
+  const response: AssignmentRulesResponse = { rules: result.rules };
+  res.json(response);
+};
+
+// Dry run of POST /api/assign-leads; nothing is saved
+export const getAssignmentPreview: RequestHandler = async (_req, res) => {
+  if (!checkRole(res, "admin")) return;
+  res.json(await previewAssignment());
+};
@@ -0,0 +1,113 @@
+import { Request, RequestHandler, Response } from "express";
+import {
+  authenticate,
+  endSessions,
+  getSessionUser,
+  isSetupRequired,
+  issueSessionToken,
+  setupFirstAdmin,
+  SESSION_TTL_MS,
+} from "../services/auth";
+import { hasAdminToken } from "./admin";
+import type {
+  CreateUserRequest,
+  LoginRequest,
+  SessionResponse,
+  User,
+  UserRole,
+} from "@shared/api";
+
+const SESSION_COOKIE = "crm_session";
+
+function readSessionCookie(req: Request) {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const [name, ...rest] = part.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(rest.join("="));
+  }
+  return undefined;
+}
+
+export async function startSession(res: Response, user: User) {
+  res.cookie(SESSION_COOKIE, await issueSessionToken(user.id), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_TTL_MS,
+    path: "/",
+  });
+}
+
+// The signed-in user, set by requireSession
+export function currentUser(res: Response): User | undefined {
+  return res.locals.user;
+}
+
+// Responds 403 and returns false unless the signed-in user has one of `roles`
+export function checkRole(res: Response, ...roles: UserRole[]): boolean {
+  const user = currentUser(res);
+  if (user && roles.includes(user.role)) return true;
+  res.status(403).json({ error: "You do not have permission to do that" });
+  return false;
+}
+
+/**
+ * Rejects API calls without a valid session cookie. Admin routes may instead
+ * be called with ADMIN_TOKEN, so scripts keep working without an account.
+ */
+export const requireSession: RequestHandler = async (req, res, next) => {
+  const token = readSessionCookie(req);
+  const user = token ? await getSessionUser(token) : null;
+  if (user) {
+    res.locals.user = user;
+    return next();
+  }
+  if (req.path.startsWith("/admin/") && hasAdminToken(req)) return next();
+  res.status(401).json({ error: "Sign in required" });
+};
+
+export const getSession: RequestHandler = async (req, res) => {
+  const token = readSessionCookie(req);
+  const body: SessionResponse = {
+    user: token ? await getSessionUser(token) : null,
+    setupRequired: await isSetupRequired(),
+  };
+  res.json(body);
+};
+
+export const login: RequestHandler = async (req, res) => {
+  const { email, password } = (req.body || {}) as Partial<LoginRequest>;
+  if (typeof email !== "string" || typeof password !== "string")
+    return res.status(400).json({ error: "email and password are required" });
+  const user = await authenticate(email, password);
+  if (!user) return res.status(401).json({ error: "Wrong email or password" });
+  await startSession(res, user);
+  const body: SessionResponse = { user, setupRequired: false };
+  res.json(body);
+};
+
+// Ends the user's sessions on every device, not only this cookie
+export const logout: RequestHandler = async (req, res) => {
+  const token = readSessionCookie(req);
+  const user = token ? await getSessionUser(token) : null;
+  if (user) await endSessions(user.id);
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+  res.status(204).end();
+};
+
+// Creates the first (admin) account on a fresh install and signs it in
+export const setup: RequestHandler = async (req, res) => {
+  const body = (req.body || {}) as Partial<CreateUserRequest>;
+  if (typeof body.email !== "string" || typeof body.password !== "string")
+    return res.status(400).json({ error: "email and password are required" });
+  const user = await setupFirstAdmin({
+    email: body.email,
+    password: body.password,
+    name: body.name,
+    salespersonId: body.salespersonId,
+  });
+  if (!user)
+    return res.status(409).json({ error: "An account already exists" });
+  await startSession(res, user);
+  const response: SessionResponse = { user, setupRequired: false };
+  res.status(201).json(response);
+};
@@ -1,28 +1,175 @@
 import { RequestHandler } from "express";
-import { createLead, deleteLead, listLeads, updateLead } from "../services/crm";
-import type { Lead } from "@shared/api";
+import {
+  createLead,
+  deleteLead,
+  findMergedLeadId,
+  mergeLeads,
+  queryLeads,
+  updateLead,
+} from "../services/crm";
+import { findDuplicates, findDuplicatesOf } from "../services/duplicates";
+import { listLeadActivity } from "../services/activity";
+import { getVisibleLead, inScope, ownerScope } from "../services/access";
+import { checkRole, currentUser } from "./auth";
+import type { LeadQuery } from "../stores";
+import type {
+  CreateLeadResponse,
+  DuplicatesResponse,
+  Lead,
+  LeadSortField,
+  LeadStatus,
+  ListLeadActivityResponse,
+  ListLeadsResponse,
+  MergeLeadsRequest,
+} from "@shared/api";
 
-export const getLeads: RequestHandler = async (_req, res) => {
-  const items = await listLeads();
-  res.json({ items, total: items.length });
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+const SORT_FIELDS: LeadSortField[] = [
+  "createdAt",
+  "updatedAt",
+  "name",
+  "status",
+];
+
+function str(v: unknown): string | undefined {
+  if (typeof v !== "string") return undefined;
+  const t = v.trim();
+  return t === "" ? undefined : t;
+}
+
+// Turns GET /api/leads query params (ListLeadsQuery) into a LeadQuery
+function parseLeadQuery(
+  raw: Record<string, unknown>,
+): { query: LeadQuery; page: number } | { error: string } {
+  const page = str(raw.page) ? Number(raw.page) : 1;
+  if (!Number.isInteger(page) || page < 1)
+    return { error: "page must be a positive integer" };
+  const limit = str(raw.limit) ? Number(raw.limit) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT)
+    return { error: `limit must be an integer between 1 and ${MAX_LIMIT}` };
+
+  const sort = (str(raw.sort) || "createdAt") as LeadSortField;
+  if (!SORT_FIELDS.includes(sort))
+    return { error: `sort must be one of ${SORT_FIELDS.join(", ")}` };
+  const order = str(raw.order) || (sort === "name" ? "asc" : "desc");
+  if (order !== "asc" && order !== "desc")
+    return { error: "order must be asc or desc" };
+
+  const from = str(raw.from);
+  const to = str(raw.to);
+  for (const [key, value] of [
+    ["from", from],
+    ["to", to],
+  ] as const) {
+    if (value && Number.isNaN(Date.parse(value)))
+      return { error: `${key} must be an ISO date` };
+  }
+
+  const ownerId = str(raw.ownerId);
+  return {
+    page,
+    query: {
+      offset: (page - 1) * limit,
+      limit,
+      sort,
+      order,
+      status: str(raw.status) as LeadStatus | undefined,
+      ownerId: ownerId === "unassigned" ? null : ownerId,
+      createdFrom: from ? new Date(from).toISOString() : undefined,
+      createdTo: to ? new Date(to).toISOString() : undefined,
+      q: str(raw.q),
+    },
+  };
+}
+
+export const getLeads: RequestHandler = async (req, res) => {
+  const parsed = parseLeadQuery(req.query as Record<string, unknown>);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  const scope = await ownerScope(currentUser(res)!);
+  const { items, total } = await queryLeads({
+    ...parsed.query,
+    ownerIds: scope ?? undefined,
+  });
+  const body: ListLeadsResponse = {
+    items,
+    total,
+    page: parsed.page,
+    limit: parsed.query.limit,
+  };
+  res.json(body);
+};
+
+// Leads outside the caller's scope answer 404, as if they did not exist;
+// ids of merged-away leads redirect to the lead that absorbed them
+export const getLeadHandler: RequestHandler = async (req, res) => {
+  const lead = await getVisibleLead(currentUser(res)!, req.params.id);
+  if (lead) return res.json(lead);
+  const mergedInto = await findMergedLeadId(req.params.id);
+  if (mergedInto)
+    return res.redirect(301, `/api/leads/${encodeURIComponent(mergedInto)}`);
+  res.status(404).json({ error: "Lead not found" });
 };
 
+const OUT_OF_SCOPE = "You can only assign leads within your team";
+
 export const postLead: RequestHandler = async (req, res) => {
-  const body = req.body as Partial<Lead>;
+  const user = currentUser(res)!;
+  const body = { ...(req.body as Partial<Lead>) };
+  const scope = await ownerScope(user);
+  // restricted users' leads default to themselves so they can still see them
+  if (scope && body.ownerId === undefined) body.ownerId = user.salespersonId;
+  if (!inScope(scope, body.ownerId))
+    return res.status(403).json({ error: OUT_OF_SCOPE });
   const created = await createLead(body);
-  res.status(201).json(created);
+  const response: CreateLeadResponse = {
+    ...created,
+    possibleDuplicates: (await findDuplicatesOf(created)).length,
+  };
+  res.status(201).json(response);
 };
 
 export const putLead: RequestHandler = async (req, res) => {
   const { id } = req.params;
   const body = req.body as Partial<Lead>;
+  const user = currentUser(res)!;
+  if (!(await getVisibleLead(user, id)))
+    return res.status(404).json({ error: "Lead not found" });
+  if (
+    body.ownerId !== undefined &&
+    !inScope(await ownerScope(user), body.ownerId)
+  )
+    return res.status(403).json({ error: OUT_OF_SCOPE });
   const updated = await updateLead(id, body);
   if (!updated) return res.status(404).json({ error: "Lead not found" });
   res.json(updated);
 };
 
 export const deleteLeadHandler: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
   const { id } = req.params;
   await deleteLead(id);
   res.status(204).end();
 };
+
+export const getLeadActivity: RequestHandler = async (req, res) => {
+  const { id } = req.params;
+  if (!(await getVisibleLead(currentUser(res)!, id)))
+    return res.status(404).json({ error: "Lead not found" });
+  const items = await listLeadActivity(id);
+  const body: ListLeadActivityResponse = { items, total: items.length };
+  res.json(body);
+};
+
+export const getDuplicates: RequestHandler = async (_req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const body: DuplicatesResponse = { items: await findDuplicates() };
+  res.json(body);
+};
+
+export const postMergeLeads: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const merged = await mergeLeads(req.body as MergeLeadsRequest);
+  if (!merged) return res.status(404).json({ error: "Lead not found" });
+  res.json(merged);
+};
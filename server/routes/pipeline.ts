@@ -0,0 +1,8 @@
+import { RequestHandler } from "express";
+import { getPipeline } from "../services/pipeline";
+import type { PipelineResponse } from "@shared/api";
+
+export const getPipelineHandler: RequestHandler = async (_req, res) => {
+  const body: PipelineResponse = { stages: await getPipeline() };
+  res.json(body);
+};
@@ -2,17 +2,41 @@ import { RequestHandler } from "express";
 import {
   createSalesperson,
   deleteSalesperson,
+  getTeamLoad,
   listSalespersons,
   updateSalesperson,
 } from "../services/crm";
-import type { Salesperson } from "@shared/api";
+import { inScope, ownerScope } from "../services/access";
+import { checkRole, currentUser } from "./auth";
+import type { Salesperson, SalespersonLoadResponse } from "@shared/api";
 
+// What managers may change for the people on their team
+const MANAGER_FIELDS = [
+  "weight",
+  "maxOpenLeads",
+  "dailyCap",
+  "availability",
+] as const;
+
+// Everyone can list the team (owner names); only admins change it
 export const getSalespersons: RequestHandler = async (_req, res) => {
   const items = await listSalespersons();
   res.json({ items, total: items.length });
 };
 
+// Capacity in use, for the people the caller manages
+export const getSalespersonLoad: RequestHandler = async (_req, res) => {
+  if (!checkRole(res, "admin", "manager")) return;
+  const scope = await ownerScope(currentUser(res)!);
+  const items = (await getTeamLoad()).filter((l) =>
+    inScope(scope, l.salespersonId),
+  );
+  const body: SalespersonLoadResponse = { items };
+  res.json(body);
+};
+
 export const postSalesperson: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
   const body = req.body as Partial<Salesperson>;
   if (!body.name) return res.status(400).json({ error: "name is required" });
   const created = await createSalesperson({
@@ -23,14 +47,28 @@ export const postSalesperson: RequestHandler = async (req, res) => {
 };
 
 export const putSalesperson: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin", "manager")) return;
   const { id } = req.params;
   const body = req.body as Partial<Salesperson>;
+  const user = currentUser(res)!;
+  if (user.role !== "admin") {
+    if (!inScope(await ownerScope(user), id))
+      return res.status(404).json({ error: "Salesperson not found" });
+    const other = Object.keys(body).find(
+      (k) => !(MANAGER_FIELDS as readonly string[]).includes(k),
+    );
+    if (other)
+      return res.status(403).json({
+        error: `Managers can only change capacity and availability, not ${other}`,
+      });
+  }
   const updated = await updateSalesperson(id, body);
   if (!updated) return res.status(404).json({ error: "Salesperson not found" });
   res.json(updated);
 };
 
 export const deleteSalespersonHandler: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
   const { id } = req.params;
   await deleteSalesperson(id);
   res.status(204).end();
@@ -1,24 +1,33 @@
-import { RequestHandler } from "express";
+import { RequestHandler, Request, Response } from "express";
+import multer from "multer";
 import {
   getState,
   importFromCsvRows,
-  parseCSV,
   saveConfig,
   assignUnassignedLeads,
+  nextColumnMapping,
+  previewImport,
+  applyImportPreview,
 } from "../services/crm";
-import type { UpdateConfigRequest, ImportSheetRequest } from "@shared/api";
-
-async function fetchCsvText(url: string): Promise<string> {
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`Failed to fetch sheet: ${res.status}`);
-  return await res.text();
-}
-
-function toCsvExportUrl(input: string): string {
-  const m = input.match(/docs.google.com\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-  if (!m) return input;
-  return `https://docs.google.com/spreadsheets/d/${m[1]}/export?format=csv`;
-}
+import { parseCSV } from "../../shared/import";
+import { nextSlaPolicy } from "../services/sla";
+import {
+  fetchCsvText,
+  getLeadSource,
+  recordSourceSync,
+  sourceImportOptions,
+  syncLeadSource,
+  toCsvExportUrl,
+} from "../services/sources";
+import { MAX_UPLOAD_BYTES, parseUploadedSheet } from "../services/uploads";
+import { checkRole } from "./auth";
+import type {
+  UpdateConfigRequest,
+  ImportSheetRequest,
+  ApplyImportRequest,
+  ImportFileRequest,
+  ImportFileResponse,
+} from "@shared/api";
 
 export const getConfig: RequestHandler = async (_req, res) => {
   const { config } = await getState();
@@ -26,16 +35,43 @@ export const getConfig: RequestHandler = async (_req, res) => {
 };
 
 export const updateConfig: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
   const body = req.body as UpdateConfigRequest;
   const state = await getState();
   const next = { ...state.config };
   if (body.sheetUrl) next.sheetUrl = toCsvExportUrl(body.sheetUrl);
+  if (body.sla !== undefined)
+    next.sla = nextSlaPolicy(body.sla, state.config.sla);
+  if (body.columnMapping !== undefined)
+    next.columnMapping = nextColumnMapping(body.columnMapping);
   await saveConfig(next);
   res.json(next);
 };
 
-export const importSheet: RequestHandler = async (req, res) => {
+export const importSheet: RequestHandler = async (req, res, next) => {
+  if (!checkRole(res, "admin")) return;
+  return runSheetImport(req, res, next);
+};
+
+// Shared by importSheet and the ADMIN_TOKEN route, which has no signed-in user
+export const runSheetImport: RequestHandler = async (req, res) => {
   const body = req.body as ImportSheetRequest;
+  if (body.sourceId) {
+    const source = await getLeadSource(body.sourceId);
+    if (!source)
+      return res.status(404).json({ error: "Lead source not found" });
+    try {
+      const result = await syncLeadSource(source);
+      if (!result)
+        return res
+          .status(409)
+          .json({ error: "This source is already syncing" });
+      res.json(result);
+    } catch (e: any) {
+      res.status(500).json({ error: e?.message || String(e) });
+    }
+    return;
+  }
   const state = await getState();
   const sheetUrl = toCsvExportUrl(body.sheetUrl || state.config.sheetUrl || "");
   if (!sheetUrl)
@@ -50,14 +86,148 @@ export const importSheet: RequestHandler = async (req, res) => {
       headers,
     );
     const now = new Date().toISOString();
-    await saveConfig({ ...state.config, sheetUrl, lastSyncAt: now, headers });
+    // re-read so config edits made during the import are kept
+    const { config } = await getState();
+    await saveConfig({ ...config, sheetUrl, lastSyncAt: now, headers });
     res.json({ imported, updated, assigned, skipped, lastSyncAt: now });
   } catch (e: any) {
     res.status(500).json({ error: e?.message || String(e) });
   }
 };
 
+// Parses the sheet and reports what a sync would do, without writing
+export const previewSheetImport: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const body = req.body as ImportSheetRequest;
+  const source = body.sourceId ? await getLeadSource(body.sourceId) : null;
+  if (body.sourceId && !source)
+    return res.status(404).json({ error: "Lead source not found" });
+  const state = await getState();
+  const sheetUrl =
+    source?.sheetUrl ||
+    toCsvExportUrl(body.sheetUrl || state.config.sheetUrl || "");
+  if (!sheetUrl)
+    return res.status(400).json({ error: "sheetUrl not configured" });
+  try {
+    const { rows, headers } = parseCSV(await fetchCsvText(sheetUrl));
+    res.json(
+      await previewImport(
+        rows,
+        headers,
+        sheetUrl,
+        source
+          ? { id: source.id, options: sourceImportOptions(source) }
+          : undefined,
+      ),
+    );
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message || String(e) });
+  }
+};
+
+export const applySheetImport: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const body = req.body as ApplyImportRequest;
+  if (!body?.previewId)
+    return res.status(400).json({ error: "previewId is required" });
+  const result = await applyImportPreview(body.previewId);
+  if ("error" in result)
+    return res.status(result.status).json({ error: result.error });
+  const { imported, updated, assigned, skipped, sheetUrl, sourceId, headers } =
+    result;
+  const now = new Date();
+  if (sourceId) await recordSourceSync(sourceId, { headers }, now);
+  else if (sheetUrl) {
+    // re-read so config edits made since the preview are kept
+    const { config } = await getState();
+    await saveConfig({
+      ...config,
+      sheetUrl,
+      lastSyncAt: now.toISOString(),
+      headers,
+    });
+  }
+  res.json({
+    imported,
+    updated,
+    assigned,
+    skipped,
+    lastSyncAt: now.toISOString(),
+  });
+};
+
+const receiveUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+}).single("file");
+
+// Reads the multipart upload; answers the request itself when there is none
+function receiveFile(req: Request, res: Response) {
+  return new Promise<Express.Multer.File | null>((resolve, reject) =>
+    receiveUpload(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        const tooLarge = err.code === "LIMIT_FILE_SIZE";
+        res.status(tooLarge ? 413 : 400).json({
+          error: tooLarge
+            ? `The file is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`
+            : err.message,
+        });
+        return resolve(null);
+      }
+      if (err) return reject(err);
+      if (!req.file) {
+        res.status(400).json({ error: "Attach a .csv or .xlsx file" });
+        return resolve(null);
+      }
+      resolve(req.file);
+    }),
+  );
+}
+
+// Rows of the uploaded file and how to read them; null once answered
+async function readUploadedImport(req: Request, res: Response) {
+  const file = await receiveFile(req, res);
+  if (!file) return null;
+  const body = (req.body || {}) as ImportFileRequest;
+  const source = body.sourceId ? await getLeadSource(body.sourceId) : null;
+  if (body.sourceId && !source) {
+    res.status(404).json({ error: "Lead source not found" });
+    return null;
+  }
+  const { rows, headers } = await parseUploadedSheet(file, body.sheet);
+  return {
+    rows,
+    headers,
+    options: source ? sourceImportOptions(source) : {},
+  };
+}
+
+// Imports an uploaded .csv or .xlsx like a sheet sync, without a preview
+export const importFile: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const upload = await readUploadedImport(req, res);
+  if (!upload) return;
+  const { rows, headers, options } = upload;
+  const { imported, updated, assigned, skipped } = await importFromCsvRows(
+    rows,
+    headers,
+    options,
+  );
+  const body: ImportFileResponse = { imported, updated, assigned, skipped };
+  res.json(body);
+};
+
+// The preview of an uploaded file, applied through /api/import-sheet/apply
+export const previewFileImport: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const upload = await readUploadedImport(req, res);
+  if (!upload) return;
+  const { rows, headers, options } = upload;
+  res.json(await previewImport(rows, headers, "", { options }));
+};
+
 export const assignLeads: RequestHandler = async (_req, res) => {
+  if (!checkRole(res, "admin")) return;
   const assigned = await assignUnassignedLeads();
   res.json({ assigned });
 };
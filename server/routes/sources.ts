@@ -0,0 +1,37 @@
+import { RequestHandler } from "express";
+import {
+  createLeadSource,
+  deleteLeadSource,
+  listLeadSources,
+  updateLeadSource,
+} from "../services/sources";
+import { checkRole } from "./auth";
+import type { LeadSourceInput, LeadSourcesResponse } from "@shared/api";
+
+export const getLeadSources: RequestHandler = async (_req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const body: LeadSourcesResponse = { items: await listLeadSources() };
+  res.json(body);
+};
+
+export const postLeadSource: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const created = await createLeadSource(req.body as LeadSourceInput);
+  res.status(201).json(created);
+};
+
+export const putLeadSource: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const updated = await updateLeadSource(
+    req.params.id,
+    req.body as LeadSourceInput,
+  );
+  if (!updated) return res.status(404).json({ error: "Lead source not found" });
+  res.json(updated);
+};
+
+export const deleteLeadSourceHandler: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  await deleteLeadSource(req.params.id);
+  res.status(204).end();
+};
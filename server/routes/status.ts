@@ -0,0 +1,6 @@
+import { RequestHandler } from "express";
+import { getStoreStatus } from "../stores";
+
+export const getStatus: RequestHandler = async (_req, res) => {
+  res.json(await getStoreStatus());
+};
@@ -0,0 +1,86 @@
+import { RequestHandler } from "express";
+import {
+  TASK_TYPES,
+  createTask,
+  deleteTask,
+  listDueTasks,
+  listLeadTasks,
+  updateTask,
+} from "../services/tasks";
+import { getVisibleLead, ownerScope } from "../services/access";
+import { currentUser } from "./auth";
+import type {
+  CreateLeadTaskRequest,
+  ListLeadTasksResponse,
+  UpdateLeadTaskRequest,
+} from "@shared/api";
+
+function validateTask(body: UpdateLeadTaskRequest, partial: boolean) {
+  if (!partial || body.type !== undefined) {
+    if (!TASK_TYPES.includes(body.type!))
+      return `type must be one of ${TASK_TYPES.join(", ")}`;
+  }
+  if (!partial || body.dueAt !== undefined) {
+    if (typeof body.dueAt !== "string" || Number.isNaN(Date.parse(body.dueAt)))
+      return "dueAt must be an ISO date";
+  }
+  if (body.completed !== undefined && typeof body.completed !== "boolean")
+    return "completed must be a boolean";
+  return null;
+}
+
+export const getLeadTasks: RequestHandler = async (req, res) => {
+  const { id } = req.params;
+  if (!(await getVisibleLead(currentUser(res)!, id)))
+    return res.status(404).json({ error: "Lead not found" });
+  const items = await listLeadTasks(id);
+  const body: ListLeadTasksResponse = { items, total: items.length };
+  res.json(body);
+};
+
+export const postLeadTask: RequestHandler = async (req, res) => {
+  const body = req.body as CreateLeadTaskRequest;
+  const error = validateTask(body, false);
+  if (error) return res.status(400).json({ error });
+  if (!(await getVisibleLead(currentUser(res)!, req.params.id)))
+    return res.status(404).json({ error: "Lead not found" });
+  const created = await createTask(req.params.id, body);
+  if (!created) return res.status(404).json({ error: "Lead not found" });
+  res.status(201).json(created);
+};
+
+export const putLeadTask: RequestHandler = async (req, res) => {
+  const { id, taskId } = req.params;
+  const body = req.body as UpdateLeadTaskRequest;
+  const error = validateTask(body, true);
+  if (error) return res.status(400).json({ error });
+  if (!(await getVisibleLead(currentUser(res)!, id)))
+    return res.status(404).json({ error: "Task not found" });
+  const updated = await updateTask(id, taskId, body);
+  if (!updated) return res.status(404).json({ error: "Task not found" });
+  res.json(updated);
+};
+
+export const deleteLeadTask: RequestHandler = async (req, res) => {
+  const { id, taskId } = req.params;
+  if (
+    !(await getVisibleLead(currentUser(res)!, id)) ||
+    !(await deleteTask(id, taskId))
+  )
+    return res.status(404).json({ error: "Task not found" });
+  res.status(204).end();
+};
+
+export const getDueTasks: RequestHandler = async (req, res) => {
+  const { ownerId, until } = req.query as Record<string, string | undefined>;
+  if (!until || Number.isNaN(Date.parse(until)))
+    return res.status(400).json({ error: "until must be an ISO date" });
+  const scope = await ownerScope(currentUser(res)!);
+  res.json(
+    await listDueTasks({
+      ownerId: ownerId || undefined,
+      ownerIds: scope ?? undefined,
+      until: new Date(until).toISOString(),
+    }),
+  );
+};
@@ -0,0 +1,72 @@
+import { RequestHandler } from "express";
+import {
+  createUser,
+  deleteUser,
+  listUsers,
+  updateUser,
+} from "../services/auth";
+import { checkRole, currentUser, startSession } from "./auth";
+import type {
+  CreateUserRequest,
+  ListUsersResponse,
+  UpdateUserRequest,
+} from "@shared/api";
+
+// Account management is admin-only
+export const getUsers: RequestHandler = async (_req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const items = await listUsers();
+  const body: ListUsersResponse = { items, total: items.length };
+  res.json(body);
+};
+
+export const postUser: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const body = (req.body || {}) as Partial<CreateUserRequest>;
+  if (typeof body.email !== "string" || typeof body.password !== "string")
+    return res.status(400).json({ error: "email and password are required" });
+  const created = await createUser({
+    email: body.email,
+    password: body.password,
+    name: body.name,
+    role: body.role,
+    salespersonId: body.salespersonId,
+  });
+  res.status(201).json(created);
+};
+
+export const putUser: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  const body = (req.body || {}) as UpdateUserRequest;
+  // keeps at least the caller able to manage accounts
+  if (
+    currentUser(res)?.id === req.params.id &&
+    body.role &&
+    body.role !== "admin"
+  )
+    return res
+      .status(400)
+      .json({ error: "You cannot remove your own admin role" });
+  const updated = await updateUser(req.params.id, {
+    email: body.email,
+    password: body.password || undefined,
+    name: body.name,
+    role: body.role,
+    salespersonId: body.salespersonId,
+  });
+  if (!updated) return res.status(404).json({ error: "User not found" });
+  // a password change ends old sessions; keep the caller's own signed in
+  if (currentUser(res)?.id === updated.id && body.password)
+    await startSession(res, updated);
+  res.json(updated);
+};
+
+export const deleteUserHandler: RequestHandler = async (req, res) => {
+  if (!checkRole(res, "admin")) return;
+  if (currentUser(res)?.id === req.params.id)
+    return res
+      .status(400)
+      .json({ error: "You cannot delete your own account" });
+  await deleteUser(req.params.id);
+  res.status(204).end();
+};
@@ -1,12 +1,18 @@
 import {
+  escalateSlaBreaches,
   getState,
-  parseCSV,
+  handOverLeadsOnLeave,
   importFromCsvRows,
   saveConfig,
 } from "./services/crm";
+import { flagOverdueTasks } from "./services/tasks";
+import { parseCSV } from "../shared/import";
+import { listLeadSources, syncDueSources } from "./services/sources";
 
+// The single configured sheet, until named lead sources replace it
 async function runOnce() {
   try {
+    if ((await listLeadSources()).length > 0) return;
     const state = await getState();
     const sheetUrl = state.config.sheetUrl;
     if (!sheetUrl) return;
@@ -18,8 +24,10 @@ async function runOnce() {
     const headers = parsed.headers;
     const changed = await importFromCsvRows(rows, headers);
     if (changed.imported > 0 || changed.updated > 0 || changed.assigned > 0) {
+      // re-read so a config edit made during the import is not overwritten
+      const { config } = await getState();
       await saveConfig({
-        ...state.config,
+        ...config,
         lastSyncAt: new Date().toISOString(),
         sheetUrl,
         headers,
@@ -30,8 +38,67 @@ async function runOnce() {
   }
 }
 
+async function syncSources() {
+  try {
+    const { failed } = await syncDueSources();
+    if (failed > 0) console.log(`Failed to sync ${failed} lead source(s)`);
+  } catch {
+    // ignore background errors
+  }
+}
+
+// Every lead source is checked each minute and synced once its interval is up
 export function startSheetSync() {
   // initial delay to allow server start
   setTimeout(runOnce, 5000);
   setInterval(runOnce, 5 * 60 * 1000);
+  setTimeout(syncSources, 5000);
+  setInterval(syncSources, 60 * 1000);
+}
+
+async function flagOverdue() {
+  try {
+    const flagged = await flagOverdueTasks();
+    if (flagged.length > 0)
+      console.log(`Flagged ${flagged.length} overdue task(s)`);
+  } catch {
+    // ignore background errors
+  }
+}
+
+export function startTaskReminders() {
+  setTimeout(flagOverdue, 5000);
+  setInterval(flagOverdue, 60 * 1000);
+}
+
+async function handOverLeave() {
+  try {
+    const moved = await handOverLeadsOnLeave();
+    if (moved > 0)
+      console.log(`Reassigned ${moved} lead(s) from people on leave`);
+  } catch {
+    // ignore background errors
+  }
+}
+
+export function startLeaveHandover() {
+  setTimeout(handOverLeave, 5000);
+  setInterval(handOverLeave, 15 * 60 * 1000);
+}
+
+async function checkSla() {
+  try {
+    const { escalated, reassigned } = await escalateSlaBreaches();
+    if (escalated > 0)
+      console.log(
+        `Escalated ${escalated} lead(s) past the first-contact SLA, reassigned ${reassigned}`,
+      );
+  } catch {
+    // ignore background errors
+  }
+}
+
+export function startSlaChecks() {
+  setTimeout(checkSla, 5000);
+  setInterval(checkSla, 60 * 1000);
 }
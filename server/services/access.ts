@@ -0,0 +1,33 @@
+import type { Lead, User, UserRole } from "@shared/api";
+import { getStore } from "../stores";
+
+export const USER_ROLES: UserRole[] = ["admin", "manager", "salesperson"];
+
+/**
+ * Salesperson ids whose leads and tasks `user` may see, or null for all of
+ * them. Managers see the salespersons they manage plus their own leads;
+ * unassigned leads are only visible to admins.
+ */
+export async function ownerScope(user: User): Promise<string[] | null> {
+  if (user.role === "admin") return null;
+  const ids = new Set<string>();
+  if (user.salespersonId) ids.add(user.salespersonId);
+  if (user.role === "manager")
+    for (const s of await getStore().listSalespersons())
+      if (s.managerId === user.id) ids.add(s.id);
+  return [...ids];
+}
+
+export function inScope(scope: string[] | null, ownerId?: string | null) {
+  return scope === null || (!!ownerId && scope.includes(ownerId));
+}
+
+// Returns null both for missing leads and for leads outside the user's scope
+export async function getVisibleLead(
+  user: User,
+  id: string,
+): Promise<Lead | null> {
+  const lead = await getStore().getLead(id);
+  if (!lead) return null;
+  return inScope(await ownerScope(user), lead.ownerId) ? lead : null;
+}
@@ -0,0 +1,82 @@
+import { randomUUID } from "crypto";
+import type {
+  Lead,
+  LeadActivity,
+  LeadActivityChange,
+  LeadActivityKind,
+} from "@shared/api";
+import { getStore } from "../stores";
+
+export const ACTOR_USER = "user";
+export const ACTOR_SHEET_SYNC = "sheet-sync";
+export const ACTOR_AUTO_ASSIGN = "auto-assign";
+export const ACTOR_SLA = "sla";
+
+const TRACKED_PROPS = [
+  "name",
+  "email",
+  "phone",
+  "company",
+  "source",
+  "status",
+  "ownerId",
+  "slaBreachedAt",
+  "escalatedTo",
+  "notes",
+] as const;
+
+function norm(v: unknown): string | null {
+  if (v === undefined || v === null) return null;
+  const s = String(v);
+  return s === "" ? null : s;
+}
+
+// Field-level differences between two versions of a lead; `before` is null for new leads
+export function diffLead(before: Lead | null, after: Lead) {
+  const changes: LeadActivityChange[] = [];
+  for (const prop of TRACKED_PROPS) {
+    const from = norm(before?.[prop]);
+    const to = norm(after[prop]);
+    if (from !== to) changes.push({ field: prop, from, to });
+  }
+  const keys = new Set([
+    ...Object.keys(before?.fields || {}),
+    ...Object.keys(after.fields || {}),
+  ]);
+  for (const key of keys) {
+    const from = norm(before?.fields?.[key]);
+    const to = norm(after.fields?.[key]);
+    if (from !== to) changes.push({ field: `fields.${key}`, from, to });
+  }
+  return changes;
+}
+
+export function leadActivity(
+  before: Lead | null,
+  after: Lead,
+  kind: LeadActivityKind,
+  actor: string,
+): LeadActivity | null {
+  const changes = diffLead(before, after);
+  if (changes.length === 0 && kind !== "create") return null;
+  return {
+    id: randomUUID(),
+    leadId: after.id,
+    at: after.updatedAt || new Date().toISOString(),
+    actor,
+    kind,
+    changes,
+  };
+}
+
+export async function recordActivity(entries: (LeadActivity | null)[]) {
+  await getStore().appendActivity(
+    entries.filter((e): e is LeadActivity => !!e),
+  );
+}
+
+// Newest first, as shown in the timeline
+export async function listLeadActivity(leadId: string) {
+  const items = await getStore().listActivity(leadId);
+  return items.reverse();
+}
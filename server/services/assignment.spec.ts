@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import type { AssignmentRule, Lead, Salesperson } from "@shared/api";
+import { matchesCondition, planAssignments } from "./assignment";
+import { DEFAULT_PIPELINE } from "./pipeline";
+
+const NOW = new Date(2025, 0, 2, 12);
+
+function lead(id: string, patch: Partial<Lead> = {}): Lead {
+  return {
+    id,
+    name: id,
+    status: "new",
+    ownerId: null,
+    fields: {},
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    ...patch,
+  };
+}
+
+function person(
+  id: string,
+  active = true,
+  capacity: Partial<Salesperson> = {},
+): Salesperson {
+  return {
+    id,
+    name: id,
+    active,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    ...capacity,
+  };
+}
+
+function rule(
+  id: string,
+  targetIds: string[],
+  conditions: AssignmentRule["conditions"],
+): AssignmentRule {
+  return { id, name: id, order: 0, active: true, conditions, targetIds };
+}
+
+describe("matchesCondition", () => {
+  const l = lead("l1", {
+    source: "Facebook",
+    fields: { Post_Code: "560 034", "Monthly bill": "₹2,500 - 3,000" },
+  });
+
+  it("matches post code prefixes ignoring spaces and header case", () => {
+    expect(
+      matchesCondition(l, {
+        field: "post_code",
+        op: "prefix",
+        values: ["5600"],
+      }),
+    ).toBe(true);
+    expect(
+      matchesCondition(l, {
+        field: "post_code",
+        op: "prefix",
+        values: ["5601"],
+      }),
+    ).toBe(false);
+  });
+
+  it("compares ranges against the first number", () => {
+    const bill = (min: number | null, max: number | null) =>
+      matchesCondition(l, { field: "monthly bill", op: "range", min, max });
+    expect(bill(2000, 3000)).toBe(true);
+    expect(bill(3000, null)).toBe(false);
+    expect(bill(null, 2500)).toBe(true);
+  });
+
+  it("reads lead columns and ignores missing values", () => {
+    expect(
+      matchesCondition(l, {
+        field: "source",
+        op: "equals",
+        values: ["facebook"],
+      }),
+    ).toBe(true);
+    expect(
+      matchesCondition(l, { field: "company", op: "contains", values: [""] }),
+    ).toBe(false);
+  });
+});
+
+function plan(
+  leads: Lead[],
+  team: Salesperson[],
+  rules: AssignmentRule[] = [],
+) {
+  return planAssignments(leads, team, rules, DEFAULT_PIPELINE, NOW);
+}
+
+describe("planAssignments", () => {
+  const team = [person("a"), person("b"), person("c")];
+  const south = rule(
+    "south",
+    ["c"],
+    [{ field: "post_code", op: "prefix", values: ["56"] }],
+  );
+
+  it("routes matching leads and balances the rest", () => {
+    const leads = [
+      lead("l1", { fields: { post_code: "560001" } }),
+      lead("l2"),
+      lead("l3"),
+      lead("l4", { ownerId: "a" }),
+    ];
+    const planned = plan(leads, team, [south]);
+    expect(planned.map((p) => [p.lead.id, p.ownerId, p.ruleId])).toEqual([
+      ["l1", "c", "south"],
+      ["l2", "b", null],
+      ["l3", "a", null],
+    ]);
+  });
+
+  it("shares a pool least-loaded first", () => {
+    const pool = rule("pool", ["a", "b"], []);
+    const leads = [lead("l1"), lead("l2"), lead("l3", { ownerId: "a" })];
+    expect(plan(leads, team, [pool]).map((p) => p.ownerId)).toEqual(["b", "a"]);
+  });
+
+  it("skips rules whose targets are all inactive", () => {
+    const leads = [lead("l1", { fields: { post_code: "560001" } })];
+    expect(plan(leads, [person("a"), person("c", false)], [south])).toEqual([
+      expect.objectContaining({ ownerId: "a", ruleId: null }),
+    ]);
+  });
+
+  it("assigns nothing without active salespeople", () => {
+    expect(plan([lead("l1")], [person("a", false)], [])).toEqual([]);
+  });
+
+  it("counts only open leads and honours weights", () => {
+    const leads = [
+      lead("won1", { ownerId: "a", status: "won" }),
+      lead("won2", { ownerId: "a", status: "won" }),
+      lead("open", { ownerId: "b" }),
+      lead("l1"),
+      lead("l2"),
+      lead("l3"),
+    ];
+    const team = [person("a"), person("b", true, { weight: 2 })];
+    expect(plan(leads, team).map((p) => p.ownerId)).toEqual(["a", "b", "a"]);
+  });
+
+  it("stops at open-lead and daily caps", () => {
+    const today = new Date(2025, 0, 2, 9).toISOString();
+    const yesterday = new Date(2025, 0, 1, 9).toISOString();
+    const leads = [
+      lead("old", { ownerId: "a", assignedAt: yesterday, status: "lost" }),
+      lead("new", { ownerId: "a", assignedAt: today, status: "lost" }),
+      lead("l1"),
+      lead("l2"),
+      lead("l3"),
+    ];
+    const team = [
+      person("a", true, { dailyCap: 2 }),
+      person("b", true, { maxOpenLeads: 1 }),
+    ];
+    expect(plan(leads, team).map((p) => [p.lead.id, p.ownerId])).toEqual([
+      ["l1", "a"],
+      ["l2", "b"],
+    ]);
+  });
+});
@@ -0,0 +1,256 @@
+import { randomUUID } from "crypto";
+import type {
+  AssignmentCondition,
+  AssignmentOperator,
+  AssignmentRule,
+  Lead,
+  PipelineStage,
+  Salesperson,
+} from "@shared/api";
+import { getStore } from "../stores";
+import { isAvailable } from "./availability";
+
+export const ASSIGNMENT_OPERATORS: AssignmentOperator[] = [
+  "equals",
+  "prefix",
+  "contains",
+  "range",
+];
+
+// Conditions on these read the lead column; anything else is a sheet field
+const LEAD_PROPERTIES = ["source", "company", "status"] as const;
+
+export interface PlannedAssignment {
+  lead: Lead;
+  ownerId: string;
+  ruleId: string | null; // null when no rule matched (least-loaded fallback)
+}
+
+function normalize(value: string) {
+  return value.trim().toLowerCase();
+}
+
+// Sheet headers vary in case and spacing between sheets, so keys are
+// compared the same way values are
+export function conditionValue(lead: Lead, field: string): string {
+  const key = normalize(field);
+  const property = LEAD_PROPERTIES.find((p) => p === key);
+  if (property) return lead[property] || "";
+  const fields = lead.fields || {};
+  if (fields[field] !== undefined) return fields[field] || "";
+  const match = Object.keys(fields).find((k) => normalize(k) === key);
+  return match ? fields[match] || "" : "";
+}
+
+// "₹2,500 - 3,000" reads as 2500
+function firstNumber(value: string) {
+  const m = value.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+  return m ? Number(m[0]) : null;
+}
+
+export function matchesCondition(lead: Lead, c: AssignmentCondition) {
+  const value = normalize(conditionValue(lead, c.field));
+  if (!value) return false;
+  if (c.op === "range") {
+    const n = firstNumber(value);
+    if (n === null) return false;
+    return (c.min == null || n >= c.min) && (c.max == null || n <= c.max);
+  }
+  const wanted = (c.values || []).map(normalize).filter(Boolean);
+  if (c.op === "equals") return wanted.includes(value);
+  if (c.op === "contains") return wanted.some((w) => value.includes(w));
+  // post codes are written with and without spaces
+  const compact = value.replace(/\s+/g, "");
+  return wanted.some((w) => compact.startsWith(w.replace(/\s+/g, "")));
+}
+
+// A rule without conditions matches every lead
+export function matchesRule(rule: AssignmentRule, lead: Lead) {
+  return rule.active && rule.conditions.every((c) => matchesCondition(lead, c));
+}
+
+export interface OwnerLoad {
+  openLeads: number;
+  assignedToday: number;
+}
+
+function startOfDay(now: Date) {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0); // the server's local day
+  return day.getTime();
+}
+
+/**
+ * Load per owner as capacity sees it: leads in stages without a won/lost
+ * outcome, and leads given to them since midnight.
+ */
+export function countLoad(
+  leads: Lead[],
+  stages: PipelineStage[],
+  now = new Date(),
+): Map<string, OwnerLoad> {
+  const closed = new Set(stages.filter((s) => s.outcome).map((s) => s.id));
+  const since = startOfDay(now);
+  const load = new Map<string, OwnerLoad>();
+  for (const l of leads) {
+    if (!l.ownerId) continue;
+    const entry = load.get(l.ownerId) || { openLeads: 0, assignedToday: 0 };
+    if (!closed.has(l.status)) entry.openLeads++;
+    if (l.assignedAt && Date.parse(l.assignedAt) >= since)
+      entry.assignedToday++;
+    load.set(l.ownerId, entry);
+  }
+  return load;
+}
+
+function hasCapacity(s: Salesperson, load: OwnerLoad) {
+  return (
+    (s.maxOpenLeads == null || load.openLeads < s.maxOpenLeads) &&
+    (s.dailyCap == null || load.assignedToday < s.dailyCap)
+  );
+}
+
+// Lowest open load per unit of weight among those with room; ties keep team order
+function pickOwner(
+  team: Salesperson[],
+  load: Map<string, OwnerLoad>,
+  among?: string[],
+) {
+  let best: Salesperson | null = null;
+  let bestScore = Infinity;
+  for (const s of team) {
+    if (among && !among.includes(s.id)) continue;
+    const current = load.get(s.id)!;
+    if (!hasCapacity(s, current)) continue;
+    const score = current.openLeads / (s.weight || 1);
+    if (score < bestScore) {
+      bestScore = score;
+      best = s;
+    }
+  }
+  return best?.id ?? null;
+}
+
+/**
+ * Decides an owner for every unassigned lead without writing anything. Only
+ * people available at `now` are considered. The first matching rule with a
+ * target that has capacity wins; leads no rule can place go to whoever is
+ * least loaded. Leads planned earlier in the same run count towards load
+ * and caps.
+ */
+export function planAssignments(
+  leads: Lead[],
+  salespersons: Salesperson[],
+  rules: AssignmentRule[],
+  stages: PipelineStage[],
+  now = new Date(),
+): PlannedAssignment[] {
+  const team = salespersons.filter((s) => isAvailable(s, now));
+  if (team.length === 0) return [];
+  const counted = countLoad(leads, stages, now);
+  const load = new Map<string, OwnerLoad>();
+  for (const s of team)
+    load.set(s.id, counted.get(s.id) || { openLeads: 0, assignedToday: 0 });
+
+  const plan: PlannedAssignment[] = [];
+  for (const lead of leads) {
+    if (lead.ownerId) continue;
+    let ownerId: string | null = null;
+    let ruleId: string | null = null;
+    for (const rule of rules) {
+      if (!matchesRule(rule, lead)) continue;
+      ownerId = pickOwner(team, load, rule.targetIds);
+      if (ownerId) {
+        ruleId = rule.id;
+        break;
+      }
+    }
+    ownerId ??= pickOwner(team, load);
+    if (!ownerId) continue;
+    const current = load.get(ownerId)!;
+    current.openLeads++;
+    current.assignedToday++;
+    plan.push({ lead, ownerId, ruleId });
+  }
+  return plan;
+}
+
+export async function getAssignmentRules() {
+  return getStore().listAssignmentRules();
+}
+
+function validateCondition(c: AssignmentCondition, rule: string) {
+  if (typeof c?.field !== "string" || !c.field.trim())
+    return `${rule}: every condition needs a field`;
+  if (!ASSIGNMENT_OPERATORS.includes(c.op))
+    return `${rule}: operator must be one of ${ASSIGNMENT_OPERATORS.join(", ")}`;
+  if (c.op === "range") {
+    for (const bound of [c.min, c.max])
+      if (bound != null && !Number.isFinite(bound))
+        return `${rule}: range bounds must be numbers`;
+    if (c.min == null && c.max == null)
+      return `${rule}: a range needs a minimum or a maximum`;
+    if (c.min != null && c.max != null && c.min > c.max)
+      return `${rule}: range minimum is above the maximum`;
+    return null;
+  }
+  if (
+    !Array.isArray(c.values) ||
+    !c.values.some((v) => typeof v === "string" && v.trim())
+  )
+    return `${rule}: "${c.field}" needs at least one value`;
+  return null;
+}
+
+function validateRules(rules: unknown, known: Set<string>): string | null {
+  if (!Array.isArray(rules)) return "rules must be an array";
+  for (const [i, r] of (rules as AssignmentRule[]).entries()) {
+    const label = `rule ${i + 1}`;
+    if (!Array.isArray(r?.conditions))
+      return `${label}: conditions must be a list`;
+    for (const c of r.conditions) {
+      const error = validateCondition(c, label);
+      if (error) return error;
+    }
+    if (!Array.isArray(r.targetIds) || r.targetIds.length === 0)
+      return `${label}: pick a salesperson or a pool`;
+    const unknown = r.targetIds.find((id) => !known.has(id));
+    if (unknown) return `${label}: unknown salesperson "${unknown}"`;
+  }
+  return null;
+}
+
+function cleanCondition(c: AssignmentCondition): AssignmentCondition {
+  if (c.op === "range")
+    return {
+      field: c.field.trim(),
+      op: c.op,
+      min: c.min ?? null,
+      max: c.max ?? null,
+    };
+  return {
+    field: c.field.trim(),
+    op: c.op,
+    values: [...new Set(c.values!.map((v) => v.trim()).filter(Boolean))],
+  };
+}
+
+// Replaces the rule list; rules are stored in the order given
+export async function saveAssignmentRules(
+  input: AssignmentRule[],
+): Promise<{ rules: AssignmentRule[] } | { error: string }> {
+  const store = getStore();
+  const known = new Set((await store.listSalespersons()).map((s) => s.id));
+  const error = validateRules(input, known);
+  if (error) return { error };
+  const rules: AssignmentRule[] = input.map((r, order) => ({
+    id: r.id || randomUUID(),
+    name: r.name?.trim() || `Rule ${order + 1}`,
+    order,
+    active: r.active !== false,
+    conditions: r.conditions.map(cleanCondition),
+    targetIds: [...new Set(r.targetIds)],
+  }));
+  await store.saveAssignmentRules(rules);
+  return { rules };
+}
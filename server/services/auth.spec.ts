@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { createJsonStore } from "../stores/json";
+import { setStore } from "../stores";
+import {
+  SESSION_TTL_MS,
+  createSessionToken,
+  endSessions,
+  getSessionUser,
+  hashPassword,
+  issueSessionToken,
+  listUsers,
+  setupFirstAdmin,
+  updateUser,
+  verifyPassword,
+  verifySessionToken,
+} from "./auth";
+
+describe("passwords", () => {
+  it("verifies only the original password", async () => {
+    const hash = await hashPassword("correct horse");
+    expect(hash).toMatch(/^scrypt\$/);
+    expect(await verifyPassword("correct horse", hash)).toBe(true);
+    expect(await verifyPassword("wrong horse", hash)).toBe(false);
+  });
+
+  it("salts every hash", async () => {
+    expect(await hashPassword("same")).not.toBe(await hashPassword("same"));
+  });
+});
+
+describe("session tokens", () => {
+  const now = Date.parse("2025-01-01T00:00:00.000Z");
+
+  it("round-trips the user and session version until the token expires", () => {
+    const token = createSessionToken("u1", 2, now);
+    expect(verifySessionToken(token, now + 1000)).toEqual({
+      userId: "u1",
+      version: 2,
+    });
+    expect(verifySessionToken(token, now + SESSION_TTL_MS + 1)).toBeNull();
+  });
+
+  it("rejects tampered tokens", () => {
+    const [, version, expires, signature] = createSessionToken(
+      "u1",
+      0,
+      now,
+    ).split(".");
+    const token = (...parts: unknown[]) => [...parts, signature].join(".");
+    expect(verifySessionToken(token("u2", version, expires), now)).toBeNull();
+    expect(verifySessionToken(token("u1", 1, expires), now)).toBeNull();
+    expect(verifySessionToken(token("u1", version, now * 2), now)).toBeNull();
+    expect(verifySessionToken("garbage", now)).toBeNull();
+  });
+});
+
+describe("sessions and setup", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "crm-auth-"));
+    setStore(createJsonStore(dir));
+  });
+
+  afterEach(async () => {
+    setStore(null);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("creates a single admin when setup runs twice at once", async () => {
+    const results = await Promise.all([
+      setupFirstAdmin({ email: "a@x.io", password: "longenough" }),
+      setupFirstAdmin({ email: "b@x.io", password: "longenough" }),
+    ]);
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await listUsers()).toHaveLength(1);
+  });
+
+  it("ends issued sessions on logout, password and role changes", async () => {
+    const user = (await setupFirstAdmin({
+      email: "a@x.io",
+      password: "longenough",
+    }))!;
+    const signedIn = async () =>
+      getSessionUser(await issueSessionToken(user.id));
+
+    let token = await issueSessionToken(user.id);
+    await endSessions(user.id);
+    expect(await getSessionUser(token)).toBeNull();
+    expect(await signedIn()).toMatchObject({ id: user.id });
+
+    token = await issueSessionToken(user.id);
+    await updateUser(user.id, { name: "Renamed" });
+    expect(await getSessionUser(token)).toMatchObject({ name: "Renamed" });
+    await updateUser(user.id, { password: "another one" });
+    expect(await getSessionUser(token)).toBeNull();
+
+    token = await issueSessionToken(user.id);
+    await updateUser(user.id, { role: "manager" });
+    expect(await getSessionUser(token)).toBeNull();
+  });
+});
@@ -0,0 +1,285 @@
+import {
+  createHmac,
+  randomBytes,
+  randomUUID,
+  scrypt,
+  timingSafeEqual,
+} from "crypto";
+import { promisify } from "util";
+import type {
+  CreateUserRequest,
+  UpdateUserRequest,
+  User,
+  ValidationIssue,
+} from "@shared/api";
+import { getStore, type UserRecord } from "../stores";
+import { ValidationError } from "./errors";
+import { USER_ROLES } from "./access";
+import { createMutex } from "../utils/mutex";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Without SESSION_SECRET every restart signs everyone out
+let sessionSecret = process.env.SESSION_SECRET;
+function secret() {
+  if (!sessionSecret) {
+    console.warn("SESSION_SECRET is not set; sessions end on restart");
+    sessionSecret = randomBytes(32).toString("hex");
+  }
+  return sessionSecret;
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length,
+  );
+  return timingSafeEqual(actual, expected);
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", secret()).update(payload).digest("base64url");
+}
+
+/**
+ * "<userId>.<sessionVersion>.<expiresAt ms>.<signature>". Only the user's
+ * session version is stored: bumping it ends every token issued before.
+ */
+export function createSessionToken(
+  userId: string,
+  version = 0,
+  now = Date.now(),
+) {
+  const payload = `${userId}.${version}.${now + SESSION_TTL_MS}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+// The user id and session version of a valid, unexpired token
+export function verifySessionToken(token: string, now = Date.now()) {
+  const [userId, version, expires, signature] = token.split(".");
+  if (!userId || !version || !expires || !signature) return null;
+  const expected = Buffer.from(sign(`${userId}.${version}.${expires}`));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected))
+    return null;
+  return Number(expires) > now ? { userId, version: Number(version) } : null;
+}
+
+// A token for the user's current session version
+export async function issueSessionToken(userId: string) {
+  const record = await getStore().getUser(userId);
+  return createSessionToken(userId, record?.sessionVersion ?? 0);
+}
+
+// Signs the user out everywhere: tokens issued so far stop working
+export async function endSessions(userId: string) {
+  const record = await getStore().getUser(userId);
+  if (!record) return;
+  await getStore().upsertUsers([
+    { ...record, sessionVersion: (record.sessionVersion ?? 0) + 1 },
+  ]);
+}
+
+export function toUser(record: UserRecord): User {
+  const { passwordHash: _hash, sessionVersion: _version, ...user } = record;
+  return user;
+}
+
+export async function listUsers(): Promise<User[]> {
+  return (await getStore().listUsers()).map(toUser);
+}
+
+// Deleted accounts lose their sessions because the user no longer loads
+export async function getSessionUser(token: string) {
+  const session = verifySessionToken(token);
+  if (!session) return null;
+  const record = await getStore().getUser(session.userId);
+  if (!record || (record.sessionVersion ?? 0) !== session.version) return null;
+  return toUser(record);
+}
+
+export async function isSetupRequired() {
+  return (await getStore().listUsers()).length === 0;
+}
+
+// Two setup requests at once must not both find no users and both add one
+const accountSetup = createMutex();
+
+// Creates the first account as admin; null once any account exists
+export async function setupFirstAdmin(
+  input: Omit<CreateUserRequest, "role">,
+): Promise<User | null> {
+  return accountSetup(async () => {
+    if (!(await isSetupRequired())) return null;
+    return createUser({ ...input, role: "admin" });
+  });
+}
+
+// Returns null when the email or password is wrong
+export async function authenticate(email: string, password: string) {
+  const record = await getStore().getUserByEmail(email.trim().toLowerCase());
+  if (!record || !(await verifyPassword(password, record.passwordHash)))
+    return null;
+  return toUser(record);
+}
+
+async function checkUser(
+  input: UpdateUserRequest,
+  current: UserRecord | null,
+): Promise<ValidationIssue[]> {
+  const issues: ValidationIssue[] = [];
+  const store = getStore();
+  if (input.email !== undefined) {
+    const email = input.email.trim().toLowerCase();
+    if (!EMAIL_RE.test(email))
+      issues.push({
+        field: "email",
+        code: "invalid",
+        message: `"${input.email}" is not a valid email address`,
+      });
+    else {
+      const owner = await store.getUserByEmail(email);
+      if (owner && owner.id !== current?.id)
+        issues.push({
+          field: "email",
+          code: "invalid",
+          message: `${email} already has an account`,
+        });
+    }
+  }
+  if (
+    input.password !== undefined &&
+    input.password.length < MIN_PASSWORD_LENGTH
+  )
+    issues.push({
+      field: "password",
+      code: "invalid",
+      message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    });
+  if (input.role !== undefined && !USER_ROLES.includes(input.role))
+    issues.push({
+      field: "role",
+      code: "invalid",
+      message: `role must be one of ${USER_ROLES.join(", ")}`,
+    });
+  if (input.salespersonId && !(await store.getSalesperson(input.salespersonId)))
+    issues.push({
+      field: "salespersonId",
+      code: "invalid",
+      message: "Salesperson not found",
+    });
+  return issues;
+}
+
+async function defaultName(
+  name: string | undefined,
+  salespersonId: string | null,
+  email: string,
+) {
+  if (name?.trim()) return name.trim();
+  const person = salespersonId
+    ? await getStore().getSalesperson(salespersonId)
+    : null;
+  return person?.name || email;
+}
+
+export async function createUser(input: CreateUserRequest): Promise<User> {
+  const issues = await checkUser(input, null);
+  if (issues.length > 0) throw new ValidationError(issues);
+  const email = input.email.trim().toLowerCase();
+  const salespersonId = input.salespersonId || null;
+  const now = new Date().toISOString();
+  const record: UserRecord = {
+    id: randomUUID(),
+    email,
+    name: await defaultName(input.name, salespersonId, email),
+    role: input.role || "salesperson",
+    salespersonId,
+    passwordHash: await hashPassword(input.password),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getStore().upsertUsers([record]);
+  return toUser(record);
+}
+
+export async function updateUser(
+  id: string,
+  patch: UpdateUserRequest,
+): Promise<User | null> {
+  const store = getStore();
+  const current = await store.getUser(id);
+  if (!current) return null;
+  const issues = await checkUser(patch, current);
+  if (issues.length > 0) throw new ValidationError(issues);
+  const email =
+    patch.email !== undefined
+      ? patch.email.trim().toLowerCase()
+      : current.email;
+  const salespersonId =
+    patch.salespersonId !== undefined
+      ? patch.salespersonId || null
+      : current.salespersonId;
+  const role = patch.role || current.role;
+  // a new password or role ends the sessions signed in with the old ones
+  const revoke = !!patch.password || role !== current.role;
+  const updated: UserRecord = {
+    ...current,
+    email,
+    salespersonId,
+    role,
+    sessionVersion: (current.sessionVersion ?? 0) + (revoke ? 1 : 0),
+    name:
+      patch.name !== undefined
+        ? await defaultName(patch.name, salespersonId, email)
+        : current.name,
+    passwordHash: patch.password
+      ? await hashPassword(patch.password)
+      : current.passwordHash,
+    updatedAt: new Date().toISOString(),
+  };
+  await store.upsertUsers([updated]);
+  return toUser(updated);
+}
+
+// Salespersons managed by a deleted manager are left without a manager
+export async function deleteUser(id: string) {
+  const store = getStore();
+  await store.deleteUser(id);
+  const managed = (await store.listSalespersons()).filter(
+    (s) => s.managerId === id,
+  );
+  await store.upsertSalespersons(
+    managed.map((s) => ({ ...s, managerId: null })),
+  );
+}
+
+// Called when a salesperson is removed; their accounts stay but act as no one
+export async function unlinkSalesperson(salespersonId: string) {
+  const store = getStore();
+  const linked = (await store.listUsers()).filter(
+    (u) => u.salespersonId === salespersonId,
+  );
+  const now = new Date().toISOString();
+  await store.upsertUsers(
+    linked.map((u) => ({ ...u, salespersonId: null, updatedAt: now })),
+  );
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import type { Availability, Salesperson } from "@shared/api";
+import {
+  addWorkingMinutes,
+  checkAvailability,
+  isAvailable,
+  isOnLeave,
+  localTime,
+} from "./availability";
+
+function person(availability: Availability | null, active = true): Salesperson {
+  return {
+    id: "p1",
+    name: "P",
+    active,
+    availability,
+    createdAt: "2025-01-01T00:00:00.000Z",
+  };
+}
+
+// Monday 2025-03-03, 10:00 in Kolkata (UTC+05:30)
+const MONDAY_10AM = new Date("2025-03-03T04:30:00.000Z");
+const KOLKATA = "Asia/Kolkata";
+
+describe("localTime", () => {
+  it("reads the wall clock in the given zone", () => {
+    expect(localTime(MONDAY_10AM, KOLKATA)).toEqual({
+      date: "2025-03-03",
+      weekday: 1,
+      minutes: 600,
+    });
+    expect(localTime(MONDAY_10AM, "America/New_York").date).toBe("2025-03-02");
+  });
+});
+
+describe("isAvailable", () => {
+  it("treats active people without a calendar as available", () => {
+    expect(isAvailable(person(null), MONDAY_10AM)).toBe(true);
+    expect(isAvailable(person(null, false), MONDAY_10AM)).toBe(false);
+  });
+
+  it("checks working hours, including overnight shifts", () => {
+    const hours = (start: string, end: string) =>
+      isAvailable(
+        person({ timeZone: KOLKATA, workingHours: { start, end } }),
+        MONDAY_10AM,
+      );
+    expect(hours("09:00", "18:00")).toBe(true);
+    expect(hours("10:30", "18:00")).toBe(false);
+    expect(hours("22:00", "10:30")).toBe(true);
+    expect(hours("22:00", "10:00")).toBe(false);
+  });
+
+  it("skips weekly off days and leave", () => {
+    expect(
+      isAvailable(person({ timeZone: KOLKATA, offDays: [1] }), MONDAY_10AM),
+    ).toBe(false);
+    const away = person({
+      timeZone: KOLKATA,
+      leave: [{ from: "2025-03-01", to: "2025-03-03" }],
+    });
+    expect(isOnLeave(away, MONDAY_10AM)).toBe(true);
+    expect(isAvailable(away, MONDAY_10AM)).toBe(false);
+    expect(isAvailable(away, new Date("2025-03-03T19:00:00.000Z"))).toBe(true);
+  });
+});
+
+describe("addWorkingMinutes", () => {
+  const OFFICE: Availability = {
+    timeZone: KOLKATA,
+    workingHours: { start: "09:00", end: "18:00" },
+    offDays: [0, 6],
+  };
+
+  it("skips nights, off days and leave", () => {
+    // Friday 17:50 local: 10 minutes that day, 20 from Monday 09:00
+    const friday = new Date("2025-03-07T12:20:00.000Z");
+    expect(addWorkingMinutes(person(OFFICE), friday, 30).toISOString()).toBe(
+      "2025-03-10T03:50:00.000Z",
+    );
+    const away = person({
+      ...OFFICE,
+      leave: [{ from: "2025-03-10", to: "2025-03-11" }],
+    });
+    expect(addWorkingMinutes(away, friday, 30).toISOString()).toBe(
+      "2025-03-12T03:50:00.000Z",
+    );
+  });
+
+  it("runs on the wall clock after two weeks without working time", () => {
+    const away = person({
+      ...OFFICE,
+      leave: [{ from: "2025-03-01", to: "2025-04-30" }],
+    });
+    expect(addWorkingMinutes(away, MONDAY_10AM, 30).toISOString()).toBe(
+      "2025-03-17T05:00:00.000Z",
+    );
+  });
+});
+
+describe("checkAvailability", () => {
+  it("accepts a full calendar", () => {
+    expect(
+      checkAvailability({
+        timeZone: KOLKATA,
+        workingHours: { start: "09:00", end: "18:00" },
+        offDays: [0, 6],
+        leave: [{ from: "2025-03-01", to: "2025-03-03" }],
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports each bad value", () => {
+    const issues = checkAvailability({
+      timeZone: "Mars/Olympus",
+      workingHours: { start: "9am", end: "18:00" },
+      offDays: [7],
+      leave: [{ from: "2025-03-05", to: "2025-03-01" }],
+    });
+    expect(issues.map((i) => i.field)).toEqual([
+      "availability.timeZone",
+      "availability.workingHours",
+      "availability.offDays",
+      "availability.leave",
+    ]);
+  });
+});
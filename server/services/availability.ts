@@ -0,0 +1,170 @@
+import type { Availability, Salesperson, ValidationIssue } from "@shared/api";
+
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday
+  minutes: number; // since local midnight
+}
+
+// SLA timers call localTime for every stretch walked, so formatters are reused
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone?: string) {
+  const key = timeZone || "";
+  let f = formatters.get(key);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone: timeZone || undefined,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(key, f);
+  }
+  return f;
+}
+
+// Wall-clock time at `now` in timeZone (the server's own zone when empty)
+export function localTime(now: Date, timeZone?: string): LocalTime {
+  const parts = formatter(timeZone).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)!.value;
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+function toMinutes(hhmm: string) {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+}
+
+export function isOnLeave(s: Salesperson, now = new Date()) {
+  const leave = s.availability?.leave || [];
+  if (leave.length === 0) return false;
+  const { date } = localTime(now, s.availability?.timeZone);
+  // ISO dates compare correctly as strings
+  return leave.some((r) => r.from <= date && date <= r.to);
+}
+
+/**
+ * Whether `now` falls in the working time of `s`: not on leave, not on a
+ * weekly off day and inside working hours. Hours ending before they start
+ * run overnight. People without a calendar are always working.
+ */
+export function isWorkingTime(s: Salesperson, now = new Date()) {
+  const av = s.availability;
+  if (!av) return true;
+  if (isOnLeave(s, now)) return false;
+  const local = localTime(now, av.timeZone);
+  if ((av.offDays || []).includes(local.weekday)) return false;
+  if (!av.workingHours) return true;
+  const start = toMinutes(av.workingHours.start);
+  const end = toMinutes(av.workingHours.end);
+  return start <= end
+    ? local.minutes >= start && local.minutes < end
+    : local.minutes >= start || local.minutes < end;
+}
+
+// Whether auto-assign may give `s` a lead at `now`
+export function isAvailable(s: Salesperson, now = new Date()) {
+  return s.active && isWorkingTime(s, now);
+}
+
+const MINUTE = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+// Longest stretch walked; past it the time counts in full
+const MAX_WALK = 14 * DAY_MINUTES;
+
+/**
+ * Whether `s` is working at `t` (a whole minute) and for how many minutes
+ * that stays so at most: until working hours start or end, or the local day
+ * changes and with it leave and off days.
+ */
+function workingStretch(s: Salesperson, t: Date) {
+  const av = s.availability;
+  if (!av) return { working: true, minutes: Infinity };
+  const local = localTime(t, av.timeZone);
+  const boundaries = [DAY_MINUTES];
+  if (av.workingHours)
+    boundaries.push(
+      toMinutes(av.workingHours.start),
+      toMinutes(av.workingHours.end),
+    );
+  const next = Math.min(...boundaries.filter((b) => b > local.minutes));
+  return { working: isWorkingTime(s, t), minutes: next - local.minutes };
+}
+
+/**
+ * When `minutes` of the working time of `s` have passed after `from`. After
+ * two weeks without enough working time (long leave, say) the remaining
+ * minutes run on the wall clock.
+ */
+export function addWorkingMinutes(s: Salesperson, from: Date, minutes: number) {
+  let t = Math.ceil(from.getTime() / MINUTE) * MINUTE;
+  let left = minutes;
+  // whole working and off stretches at a time, a few per day walked
+  for (let walked = 0; left > 0 && walked < MAX_WALK; ) {
+    const stretch = workingStretch(s, new Date(t));
+    const step = Math.min(
+      stretch.minutes,
+      MAX_WALK - walked,
+      stretch.working ? left : Infinity,
+    );
+    if (stretch.working) left -= step;
+    walked += step;
+    t += step * MINUTE;
+  }
+  return new Date(t + left * MINUTE);
+}
+
+function isTimeZone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function checkAvailability(
+  av: Availability | null | undefined,
+): ValidationIssue[] {
+  if (!av) return [];
+  const issues: ValidationIssue[] = [];
+  const invalid = (field: string, message: string) =>
+    issues.push({ field: `availability.${field}`, code: "invalid", message });
+  if (av.timeZone && !isTimeZone(av.timeZone))
+    invalid("timeZone", `Unknown time zone "${av.timeZone}"`);
+  if (av.workingHours) {
+    const { start, end } = av.workingHours;
+    if (!TIME_RE.test(start || "") || !TIME_RE.test(end || ""))
+      invalid("workingHours", "Working hours must be HH:MM");
+    else if (start === end)
+      invalid("workingHours", "Working hours must not start and end together");
+  }
+  if (
+    av.offDays !== undefined &&
+    !(
+      Array.isArray(av.offDays) &&
+      av.offDays.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+    )
+  )
+    invalid("offDays", "Off days are weekday numbers from 0 (Sunday) to 6");
+  for (const r of av.leave || []) {
+    if (!DATE_RE.test(r?.from || "") || !DATE_RE.test(r?.to || ""))
+      invalid("leave", "Leave dates must be YYYY-MM-DD");
+    else if (r.from > r.to)
+      invalid("leave", `Leave from ${r.from} ends before it starts`);
+  }
+  return issues;
+}
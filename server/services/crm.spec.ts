@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { createJsonStore } from "../stores/json";
+import { getStore, setStore } from "../stores";
+import { importFromCsvRows, previewImport, updateLead } from "./crm";
+
+describe("sheet imports", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "crm-import-"));
+    setStore(createJsonStore(dir));
+  });
+
+  afterEach(async () => {
+    setStore(null);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("updates contact details but keeps the stage and notes of known leads", async () => {
+    const row = { Name: "Asha", Email: "asha@x.io", Status: "new", Notes: "" };
+    await importFromCsvRows([row]);
+    const [lead] = await getStore().listLeads();
+    expect(lead.status).toBe("new");
+    await updateLead(lead.id, { status: "call", notes: "Call after 5" });
+
+    const result = await importFromCsvRows([
+      { ...row, Name: "Asha Rao", Status: "lost", Notes: "From the sheet" },
+    ]);
+    expect(result).toMatchObject({ imported: 0, updated: 1 });
+    const [synced] = await getStore().listLeads();
+    expect(synced).toMatchObject({
+      id: lead.id,
+      name: "Asha Rao",
+      status: "call",
+      notes: "Call after 5",
+    });
+  });
+
+  it("leaves leads the sheet does not change alone on a second import", async () => {
+    const rows = [{ Name: "Asha", Email: "asha@x.io", City: "Pune" }];
+    await importFromCsvRows(rows);
+    const [lead] = await getStore().listLeads();
+
+    const preview = await previewImport(rows, ["Name", "Email", "City"], "");
+    expect(preview).toMatchObject({ updated: 0, unchanged: 1 });
+    expect(preview.rows[0]).toMatchObject({
+      action: "unchanged",
+      leadId: lead.id,
+    });
+    const result = await importFromCsvRows(rows);
+    expect(result).toMatchObject({ imported: 0, updated: 0 });
+    const [again] = await getStore().listLeads();
+    expect(again.updatedAt).toBe(lead.updatedAt);
+  });
+
+  it("keeps edited contact details through later updates", async () => {
+    await importFromCsvRows([{ Name: "Asha", Email: "asha@x.io" }]);
+    const [lead] = await getStore().listLeads();
+    await updateLead(lead.id, { name: "Asha Rao", notes: "Prefers calls" });
+    await updateLead(lead.id, { status: "call" });
+    expect(await getStore().getLead(lead.id)).toMatchObject({
+      name: "Asha Rao",
+      status: "call",
+      notes: "Prefers calls",
+    });
+
+    const cleared = await updateLead(lead.id, { email: "", notes: "" });
+    expect(cleared.email).toBeUndefined();
+    expect(cleared.notes).toBeUndefined();
+  });
+});
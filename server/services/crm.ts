@@ -1,332 +1,97 @@
-import { readJSON, writeJSON } from "../utils/storage";
 import { randomUUID } from "crypto";
-import type { Lead, LeadStatus, Salesperson, ConfigState } from "@shared/api";
-
-export interface CRMState {
-  leads: Lead[];
-  salespersons: Salesperson[];
-  config: ConfigState;
-}
-
-const DEFAULT_STATE: CRMState = {
-  leads: [],
-  salespersons: [],
-  config: {
-    sheetUrl:
-      "https://docs.google.com/spreadsheets/d/1QY8_Q8-ybLKNVs4hynPZslZDwUfC-PIJrViJfL0-tpM/export?format=csv",
-    lastSyncAt: undefined,
-  },
-};
-
-const FILE_LEADS = "leads.json";
-const FILE_SALESPERSONS = "salespersons.json";
-const FILE_CONFIG = "config.json";
-
-const SUPABASE_URL = process.env.SUPABASE_URL;
-const SUPABASE_SERVICE_ROLE = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-function hasSupabase() {
-  return !!SUPABASE_URL && !!SUPABASE_SERVICE_ROLE;
-}
-
-async function supabaseFetch(path: string, opts: RequestInit = {}) {
-  const url = `${SUPABASE_URL.replace(/\/+$/, "")}/rest/v1/${path}`;
-  const headers: Record<string, string> = {
-    apikey: SUPABASE_SERVICE_ROLE || "",
-    Authorization: `Bearer ${SUPABASE_SERVICE_ROLE || ""}`,
-    "Content-Type": "application/json",
-    Prefer: "return=representation",
-  };
-  opts.headers = { ...(opts.headers || {}), ...headers } as any;
-  const res = await fetch(url, opts);
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Supabase error ${res.status}: ${text}`);
-  }
-  return res;
-}
-
-async function supabaseListLeads(): Promise<Lead[]> {
-  const res = await supabaseFetch("leads?select=*&order=created_at.desc");
-  const data = await res.json();
-  // ensure types
-  return (data || []).map((d: any) => ({
-    id: d.id,
-    fields: d.fields || {},
-    name: d.name,
-    email: d.email || undefined,
-    phone: d.phone || undefined,
-    company: d.company || undefined,
-    source: d.source || undefined,
-    status: d.status || "new",
-    ownerId: d.owner_id || null,
-    notes: d.notes || undefined,
-    createdAt: d.created_at,
-    updatedAt: d.updated_at,
-  }));
-}
-
-async function supabaseGetSalespersons(): Promise<Salesperson[]> {
-  const res = await supabaseFetch("salespersons?select=*&order=name.asc");
-  const data = await res.json();
-  return (data || []).map((d: any) => ({
-    id: d.id,
-    name: d.name,
-    email: d.email || undefined,
-    active: !!d.active,
-    createdAt: d.created_at,
-  }));
-}
-
-async function supabaseGetConfig(): Promise<ConfigState> {
-  try {
-    const res = await supabaseFetch("config?select=*&limit=1");
-    const data = await res.json();
-    const row = (data && data[0]) || {};
-    return {
-      sheetUrl: row.sheet_url || undefined,
-      lastSyncAt: row.last_sync_at || undefined,
-      headers: row.headers || undefined,
-    };
-  } catch (e) {
-    return DEFAULT_STATE.config;
-  }
-}
+import type {
+  AssignmentPreviewResponse,
+  Lead,
+  LeadActivity,
+  ValidationIssue,
+  ColumnMapping,
+  ImportPreviewResponse,
+  ImportPreviewRow,
+  MergeField,
+  MergeLeadsRequest,
+  Paginated,
+  Salesperson,
+  SalespersonLoad,
+  ConfigState,
+} from "@shared/api";
+// relative, not @shared: vite.config.ts loads the server without the alias
+import {
+  MAPPED_FIELDS,
+  resolveColumnMapping,
+} from "../../shared/column-mapping";
+import {
+  dedupeKeys,
+  junkReason,
+  readLeadRow,
+  sheetUpdate,
+} from "../../shared/import";
+import {
+  DEFAULT_COUNTRY_CODE,
+  normalizePhone,
+  phoneSearchTerm,
+  toE164,
+} from "../../shared/phone";
+import { getStore, type CRMState, type LeadQuery } from "../stores";
+import { createMutex } from "../utils/mutex";
+import {
+  ACTOR_AUTO_ASSIGN,
+  ACTOR_SHEET_SYNC,
+  ACTOR_SLA,
+  ACTOR_USER,
+  diffLead,
+  leadActivity,
+  recordActivity,
+} from "./activity";
+import { deleteLeadTasks, moveLeadTasks } from "./tasks";
+import { checkStageRules, getPipeline, resolveStage } from "./pipeline";
+import { ValidationError } from "./errors";
+import { unlinkSalesperson } from "./auth";
+import { countLoad, planAssignments } from "./assignment";
+import { checkAvailability, isOnLeave } from "./availability";
+import { findSlaBreaches } from "./sla";
+
+export type { CRMState } from "../stores";
+
+// Lead mutations that read before they write run one at a time, so a
+// background sheet sync cannot overwrite an edit made while it was running.
+const leadWrites = createMutex();
 
 export async function getState(): Promise<CRMState> {
-  if (hasSupabase()) {
-    try {
-      const [leads, salespersons, config] = await Promise.all([
-        supabaseListLeads(),
-        supabaseGetSalespersons(),
-        supabaseGetConfig(),
-      ]);
-      return { leads, salespersons, config };
-    } catch (e) {
-      // fallback
-    }
-  }
-
+  const store = getStore();
   const [leads, salespersons, config] = await Promise.all([
-    readJSON<Lead[]>(FILE_LEADS, DEFAULT_STATE.leads),
-    readJSON<Salesperson[]>(FILE_SALESPERSONS, DEFAULT_STATE.salespersons),
-    readJSON<ConfigState>(FILE_CONFIG, DEFAULT_STATE.config),
+    store.listLeads(),
+    store.listSalespersons(),
+    store.getConfig(),
   ]);
   return { leads, salespersons, config };
 }
 
-function getFieldValue(
-  fields: Record<string, string | undefined>,
-  candidates: string[],
-) {
-  for (const c of candidates) {
-    if (!c) continue;
-    if (
-      fields[c] !== undefined &&
-      fields[c] !== null &&
-      String(fields[c]).trim() !== ""
-    )
-      return String(fields[c]);
-  }
-  return undefined;
-}
-
-function sanitizeKey(k?: string) {
-  if (!k) return "";
-  return k
-    .replace(/[^a-z0-9]+/gi, "_")
-    .replace(/^_+|_+$/g, "")
-    .toLowerCase();
-}
-
 export async function saveLeads(leads: Lead[]) {
-  if (hasSupabase()) {
-    try {
-      // Upsert each lead individually (simple and robust)
-      for (const l of leads) {
-        const fields = l.fields || {};
-        // candidates mapping - check common header variations
-        const whatType = getFieldValue(fields, [
-          "what_type_of_property_do_you_want_to_install_solar_on?",
-          "what_type_of_property",
-          "what type of property do you want to install solar on?",
-          "property_type",
-        ]);
-        const avgBill = getFieldValue(fields, [
-          "what_is_your_average_monthly_electricity_bill?",
-          "average_monthly_bill",
-          "what is your average monthly electricity bill?",
-        ]);
-        const fullName = getFieldValue(fields, [
-          "full name",
-          "Full Name",
-          "name",
-          "Name",
-        ]);
-        const phoneField = getFieldValue(fields, [
-          "phone",
-          "Phone",
-          "mobile",
-          "Mobile",
-        ]);
-        const emailField = getFieldValue(fields, [
-          "email",
-          "Email",
-          "e-mail",
-          "E-mail",
-        ]);
-        const street = getFieldValue(fields, [
-          "street address",
-          "street_address",
-          "Street Address",
-        ]);
-        const postCode = getFieldValue(fields, [
-          "post_code",
-          "post code",
-          "Post Code",
-        ]);
-        const leadStatusField = getFieldValue(fields, [
-          "lead_status",
-          "Lead Status",
-          "lead status",
-          "status",
-        ]);
-        const note1 = getFieldValue(fields, ["note1", "note 1", ""]);
-        const note2 = getFieldValue(fields, ["note2", "note 2", ""]);
-
-        const body: any = {
-          id: l.id,
-          fields: fields || {},
-          name: l.name || fullName || null,
-          email: l.email || emailField || null,
-          phone: l.phone || phoneField || null,
-          company: l.company || null,
-          source: l.source || null,
-          status: l.status || (leadStatusField as LeadStatus) || "new",
-          owner_id: l.ownerId || null,
-          notes: l.notes || null,
-          created_at: l.createdAt,
-          updated_at: l.updatedAt,
-        };
-
-        // add top-level sheet columns if available (these columns should exist in DB schema)
-        if (whatType) body.what_type_of_property = whatType;
-        if (avgBill) body.average_monthly_bill = avgBill;
-        if (fullName) body.full_name = fullName;
-        if (street) body.street_address = street;
-        if (postCode) body.post_code = postCode;
-        if (note1) body.note1 = note1;
-        if (note2) body.note2 = note2;
-        if (leadStatusField) body.lead_status = leadStatusField;
-
-        // upsert via POST with on_conflict requires query param ?on_conflict=id
-        await supabaseFetch("leads?on_conflict=id", {
-          method: "POST",
-          body: JSON.stringify(body),
-        });
-      }
-      return;
-    } catch (e) {
-      // fallback to file
-    }
-  }
-  await writeJSON(FILE_LEADS, leads);
+  await getStore().upsertLeads(leads);
 }
 
 export async function saveSalespersons(salespersons: Salesperson[]) {
-  if (hasSupabase()) {
-    try {
-      for (const s of salespersons) {
-        const body = {
-          id: s.id,
-          name: s.name,
-          email: s.email || null,
-          active: s.active,
-          created_at: s.createdAt,
-        };
-        await supabaseFetch("salespersons?on_conflict=id", {
-          method: "POST",
-          body: JSON.stringify(body),
-        });
-      }
-      return;
-    } catch (e) {
-      // fallback
-    }
-  }
-  await writeJSON(FILE_SALESPERSONS, salespersons);
+  await getStore().upsertSalespersons(salespersons);
 }
 
 export async function saveConfig(config: ConfigState) {
-  if (hasSupabase()) {
-    try {
-      const body = {
-        id: 1,
-        sheet_url: config.sheetUrl || null,
-        last_sync_at: config.lastSyncAt || null,
-        headers: config.headers || null,
-      };
-      await supabaseFetch("config?on_conflict=id", {
-        method: "POST",
-        body: JSON.stringify(body),
-      });
-      return;
-    } catch (e) {
-      // fallback
-    }
-  }
-  await writeJSON(FILE_CONFIG, config);
+  await getStore().saveConfig(config);
 }
 
-export async function listLeads(): Promise<Lead[]> {
-  const state = await getState();
-  const leads = state.leads;
-  const filtered = leads.filter((l) => {
-    const vals = Object.values(l.fields || {}).map((v) =>
-      (v || "").toString().trim(),
-    );
-    const nonEmpty = vals.filter((v) => v !== "");
-    if (nonEmpty.length === 0) return false;
-
-    // Check if only one non-empty value - likely junk
-    if (nonEmpty.length === 1) {
-      const v = nonEmpty[0];
-      const dateLike =
-        /^\d{1,2}[\-/]\d{1,2}[\-/]\d{2,4}$/.test(v) ||
-        /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i.test(v) ||
-        /^`\d{2}-\d{2}-\d{4}$/.test(v);
-      const totalLike = /^sum|^total|^subtotal/i.test(v);
-      const numericOnly = /^[-+]?\d{1,3}(?:[\,\d]*)(?:\.\d+)?$/.test(
-        v.replace(/\s+/g, ""),
-      );
-      if (dateLike || totalLike || numericOnly) return false;
-    }
-
-    // Also check if this is a real lead (has name, email or phone)
-    const hasRealData = !!(l.name || l.email || l.phone);
-    if (!hasRealData) {
-      // If no name, email or phone, at least need 3+ meaningful fields
-      const keyFields = [
-        "full name",
-        "phone",
-        "email",
-        "what_is_your_average_monthly_electricity_bill?",
-        "what_type_of_property_do_you_want_to_install_solar_on?",
-      ];
-      const realFieldCount = keyFields.filter(
-        (k) => (l.fields?.[k] || "").toString().trim() !== "",
-      ).length;
-      if (realFieldCount < 2) return false;
-    }
+// A phone number search finds the lead however its number was written
+export async function queryLeads(query: LeadQuery): Promise<Paginated<Lead>> {
+  return getStore().queryLeads(
+    query.q ? { ...query, q: phoneSearchTerm(query.q) } : query,
+  );
+}
 
-    return true;
-  });
-  return filtered.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+export async function getLead(id: string) {
+  return getStore().getLead(id);
 }
 
 export async function listSalespersons(): Promise<Salesperson[]> {
-  const state = await getState();
-  return state.salespersons.sort((a, b) => a.name.localeCompare(b.name));
+  const items = await getStore().listSalespersons();
+  return items.sort((a, b) => a.name.localeCompare(b.name));
 }
 
 export async function createSalesperson(
@@ -340,19 +105,7 @@ export async function createSalesperson(
     active: true,
     createdAt: now,
   };
-  if (hasSupabase()) {
-    try {
-      await supabaseFetch("salespersons", {
-        method: "POST",
-        body: JSON.stringify(person),
-      });
-      return person;
-    } catch (e) {
-      // continue to file fallback
-    }
-  }
-  const state = await getState();
-  await saveSalespersons([...state.salespersons, person]);
+  await saveSalespersons([person]);
   return person;
 }
 
@@ -360,59 +113,81 @@ export async function updateSalesperson(
   id: string,
   patch: Partial<Salesperson>,
 ) {
-  if (hasSupabase()) {
-    try {
-      const supabasePatch: any = { ...patch };
-      if (supabasePatch.createdAt !== undefined) {
-        supabasePatch.created_at = supabasePatch.createdAt;
-        delete supabasePatch.createdAt;
-      }
-      await supabaseFetch(`salespersons?id=eq.${id}`, {
-        method: "PATCH",
-        body: JSON.stringify(supabasePatch),
-      });
-      const items = await supabaseGetSalespersons();
-      const updated = items.find((s) => s.id === id) || null;
-      return updated;
-    } catch (e) {
-      // fallback
-    }
-  }
-  const state = await getState();
-  const idx = state.salespersons.findIndex((s) => s.id === id);
-  if (idx === -1) return null;
-  const updated = { ...state.salespersons[idx], ...patch } as Salesperson;
-  state.salespersons[idx] = updated;
-  await saveSalespersons(state.salespersons);
+  const invalid = [
+    ...checkCapacityFields(patch),
+    ...checkAvailability(patch.availability),
+  ];
+  if (invalid.length > 0) throw new ValidationError(invalid);
+  const current = await getStore().getSalesperson(id);
+  if (!current) return null;
+  const updated = { ...current, ...patch, id } as Salesperson;
+  await saveSalespersons([updated]);
   return updated;
 }
 
-export async function deleteSalesperson(id: string) {
-  if (hasSupabase()) {
-    try {
-      await supabaseFetch(`salespersons?id=eq.${id}`, { method: "DELETE" });
-      // unassign leads
-      await supabaseFetch(`leads?owner_id=eq.${id}`, {
-        method: "PATCH",
-        body: JSON.stringify({ owner_id: null }),
+// Weight must be positive; limits are whole numbers, or null for no limit
+export function checkCapacityFields(
+  patch: Partial<Salesperson>,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (
+    patch.weight !== undefined &&
+    !(typeof patch.weight === "number" && patch.weight > 0)
+  )
+    issues.push({
+      field: "weight",
+      code: "invalid",
+      message: "Weight must be a number above 0",
+    });
+  for (const key of ["maxOpenLeads", "dailyCap"] as const) {
+    const value = patch[key];
+    if (value === undefined || value === null) continue;
+    if (!Number.isInteger(value) || value < 0)
+      issues.push({
+        field: key,
+        code: "invalid",
+        message: `${key} must be a whole number of leads`,
       });
-      return true;
-    } catch (e) {
-      // fallback
-    }
   }
-  const state = await getState();
-  const next = state.salespersons.filter((s) => s.id !== id);
-  await saveSalespersons(next);
-  const leads = state.leads.map((l) =>
-    l.ownerId === id ? { ...l, ownerId: null } : l,
-  );
-  await saveLeads(leads);
+  return issues;
+}
+
+// Open leads and today's assignments per salesperson, as auto-assign counts them
+export async function getTeamLoad(): Promise<SalespersonLoad[]> {
+  const store = getStore();
+  const [leads, salespersons, stages] = await Promise.all([
+    store.listLeads(),
+    store.listSalespersons(),
+    getPipeline(),
+  ]);
+  const load = countLoad(leads, stages);
+  return salespersons.map((s) => ({
+    salespersonId: s.id,
+    openLeads: load.get(s.id)?.openLeads ?? 0,
+    assignedToday: load.get(s.id)?.assignedToday ?? 0,
+  }));
+}
+
+export async function deleteSalesperson(id: string, actor = ACTOR_USER) {
+  const store = getStore();
+  await store.deleteSalesperson(id);
+  await unlinkSalesperson(id);
+  // unassign leads
+  await leadWrites(async () => {
+    const now = new Date().toISOString();
+    const owned = (await store.listLeads()).filter((l) => l.ownerId === id);
+    const orphaned = owned.map((l) => handOver(l, null, now));
+    await saveLeads(orphaned);
+    await recordActivity(
+      orphaned.map((l, i) => leadActivity(owned[i], l, "assign", actor)),
+    );
+  });
   return true;
 }
 
-export async function createLead(input: Partial<Lead>) {
+export async function createLead(input: Partial<Lead>, actor = ACTOR_USER) {
   const now = new Date().toISOString();
+  const stages = await getPipeline();
   const fields = input.fields || {
     Name: input.name || "",
     Email: input.email,
@@ -425,338 +200,751 @@ export async function createLead(input: Partial<Lead>) {
     id: randomUUID(),
     name: input.name || (fields["Name"] || "")!,
     email: input.email || (fields["Email"] as string | undefined),
-    phone: input.phone || (fields["Phone"] as string | undefined),
+    ...phoneFields(input.phone || (fields["Phone"] as string | undefined)),
     company: input.company || (fields["Company"] as string | undefined),
     source: input.source || (fields["Source"] as string | undefined),
-    status: (input.status as LeadStatus) || "new",
+    status: input.status || stages[0].id,
     ownerId: input.ownerId || null,
+    assignedAt: input.ownerId ? now : null,
     notes: input.notes || (fields["Notes"] as string | undefined),
     fields: fields,
     createdAt: now,
     updatedAt: now,
   };
-  if (hasSupabase()) {
-    try {
-      await supabaseFetch("leads", {
-        method: "POST",
-        body: JSON.stringify(lead),
-      });
-      return lead;
-    } catch (e) {
-      // fallback
-    }
-  }
-  const state = await getState();
-  await saveLeads([lead, ...state.leads]);
+  const issues = checkStageRules(stages, null, lead);
+  if (issues.length > 0) throw new ValidationError(issues);
+  await saveLeads([lead]);
+  await recordActivity([leadActivity(null, lead, "create", actor)]);
   return lead;
 }
 
-export async function updateLead(id: string, patch: Partial<Lead>) {
-  if (hasSupabase()) {
-    try {
-      const supabasePatch: any = { ...patch };
-      if (supabasePatch.ownerId !== undefined) {
-        supabasePatch.owner_id = supabasePatch.ownerId;
-        delete supabasePatch.ownerId;
-      }
-      if (supabasePatch.createdAt !== undefined) {
-        supabasePatch.created_at = supabasePatch.createdAt;
-        delete supabasePatch.createdAt;
-      }
-      if (supabasePatch.updatedAt !== undefined) {
-        supabasePatch.updated_at = supabasePatch.updatedAt;
-        delete supabasePatch.updatedAt;
-      }
-      await supabaseFetch(`leads?id=eq.${id}`, {
-        method: "PATCH",
-        body: JSON.stringify(supabasePatch),
-      });
-      const items = await supabaseListLeads();
-      return items.find((l) => l.id === id) || null;
-    } catch (e) {
-      // fallback
-    }
-  }
-  const state = await getState();
-  const idx = state.leads.findIndex((l) => l.id === id);
-  if (idx === -1) return null;
-  const current = state.leads[idx];
-  const mergedFields = { ...current.fields, ...(patch.fields || {}) };
-  const updated: Lead = {
-    ...current,
-    ...patch,
-    fields: mergedFields,
-    name: (patch.name as string) || mergedFields["Name"] || current.name,
-    email: (patch.email as string) || mergedFields["Email"] || current.email,
-    phone: (patch.phone as string) || mergedFields["Phone"] || current.phone,
-    company:
-      (patch.company as string) || mergedFields["Company"] || current.company,
-    notes: (patch.notes as string) || mergedFields["Notes"] || current.notes,
-    updatedAt: new Date().toISOString(),
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// The stored phone for one someone typed or imported: canonical, plus the
+// original; `current`'s phone is kept when there is none
+function phoneFields(
+  raw: string | undefined,
+  current?: Lead,
+): Pick<Lead, "phone" | "phoneRaw"> {
+  const written = raw?.trim();
+  if (!written) return { phone: current?.phone, phoneRaw: current?.phoneRaw };
+  return { phone: normalizePhone(written), phoneRaw: written };
+}
+
+// Format checks for the contact details a user can edit
+export function checkContactFields(patch: Partial<Lead>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (patch.name !== undefined && !patch.name.trim())
+    issues.push({
+      field: "name",
+      code: "invalid",
+      message: "Name is required",
+    });
+  if (patch.email && !EMAIL_RE.test(patch.email.trim()))
+    issues.push({
+      field: "email",
+      code: "invalid",
+      message: `"${patch.email}" is not a valid email address`,
+    });
+  if (patch.phone && !toE164(patch.phone))
+    issues.push({
+      field: "phone",
+      code: "invalid",
+      message: `"${patch.phone}" is not a valid phone number (numbers outside +${DEFAULT_COUNTRY_CODE} need their country code)`,
+    });
+  return issues;
+}
+
+// A lead that changes hands starts a fresh first-contact SLA
+function handOver(lead: Lead, ownerId: string | null, now: string): Lead {
+  return {
+    ...lead,
+    ownerId,
+    assignedAt: ownerId ? now : null,
+    slaBreachedAt: null,
+    escalatedTo: null,
+    updatedAt: now,
   };
-  state.leads[idx] = updated;
-  await saveLeads(state.leads);
-  return updated;
+}
+
+// The owner's assignment time, restarted whenever the lead changes hands
+function assignedAtAfter(
+  current: Lead,
+  ownerId: string | null | undefined,
+  now: string,
+) {
+  if (ownerId === undefined || (ownerId || null) === (current.ownerId || null))
+    return current.assignedAt ?? null;
+  return ownerId ? now : null;
+}
+
+// Status changes must follow the pipeline rules; sheet imports and
+// auto-assignment write leads directly and are not checked.
+export async function updateLead(
+  id: string,
+  patch: Partial<Lead>,
+  actor = ACTOR_USER,
+) {
+  const invalid = checkContactFields(patch);
+  if (invalid.length > 0) throw new ValidationError(invalid);
+  return leadWrites(async () => {
+    const current = await getStore().getLead(id);
+    if (!current) return null;
+    const mergedFields = { ...current.fields, ...(patch.fields || {}) };
+    const now = new Date().toISOString();
+    const assignedAt = assignedAtAfter(current, patch.ownerId, now);
+    // only the scheduler sets the breach; a new owner clears it
+    const kept = assignedAt === (current.assignedAt ?? null);
+    const updated: Lead = {
+      ...current,
+      ...patch,
+      id,
+      assignedAt,
+      slaBreachedAt: kept ? (current.slaBreachedAt ?? null) : null,
+      escalatedTo: kept ? (current.escalatedTo ?? null) : null,
+      fields: mergedFields,
+      // fields the patch leaves out are kept; "" clears the optional ones
+      name: "name" in patch ? patch.name : current.name,
+      email: "email" in patch ? patch.email || undefined : current.email,
+      ...("phone" in patch
+        ? patch.phone?.trim()
+          ? phoneFields(patch.phone)
+          : { phone: undefined, phoneRaw: undefined }
+        : { phone: current.phone, phoneRaw: current.phoneRaw }),
+      company:
+        "company" in patch ? patch.company || undefined : current.company,
+      notes: "notes" in patch ? patch.notes || undefined : current.notes,
+      updatedAt: now,
+    };
+    const issues = checkStageRules(await getPipeline(), current, updated);
+    if (issues.length > 0) throw new ValidationError(issues);
+    await saveLeads([updated]);
+    await recordActivity([leadActivity(current, updated, "update", actor)]);
+    return updated;
+  });
 }
 
 export async function deleteLead(id: string) {
-  if (hasSupabase()) {
-    try {
-      await supabaseFetch(`leads?id=eq.${id}`, { method: "DELETE" });
-      return true;
-    } catch (e) {
-      // fallback
-    }
-  }
-  const state = await getState();
-  const next = state.leads.filter((l) => l.id !== id);
-  await saveLeads(next);
+  await getStore().deleteLead(id);
+  await deleteLeadTasks(id);
   return true;
 }
 
+const MERGE_FIELDS: MergeField[] = [
+  "name",
+  "email",
+  "phone",
+  "company",
+  "source",
+  "status",
+  "ownerId",
+];
+// Redirect chains come from merging a lead that had absorbed others
+const MAX_REDIRECT_HOPS = 10;
+
+function checkMergeRequest(request: MergeLeadsRequest): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { survivorId, absorbedId, take = {} } = request || {};
+  if (!survivorId || !absorbedId || survivorId === absorbedId)
+    issues.push({
+      field: "absorbedId",
+      code: "invalid",
+      message: "Pick two different leads to merge",
+    });
+  for (const [field, side] of Object.entries(take)) {
+    if (!MERGE_FIELDS.includes(field as MergeField))
+      issues.push({
+        field: `take.${field}`,
+        code: "invalid",
+        message: `"${field}" cannot be picked in a merge`,
+      });
+    else if (side !== "survivor" && side !== "absorbed")
+      issues.push({
+        field: `take.${field}`,
+        code: "invalid",
+        message: `Take ${field} from "survivor" or "absorbed"`,
+      });
+  }
+  return issues;
+}
+
+// Both leads' notes, each kept once
+function mergeNotes(...notes: (string | undefined)[]) {
+  const kept = notes.map((n) => n?.trim()).filter((n): n is string => !!n);
+  return [...new Set(kept)].join("\n\n") || undefined;
+}
+
+// Sheet fields of both leads; the survivor's filled-in values win
+function mergeFields(survivor: Lead, absorbed: Lead) {
+  const fields = { ...absorbed.fields };
+  for (const [key, value] of Object.entries(survivor.fields || {}))
+    if (value?.trim() || fields[key] === undefined) fields[key] = value;
+  return fields;
+}
+
+/**
+ * Folds one lead into another. Each MergeField comes from the lead picked
+ * in `take`, else the survivor unless its value is empty; sheet fields and
+ * notes of both are kept. Tasks and history move to the survivor, and the
+ * absorbed id redirects to it. Like imports, the new status is not checked
+ * against the pipeline rules. Null when either lead does not exist.
+ */
+export async function mergeLeads(
+  request: MergeLeadsRequest,
+  actor = ACTOR_USER,
+) {
+  const invalid = checkMergeRequest(request);
+  if (invalid.length > 0) throw new ValidationError(invalid);
+  const { survivorId, absorbedId, take = {} } = request;
+  return leadWrites(async () => {
+    const store = getStore();
+    const [survivor, absorbed] = await Promise.all([
+      store.getLead(survivorId),
+      store.getLead(absorbedId),
+    ]);
+    if (!survivor || !absorbed) return null;
+    const from = (field: MergeField) =>
+      take[field] === "absorbed" || (!take[field] && !survivor[field])
+        ? absorbed
+        : survivor;
+    // the owner's assignment and SLA state travel with the owner
+    const owner = from("ownerId");
+    const now = new Date().toISOString();
+    const merged: Lead = {
+      ...survivor,
+      name: from("name").name,
+      email: from("email").email,
+      phone: from("phone").phone,
+      phoneRaw: from("phone").phoneRaw,
+      company: from("company").company,
+      source: from("source").source,
+      status: from("status").status,
+      ownerId: owner.ownerId ?? null,
+      assignedAt: owner.assignedAt ?? null,
+      slaBreachedAt: owner.slaBreachedAt ?? null,
+      escalatedTo: owner.escalatedTo ?? null,
+      notes: mergeNotes(survivor.notes, absorbed.notes),
+      fields: mergeFields(survivor, absorbed),
+      updatedAt: now,
+    };
+    await saveLeads([merged]);
+    await moveLeadTasks(absorbed.id, survivor.id);
+    await store.moveActivity(absorbed.id, survivor.id);
+    await recordActivity([
+      {
+        id: randomUUID(),
+        leadId: survivor.id,
+        at: now,
+        actor,
+        kind: "merge",
+        changes: [
+          {
+            field: "mergedFrom",
+            from: null,
+            to:
+              absorbed.name || absorbed.email || absorbed.phone || absorbed.id,
+          },
+          ...diffLead(survivor, merged),
+        ],
+      },
+    ]);
+    await store.upsertLeadRedirects([
+      { id: absorbed.id, leadId: survivor.id, mergedAt: now },
+    ]);
+    await store.deleteLead(absorbed.id);
+    return merged;
+  });
+}
+
+// The lead a merged-away id now belongs to; null when `id` was never merged
+export async function findMergedLeadId(id: string) {
+  let current = id;
+  for (let hops = 0; hops < MAX_REDIRECT_HOPS; hops++) {
+    const redirect = await getStore().getLeadRedirect(current);
+    if (!redirect) break;
+    current = redirect.leadId;
+  }
+  return current === id ? null : current;
+}
+
 export async function assignUnassignedLeads() {
-  const state = await getState();
-  const active = state.salespersons.filter((s) => s.active);
-  if (active.length === 0) return 0;
-  const load = new Map<string, number>();
-  for (const s of active) load.set(s.id, 0);
-  for (const l of state.leads)
-    if (l.ownerId && load.has(l.ownerId))
-      load.set(l.ownerId, (load.get(l.ownerId) || 0) + 1);
-
-  let assigned = 0;
-  const leads = state.leads.map((l) => {
-    if (!l.ownerId) {
-      const target = findLeastLoaded(load);
-      if (target) {
-        assigned++;
-        load.set(target, (load.get(target) || 0) + 1);
-        return {
-          ...l,
-          ownerId: target,
-          updatedAt: new Date().toISOString(),
-        } as Lead;
-      }
+  return leadWrites(assignUnassigned);
+}
+
+// Where auto-assign would put each unassigned lead right now
+export async function previewAssignment(): Promise<AssignmentPreviewResponse> {
+  const { leads, plan } = await planUnassigned();
+  return {
+    items: plan.map(({ lead, ownerId, ruleId }) => ({
+      leadId: lead.id,
+      leadName: lead.name,
+      ownerId,
+      ruleId,
+    })),
+    unassigned: leads.filter((l) => !l.ownerId).length - plan.length,
+  };
+}
+
+// New leads of a lead source that only its owner pool may take
+interface OwnerPool {
+  leadIds: Set<string>;
+  ownerIds: string[];
+}
+
+async function planUnassigned(pool?: OwnerPool) {
+  const store = getStore();
+  const [leads, salespersons, rules, stages] = await Promise.all([
+    store.listLeads(),
+    store.listSalespersons(),
+    store.listAssignmentRules(),
+    getPipeline(),
+  ]);
+  if (!pool)
+    return {
+      leads,
+      plan: planAssignments(leads, salespersons, rules, stages),
+    };
+  // pooled leads go first, to the pool only; the rest then see their load
+  const inPool = (l: Lead) => pool.leadIds.has(l.id);
+  const pooled = planAssignments(
+    leads.filter((l) => l.ownerId || inPool(l)),
+    salespersons.filter((s) => pool.ownerIds.includes(s.id)),
+    rules,
+    stages,
+  );
+  const now = new Date().toISOString();
+  const placed = pooled.map(({ lead, ownerId }) =>
+    handOver(lead, ownerId, now),
+  );
+  const rest = planAssignments(
+    [...leads.filter((l) => !inPool(l)), ...placed],
+    salespersons,
+    rules,
+    stages,
+  );
+  return { leads, plan: [...pooled, ...rest] };
+}
+
+/**
+ * Leads of people on leave who opted in go back through auto-assignment,
+ * as long as nobody has worked them yet (still in the first pipeline stage).
+ * Leads no available teammate can take stay where they are.
+ */
+export async function handOverLeadsOnLeave(now = new Date()) {
+  return leadWrites(async () => {
+    const store = getStore();
+    const [leads, salespersons, rules, stages] = await Promise.all([
+      store.listLeads(),
+      store.listSalespersons(),
+      store.listAssignmentRules(),
+      getPipeline(),
+    ]);
+    const away = new Set(
+      salespersons
+        .filter((s) => s.availability?.reassignOnLeave && isOnLeave(s, now))
+        .map((s) => s.id),
+    );
+    const released = new Map(
+      leads
+        .filter(
+          (l) => l.ownerId && away.has(l.ownerId) && l.status === stages[0].id,
+        )
+        .map((l) => [l.id, l] as const),
+    );
+    if (released.size === 0) return 0;
+    // only the released leads are up for assignment in this run
+    const pool = leads
+      .filter((l) => l.ownerId || released.has(l.id))
+      .map((l) => (released.has(l.id) ? { ...l, ownerId: null } : l));
+    const plan = planAssignments(pool, salespersons, rules, stages, now);
+    const at = now.toISOString();
+    const changed = plan.map(({ lead, ownerId }) =>
+      handOver(lead, ownerId, at),
+    );
+    if (changed.length > 0) {
+      await saveLeads(changed);
+      await recordActivity(
+        changed.map((l) =>
+          leadActivity(released.get(l.id)!, l, "assign", ACTOR_AUTO_ASSIGN),
+        ),
+      );
     }
-    return l;
+    return changed.length;
   });
-  if (assigned > 0) await saveLeads(leads);
-  return assigned;
 }
 
-function findLeastLoaded(load: Map<string, number>): string | null {
-  let minKey: string | null = null;
-  let minVal = Infinity;
-  for (const [k, v] of load.entries()) {
-    if (v < minVal) {
-      minVal = v;
-      minKey = k;
+/**
+ * Escalates owned leads left in the first stage past the first-contact SLA
+ * to the owner's manager. When the policy says so they then go to the next
+ * available salesperson other than the owner who missed it. Both steps are
+ * recorded in the lead's history.
+ */
+export async function escalateSlaBreaches(now = new Date()) {
+  return leadWrites(async () => {
+    const store = getStore();
+    const [leads, salespersons, rules, stages, config] = await Promise.all([
+      store.listLeads(),
+      store.listSalespersons(),
+      store.listAssignmentRules(),
+      getPipeline(),
+      store.getConfig(),
+    ]);
+    const result = { escalated: 0, reassigned: 0 };
+    const policy = config.sla;
+    if (!policy) return result;
+    const breached = findSlaBreaches(leads, salespersons, policy, stages, now);
+    if (breached.length === 0) return result;
+    const at = now.toISOString();
+    const managers = new Map(salespersons.map((s) => [s.id, s.managerId]));
+    const changed = new Map<string, Lead>();
+    const activity: (LeadActivity | null)[] = [];
+    for (const lead of breached) {
+      const escalated: Lead = {
+        ...lead,
+        slaBreachedAt: at,
+        escalatedTo: managers.get(lead.ownerId!) ?? null,
+        updatedAt: at,
+      };
+      changed.set(lead.id, escalated);
+      activity.push(leadActivity(lead, escalated, "escalate", ACTOR_SLA));
+    }
+    result.escalated = breached.length;
+
+    if (policy.reassign) {
+      const byOwner = new Map<string, Set<string>>();
+      for (const l of breached) {
+        const ids = byOwner.get(l.ownerId!) || new Set<string>();
+        byOwner.set(l.ownerId!, ids.add(l.id));
+      }
+      for (const [ownerId, ids] of byOwner) {
+        // earlier groups' moves count towards load
+        const pool = leads
+          .map((l) => changed.get(l.id) || l)
+          .filter((l) => l.ownerId)
+          .map((l) => (ids.has(l.id) ? { ...l, ownerId: null } : l));
+        const team = salespersons.filter((s) => s.id !== ownerId);
+        for (const p of planAssignments(pool, team, rules, stages, now)) {
+          const before = changed.get(p.lead.id)!;
+          const moved = handOver(before, p.ownerId, at);
+          changed.set(moved.id, moved);
+          activity.push(leadActivity(before, moved, "assign", ACTOR_SLA));
+          result.reassigned++;
+        }
+      }
     }
+    await saveLeads([...changed.values()]);
+    await recordActivity(activity);
+    return result;
+  });
+}
+
+async function assignUnassigned(pool?: OwnerPool) {
+  const { plan } = await planUnassigned(pool);
+  const changed: Lead[] = [];
+  const activity: (LeadActivity | null)[] = [];
+  const now = new Date().toISOString();
+  for (const { lead, ownerId } of plan) {
+    const next = handOver(lead, ownerId, now);
+    changed.push(next);
+    activity.push(leadActivity(lead, next, "assign", ACTOR_AUTO_ASSIGN));
+  }
+  if (changed.length > 0) {
+    await saveLeads(changed);
+    await recordActivity(activity);
+  }
+  return changed.length;
+}
+
+// Keys must be lead fields and values headers ("" leaves a field unmapped)
+function checkColumnMapping(
+  mapping: ColumnMapping | null | undefined,
+): ValidationIssue[] {
+  if (!mapping) return [];
+  const issues: ValidationIssue[] = [];
+  for (const [field, header] of Object.entries(mapping)) {
+    if (!(MAPPED_FIELDS as string[]).includes(field))
+      issues.push({
+        field: `columnMapping.${field}`,
+        code: "invalid",
+        message: `"${field}" is not a field sheet columns can fill`,
+      });
+    else if (typeof header !== "string")
+      issues.push({
+        field: `columnMapping.${field}`,
+        code: "invalid",
+        message: `The column for ${field} must be a header name`,
+      });
   }
-  return minKey;
+  return issues;
+}
+
+// The mapping to store; null goes back to suggesting every field
+export function nextColumnMapping(
+  input: ColumnMapping | null,
+): ColumnMapping | null {
+  if (!input) return null;
+  const issues = checkColumnMapping(input);
+  if (issues.length > 0) throw new ValidationError(issues);
+  const mapping: ColumnMapping = {};
+  for (const field of MAPPED_FIELDS)
+    if (input[field] !== undefined) mapping[field] = input[field].trim();
+  return mapping;
+}
+
+// How rows of one lead source are read; see LeadSource
+export interface ImportOptions {
+  columnMapping?: ColumnMapping | null; // null: the one in config
+  sourceTag?: string;
+  ownerIds?: string[];
 }
 
 export async function importFromCsvRows(
   rows: Record<string, string>[],
   headers?: string[],
+  options: ImportOptions = {},
 ) {
+  return leadWrites(async () =>
+    applyImportPlan(await planImport(rows, headers, options), options),
+  );
+}
+
+interface ImportPlan {
+  items: ImportPreviewRow[];
+  changed: Lead[];
+  activity: (LeadActivity | null)[];
+  created: string[]; // ids of the new leads among `changed`
+}
+
+// "email" or "phone", for a key from dedupeKeys
+function keyKind(key: string) {
+  return key.slice(0, key.indexOf(":"));
+}
+
+// Decides what a sync does with each row without writing anything
+async function planImport(
+  rows: Record<string, string>[],
+  headers?: string[],
+  options: ImportOptions = {},
+): Promise<ImportPlan> {
   const state = await getState();
-  const byEmail = new Map(
-    state.leads
-      .filter((l) => l.email)
-      .map((l) => [l.email!.toLowerCase(), l] as const),
+  const stages = await getPipeline();
+  const mapping = resolveColumnMapping(
+    options.columnMapping ?? state.config.columnMapping,
+    headers || Object.keys(rows[0] || {}),
   );
-  const byPhone = new Map(
-    state.leads
-      .filter((l) => l.phone)
-      .map((l) => [normalizePhone(l.phone!), l] as const),
+  const known = new Map(
+    state.leads.flatMap((l) => dedupeKeys(l).map((k) => [k, l] as const)),
   );
 
-  let imported = 0;
-  let updated = 0;
-  let skipped = 0;
-
   const now = new Date().toISOString();
-  const importedEmails = new Set<string>();
-  const importedPhones = new Set<string>();
-
-  for (const r of rows) {
-    const values = Object.values(r).map((v) => (v ?? "").toString().trim());
-    const nonEmpty = values.filter((v) => v !== "");
-    if (nonEmpty.length === 0) {
-      skipped++;
-      continue;
-    }
+  // row number that first used each email or phone in this sheet
+  const imported = new Map<string, number>();
+  const plan: ImportPlan = {
+    items: [],
+    changed: [],
+    activity: [],
+    created: [],
+  };
 
-    if (nonEmpty.length === 1) {
-      const v = nonEmpty[0];
-      const dateLike =
-        /^\d{1,2}[\-/] \d{1,2}[\-/] \d{2,4}$/.test(v) ||
-        /^\d{1,2}[\-/]\d{1,2}[\-/]\d{2,4}$/.test(v) ||
-        /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i.test(v) ||
-        /^`\d{2}-\d{2}-\d{4}$/.test(v);
-      const totalLike = /^sum|^total|^subtotal/i.test(v);
-      const numericOnly = /^[-+]?\d{1,3}(?:[\,\d]*)(?:\.\d+)?$/.test(
-        v.replace(/\s+/g, ""),
-      );
-      if (dateLike || totalLike || numericOnly) {
-        skipped++;
-        continue;
-      }
+  for (const [i, r] of rows.entries()) {
+    const row = i + 1;
+    const junk = junkReason(r);
+    if (junk) {
+      plan.items.push({ row, action: "skip", reason: junk });
+      continue;
     }
 
-    const name =
-      r["name"] ||
-      r["Name"] ||
-      r["full_name"] ||
-      r["Full Name"] ||
-      r["lead_name"] ||
-      "";
-    const email =
-      (r["email"] || r["Email"] || r["e-mail"] || r["E-mail"] || "").trim() ||
-      undefined;
-    const phoneRaw = (
-      r["phone"] ||
-      r["Phone"] ||
-      r["mobile"] ||
-      r["Mobile"] ||
-      ""
-    ).trim();
-    const phone = phoneRaw ? normalizePhone(phoneRaw) : undefined;
-    const company = r["company"] || r["Company"] || undefined;
-    const source = r["source"] || r["Source"] || r["utm_source"] || undefined;
-    const statusRaw = (r["status"] || r["Status"] || "").trim().toLowerCase();
-    const status = (statusRaw || "new") as LeadStatus;
-    const notes = r["notes"] || r["Notes"] || undefined;
-
-    let existing: Lead | undefined;
-    if (email && !importedEmails.has(email.toLowerCase()))
-      existing = byEmail.get(email.toLowerCase());
-    if (!existing && phone && !importedPhones.has(phone))
-      existing = byPhone.get(phone);
+    const sheetLead = readLeadRow(r, mapping);
+    const { email, phone, phoneRaw, company, source, notes, fields, ...sheet } =
+      sheetLead;
+    const name = sheet.name || "";
+    // new leads start at the sheet's stage when it names one
+    const status = resolveStage(stages, sheet.status)?.id;
+    const label = name || email || phone;
 
     // Prevent duplicates within this import batch
-    if (email && importedEmails.has(email.toLowerCase())) {
-      skipped++;
-      continue;
-    }
-    if (phone && importedPhones.has(phone)) {
-      skipped++;
+    const keys = dedupeKeys({ email, phone });
+    const repeated = keys.find((k) => imported.has(k));
+    if (repeated) {
+      plan.items.push({
+        row,
+        action: "duplicate",
+        name: label,
+        reason: `Same ${keyKind(repeated)} as row ${imported.get(repeated)}`,
+      });
       continue;
     }
-
-    const fields: Record<string, string | undefined> = {};
-    for (const k of Object.keys(r)) {
-      const val = r[k];
-      if (val !== null && val !== undefined && val.trim() !== "") {
-        fields[k] = val.trim();
-      }
-    }
+    const matchKey = keys.find((k) => known.has(k));
+    const existing = matchKey ? known.get(matchKey) : undefined;
+    for (const k of keys) imported.set(k, row);
 
     if (existing) {
+      const update = sheetUpdate(existing, sheetLead);
       const merged: Lead = {
         ...existing,
-        name: name || existing.name,
-        email: email || existing.email,
-        phone: phone || existing.phone,
-        company: company ?? existing.company,
-        source: source ?? existing.source,
-        status: (status || existing.status) as LeadStatus,
-        notes: notes ?? existing.notes,
-        fields: { ...existing.fields, ...fields },
+        ...update,
+        source: update.source ?? options.sourceTag,
         updatedAt: now,
       };
-      state.leads = state.leads.map((l) =>
-        l.id === existing!.id ? merged : l,
+      const changes = diffLead(existing, merged);
+      // rows that change nothing are not written, so updatedAt stays put
+      if (changes.length === 0) {
+        plan.items.push({
+          row,
+          action: "unchanged",
+          name: label,
+          leadId: existing.id,
+          reason: `Matches an existing lead by ${keyKind(matchKey!)}; nothing to change`,
+        });
+        continue;
+      }
+      plan.changed.push(merged);
+      plan.activity.push(
+        leadActivity(existing, merged, "sync", ACTOR_SHEET_SYNC),
       );
-      if (email) importedEmails.add(email.toLowerCase());
-      if (phone) importedPhones.add(phone);
-      updated++;
+      plan.items.push({
+        row,
+        action: "update",
+        name: label,
+        leadId: existing.id,
+        reason: `Matches an existing lead by ${keyKind(matchKey!)}`,
+        changes,
+      });
     } else {
       const newLead: Lead = {
         id: randomUUID(),
         name,
         email,
         phone,
+        phoneRaw,
         company,
-        source,
-        status: (status || "new") as LeadStatus,
+        source: source ?? options.sourceTag,
+        status: status || stages[0].id,
         ownerId: null,
         notes,
         fields,
         createdAt: now,
         updatedAt: now,
       };
-      state.leads.unshift(newLead);
-      if (email) importedEmails.add(email.toLowerCase());
-      if (phone) importedPhones.add(phone);
-      imported++;
+      plan.changed.push(newLead);
+      plan.created.push(newLead.id);
+      plan.activity.push(
+        leadActivity(null, newLead, "create", ACTOR_SHEET_SYNC),
+      );
+      plan.items.push({ row, action: "create", name: label });
     }
   }
+  return plan;
+}
 
-  await saveLeads(state.leads);
-  const assigned = await assignUnassignedLeads();
-  return { imported, updated, assigned, skipped };
+function countImport(items: ImportPreviewRow[]) {
+  const count = (...actions: ImportPreviewRow["action"][]) =>
+    items.filter((i) => actions.includes(i.action)).length;
+  return {
+    imported: count("create"),
+    updated: count("update"),
+    skipped: count("skip", "duplicate"),
+  };
 }
 
-export function normalizePhone(p: string) {
-  return p.replace(/[^\d+]/g, "");
+async function applyImportPlan(plan: ImportPlan, options: ImportOptions) {
+  // a sync of an unchanged sheet writes nothing, so it queues nothing either
+  if (plan.changed.length > 0) await saveLeads(plan.changed);
+  await recordActivity(plan.activity);
+  const assigned = await assignUnassigned(
+    options.ownerIds?.length
+      ? { leadIds: new Set(plan.created), ownerIds: options.ownerIds }
+      : undefined,
+  );
+  return { ...countImport(plan.items), assigned };
 }
 
-export function parseCSV(text: string): {
-  headers: string[];
-  rows: Record<string, string>[];
-} {
-  const rows: string[][] = [];
-  let cur = "";
-  let inQuotes = false;
-  const arr: string[] = [];
-  function pushCell() {
-    arr.push(inQuotes ? cur.replace(/""/g, '"') : cur);
-    cur = "";
-    inQuotes = false;
-  }
-  for (let i = 0; i < text.length; i++) {
-    const ch = text[i];
-    if (inQuotes) {
-      if (ch === '"' && text[i + 1] === '"') {
-        cur += '"';
-        i++;
-      } else if (ch === '"') {
-        inQuotes = false;
-      } else {
-        cur += ch;
-      }
-    } else {
-      if (ch === '"') {
-        inQuotes = true;
-      } else if (ch === ",") {
-        pushCell();
-      } else if (ch === "\n") {
-        pushCell();
-        rows.push([...arr]);
-        arr.length = 0;
-      } else if (ch === "\r") {
-        // ignore
-      } else {
-        cur += ch;
-      }
-    }
+// Previews waiting to be applied, kept in memory for PREVIEW_TTL
+const PREVIEW_TTL = 15 * 60 * 1000;
+const previews = new Map<
+  string,
+  {
+    rows: Record<string, string>[];
+    headers: string[];
+    sheetUrl: string; // empty for an uploaded file
+    sourceId?: string;
+    options: ImportOptions;
+    items: ImportPreviewRow[];
+    expiresAt: number;
   }
-  pushCell();
-  rows.push([...arr]);
-
-  if (rows.length === 0) return { headers: [], rows: [] };
-  const headers = rows[0].map((h) => h.trim());
-  const out: Record<string, string>[] = [];
-  for (let i = 1; i < rows.length; i++) {
-    const row = rows[i];
-    if (row.every((c) => c.trim() === "")) continue;
-    const obj: Record<string, string> = {};
-    for (let j = 0; j < headers.length; j++) {
-      obj[headers[j]] = (row[j] ?? "").trim();
-    }
-    out.push(obj);
-  }
-  return { headers, rows: out };
+>();
+
+// Lead ids of new leads are picked again on apply, so they are not compared
+function samePlan(a: ImportPreviewRow[], b: ImportPreviewRow[]) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * What a sync of `rows` would do, row by row, without writing anything. The
+ * returned previewId applies exactly these changes. Uploaded files pass no
+ * sheetUrl, and no source id since they are not a sync of that source.
+ */
+export async function previewImport(
+  rows: Record<string, string>[],
+  headers: string[],
+  sheetUrl: string,
+  source?: { id?: string; options: ImportOptions },
+): Promise<ImportPreviewResponse> {
+  const now = Date.now();
+  for (const [id, p] of previews) if (p.expiresAt <= now) previews.delete(id);
+  const options = source?.options || {};
+  const { items } = await planImport(rows, headers, options);
+  const previewId = randomUUID();
+  const expiresAt = now + PREVIEW_TTL;
+  previews.set(previewId, {
+    rows,
+    headers,
+    sheetUrl,
+    sourceId: source?.id,
+    options,
+    items,
+    expiresAt,
+  });
+  const { imported, updated } = countImport(items);
+  const unchanged = items.filter((i) => i.action === "unchanged").length;
+  return {
+    previewId,
+    expiresAt: new Date(expiresAt).toISOString(),
+    headers,
+    rows: items,
+    created: imported,
+    updated,
+    unchanged,
+    skipped: items.filter((i) => i.action === "skip").length,
+    duplicates: items.filter((i) => i.action === "duplicate").length,
+  };
+}
+
+/**
+ * Writes a previewed sync. The rows are planned again against the current
+ * leads and refused if the outcome is no longer what was previewed.
+ */
+export async function applyImportPreview(previewId: string) {
+  return leadWrites(async () => {
+    const preview = previews.get(previewId);
+    if (!preview || preview.expiresAt <= Date.now())
+      return {
+        error: "This preview expired or was already applied; preview again",
+        status: 404,
+      } as const;
+    const plan = await planImport(
+      preview.rows,
+      preview.headers,
+      preview.options,
+    );
+    if (!samePlan(plan.items, preview.items))
+      return {
+        error: "Leads changed since the preview; preview the sheet again",
+        status: 409,
+      } as const;
+    previews.delete(previewId);
+    const counts = await applyImportPlan(plan, preview.options);
+    const { sheetUrl, sourceId, headers } = preview;
+    return { ...counts, sheetUrl, sourceId, headers };
+  });
 }
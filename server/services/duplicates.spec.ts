@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import type { Lead } from "@shared/api";
+import { findDuplicatePairs, nameSimilarity } from "./duplicates";
+
+function lead(id: string, patch: Partial<Lead> = {}): Lead {
+  return {
+    id,
+    name: "",
+    status: "new",
+    fields: {},
+    createdAt: `2025-01-0${id.length}T00:00:00.000Z`,
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    ...patch,
+  };
+}
+
+describe("nameSimilarity", () => {
+  it("ignores case, punctuation and word order", () => {
+    expect(nameSimilarity("Asha Kumar", "kumar, ASHA")).toBe(1);
+    expect(nameSimilarity("Asha Kumar", "Asha Kumari")).toBeGreaterThan(0.8);
+    expect(nameSimilarity("Asha Kumar", "Ravi Shankar")).toBeLessThan(0.5);
+    expect(nameSimilarity("", "Asha")).toBe(0);
+  });
+});
+
+describe("findDuplicatePairs", () => {
+  it("pairs leads with the same number however it was written", () => {
+    const pairs = findDuplicatePairs([
+      lead("a", { name: "Asha", phone: "+917416138391" }),
+      lead("bb", { name: "A. K.", phone: "07416138391" }),
+      lead("ccc", { name: "Ravi", phone: "+919000000001" }),
+    ]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].leads.map((l) => l.id)).toEqual(["a", "bb"]);
+    expect(pairs[0].reasons).toEqual(["Same phone"]);
+  });
+
+  it("needs the post code as well as a similar name", () => {
+    const fields = (postCode: string) => ({ "Post Code": postCode });
+    const pairs = findDuplicatePairs([
+      lead("a", { name: "Asha Kumar", fields: fields("560 001") }),
+      lead("bb", { name: "Asha Kumari", fields: fields("560001") }),
+      lead("ccc", { name: "Asha Kumar", fields: fields("110001") }),
+    ]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].leads.map((l) => l.id)).toEqual(["a", "bb"]);
+    expect(pairs[0].reasons[1]).toBe("Same post code");
+  });
+
+  it("ranks pairs sharing more details first", () => {
+    const pairs = findDuplicatePairs([
+      lead("a", { name: "Asha", email: "asha@x.io", phone: "9000000001" }),
+      lead("bb", { name: "Asha", email: "ASHA@x.io", phone: "9000000001" }),
+      lead("ccc", { name: "Ravi", email: "asha@x.io" }),
+    ]);
+    expect(pairs.map((p) => p.score)).toEqual([1, 0.5, 0.5]);
+    expect(pairs[0].leads.map((l) => l.id)).toEqual(["a", "bb"]);
+  });
+});
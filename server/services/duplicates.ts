@@ -0,0 +1,171 @@
+import type { ColumnMapping, DuplicatePair, Lead } from "@shared/api";
+// relative, not @shared: vite.config.ts loads the server without the alias
+import { mappedValue, resolveColumnMapping } from "../../shared/column-mapping";
+import { dedupeKeys } from "../../shared/import";
+import { getStore, isListableLead } from "../stores";
+
+// What each signal adds to a pair's score; the score is capped at 1
+const PHONE_WEIGHT = 0.5;
+const EMAIL_WEIGHT = 0.5;
+const NAME_WEIGHT = 0.35; // scaled by the similarity
+const POST_CODE_WEIGHT = 0.2;
+// Names less alike than this add nothing
+const MIN_NAME_SIMILARITY = 0.8;
+// One shared phone or email is enough; a similar name needs the post code
+export const MIN_DUPLICATE_SCORE = 0.45;
+// Name words shared by more leads than this are too common to compare on
+const MAX_NAME_BLOCK = 100;
+const MAX_PAIRS = 200;
+
+// Lowercased name words in sorted order, so "Kumar Asha" reads as "Asha Kumar"
+function nameWords(name?: string) {
+  return (name || "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .sort();
+}
+
+function bigrams(s: string) {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < s.length - 1; i++) {
+    const gram = s.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient over letter pairs: 1 for the same name, 0 for nothing shared
+export function nameSimilarity(a?: string, b?: string) {
+  const x = nameWords(a).join(" ");
+  const y = nameWords(b).join(" ");
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const gx = bigrams(x);
+  const gy = bigrams(y);
+  let shared = 0;
+  for (const [gram, n] of gx) shared += Math.min(n, gy.get(gram) || 0);
+  const total = Math.max(x.length - 1, 0) + Math.max(y.length - 1, 0);
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+interface Profile {
+  lead: Lead;
+  keys: string[]; // dedupeKeys: canonical phone and email
+  postCode?: string;
+}
+
+function profile(lead: Lead, saved?: ColumnMapping | null): Profile {
+  const fields = lead.fields || {};
+  const mapping = resolveColumnMapping(saved, Object.keys(fields));
+  const postCode = mappedValue(fields, mapping, "postCode");
+  return {
+    lead,
+    keys: dedupeKeys(lead),
+    postCode: postCode?.replace(/\s+/g, "").toUpperCase() || undefined,
+  };
+}
+
+function scorePair(a: Profile, b: Profile) {
+  let score = 0;
+  const reasons: string[] = [];
+  for (const key of a.keys) {
+    if (!b.keys.includes(key)) continue;
+    const phone = key.startsWith("phone:");
+    score += phone ? PHONE_WEIGHT : EMAIL_WEIGHT;
+    reasons.push(phone ? "Same phone" : "Same email");
+  }
+  const similarity = nameSimilarity(a.lead.name, b.lead.name);
+  if (similarity >= MIN_NAME_SIMILARITY) {
+    score += NAME_WEIGHT * similarity;
+    reasons.push(
+      similarity === 1
+        ? "Same name"
+        : `Similar name (${Math.round(similarity * 100)}%)`,
+    );
+  }
+  if (a.postCode && a.postCode === b.postCode) {
+    score += POST_CODE_WEIGHT;
+    reasons.push("Same post code");
+  }
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+}
+
+function toPair(a: Profile, b: Profile): DuplicatePair | null {
+  const { score, reasons } = scorePair(a, b);
+  if (score < MIN_DUPLICATE_SCORE) return null;
+  const older = a.lead.createdAt <= b.lead.createdAt;
+  return {
+    leads: older ? [a.lead, b.lead] : [b.lead, a.lead],
+    score,
+    reasons,
+  };
+}
+
+/**
+ * Likely duplicate pairs among `leads`, best first. Only leads sharing a
+ * phone, an email or a name word are compared, so the work stays close to
+ * linear.
+ */
+export function findDuplicatePairs(
+  leads: Lead[],
+  saved?: ColumnMapping | null,
+): DuplicatePair[] {
+  const profiles = leads.map((l) => profile(l, saved));
+  const blocks = new Map<string, number[]>();
+  profiles.forEach((p, i) => {
+    const words = nameWords(p.lead.name).filter((w) => w.length >= 3);
+    for (const key of [...p.keys, ...words.map((w) => `name:${w}`)]) {
+      const block = blocks.get(key) || [];
+      block.push(i);
+      blocks.set(key, block);
+    }
+  });
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  for (const [key, block] of blocks) {
+    if (key.startsWith("name:") && block.length > MAX_NAME_BLOCK) continue;
+    for (let x = 0; x < block.length; x++)
+      for (let y = x + 1; y < block.length; y++) {
+        const [i, j] = [block[x], block[y]];
+        const id = i < j ? `${i}:${j}` : `${j}:${i}`;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        const pair = toPair(profiles[i], profiles[j]);
+        if (pair) pairs.push(pair);
+      }
+  }
+  return pairs.sort((a, b) => b.score - a.score);
+}
+
+export async function findDuplicates(): Promise<DuplicatePair[]> {
+  const store = getStore();
+  const [leads, config] = await Promise.all([
+    store.listLeads(),
+    store.getConfig(),
+  ]);
+  return findDuplicatePairs(
+    leads.filter(isListableLead),
+    config.columnMapping,
+  ).slice(0, MAX_PAIRS);
+}
+
+// Existing leads that `lead` may repeat, best match first
+export async function findDuplicatesOf(lead: Lead): Promise<Lead[]> {
+  const store = getStore();
+  const [leads, config] = await Promise.all([
+    store.listLeads(),
+    store.getConfig(),
+  ]);
+  const target = profile(lead, config.columnMapping);
+  return leads
+    .filter((l) => l.id !== lead.id && isListableLead(l))
+    .map((l) => ({
+      lead: l,
+      ...scorePair(target, profile(l, config.columnMapping)),
+    }))
+    .filter((m) => m.score >= MIN_DUPLICATE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .map((m) => m.lead);
+}
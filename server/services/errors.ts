@@ -0,0 +1,12 @@
+import type { ValidationIssue } from "@shared/api";
+
+/**
+ * Thrown when a change breaks a business rule, such as a pipeline
+ * transition. The API turns it into a 422 ValidationErrorResponse.
+ */
+export class ValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(issues.map((i) => i.message).join("; "));
+    this.name = "ValidationError";
+  }
+}
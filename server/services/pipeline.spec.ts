@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import type { Lead } from "@shared/api";
+import { DEFAULT_PIPELINE, checkStageRules, resolveStage } from "./pipeline";
+
+function lead(status: string, fields: Lead["fields"] = {}): Lead {
+  return {
+    id: "l1",
+    name: "Test",
+    status,
+    fields,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+  };
+}
+
+describe("checkStageRules", () => {
+  it("allows changes that do not touch the status", () => {
+    const before = lead("site visit");
+    expect(checkStageRules(DEFAULT_PIPELINE, before, before)).toEqual([]);
+  });
+
+  it("rejects unknown statuses", () => {
+    expect(checkStageRules(DEFAULT_PIPELINE, null, lead("nope"))).toEqual([
+      expect.objectContaining({ field: "status", code: "unknown-status" }),
+    ]);
+  });
+
+  it("enforces allowed predecessors", () => {
+    const issues = checkStageRules(
+      DEFAULT_PIPELINE,
+      lead("call"),
+      lead("advance payment"),
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({ field: "status", code: "transition" }),
+    ]);
+    expect(
+      checkStageRules(
+        DEFAULT_PIPELINE,
+        lead("quotation sent", { "quotation amount": "1000" }),
+        lead("advance payment"),
+      ),
+    ).toEqual([]);
+  });
+
+  it("requires stage fields, including on new leads", () => {
+    expect(
+      checkStageRules(DEFAULT_PIPELINE, null, lead("quotation sent")),
+    ).toEqual([
+      expect.objectContaining({
+        field: "fields.quotation amount",
+        code: "required",
+      }),
+    ]);
+    expect(
+      checkStageRules(
+        DEFAULT_PIPELINE,
+        lead("call"),
+        lead("site visit", { "visit date": " " }),
+      ),
+    ).toHaveLength(1);
+    expect(
+      checkStageRules(
+        DEFAULT_PIPELINE,
+        lead("call"),
+        lead("site visit", { "visit date": "2025-02-01" }),
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("resolveStage", () => {
+  it("matches ids and labels case-insensitively", () => {
+    expect(resolveStage(DEFAULT_PIPELINE, "Site Visit")?.id).toBe("site visit");
+    expect(resolveStage(DEFAULT_PIPELINE, " WON ")?.id).toBe("won");
+    expect(resolveStage(DEFAULT_PIPELINE, "maybe")).toBeNull();
+    expect(resolveStage(DEFAULT_PIPELINE, "")).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import type { Lead, PipelineStage, ValidationIssue } from "@shared/api";
+import { getStore } from "../stores";
+
+const STAGE_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Used until an admin saves a pipeline; ids match the statuses leads already carry
+export const DEFAULT_PIPELINE: PipelineStage[] = [
+  { id: "new", label: "New", color: "#64748b" },
+  { id: "call", label: "Call", color: "#0ea5e9" },
+  { id: "not lifted", label: "Not lifted", color: "#f59e0b" },
+  { id: "not connected", label: "Not connected", color: "#f97316" },
+  { id: "voice message", label: "Voice message", color: "#a855f7" },
+  { id: "contacted", label: "Contacted", color: "#06b6d4" },
+  {
+    id: "quotation sent",
+    label: "Quotation sent",
+    color: "#6366f1",
+    requiredFields: ["quotation amount"],
+  },
+  {
+    id: "site visit",
+    label: "Site visit",
+    color: "#8b5cf6",
+    requiredFields: ["visit date"],
+  },
+  {
+    id: "advance payment",
+    label: "Advance payment",
+    color: "#14b8a6",
+    allowedFrom: ["quotation sent"],
+  },
+  { id: "lead finished", label: "Lead finished", color: "#22c55e" },
+  { id: "won", label: "Won", color: "#16a34a", outcome: "won" as const },
+  { id: "lost", label: "Lost", color: "#dc2626", outcome: "lost" as const },
+].map((s, order) => ({
+  outcome: null,
+  allowedFrom: [],
+  requiredFields: [],
+  ...s,
+  order,
+}));
+
+export async function getPipeline(): Promise<PipelineStage[]> {
+  const stages = await getStore().listStages();
+  return stages.length > 0 ? stages : DEFAULT_PIPELINE;
+}
+
+// Shared with the sync-sheet edge function
+export { resolveStage } from "../../shared/import";
+
+/**
+ * Pipeline rules for a lead entering `after.status`. Only status changes are
+ * checked; `before` is null for new leads, which skip the transition rules.
+ */
+export function checkStageRules(
+  stages: PipelineStage[],
+  before: Lead | null,
+  after: Lead,
+): ValidationIssue[] {
+  if (before && before.status === after.status) return [];
+  const target = stages.find((s) => s.id === after.status);
+  if (!target)
+    return [
+      {
+        field: "status",
+        code: "unknown-status",
+        message: `Unknown status "${after.status}"`,
+      },
+    ];
+
+  const issues: ValidationIssue[] = [];
+  const allowed = target.allowedFrom || [];
+  if (before && allowed.length > 0 && !allowed.includes(before.status)) {
+    const labels = allowed.map(
+      (id) => stages.find((s) => s.id === id)?.label || id,
+    );
+    issues.push({
+      field: "status",
+      code: "transition",
+      message: `"${target.label}" can only follow ${labels.map((l) => `"${l}"`).join(" or ")}`,
+    });
+  }
+  for (const key of target.requiredFields || []) {
+    if ((after.fields?.[key] || "").toString().trim()) continue;
+    issues.push({
+      field: `fields.${key}`,
+      code: "required",
+      message: `${key} is required for "${target.label}"`,
+    });
+  }
+  return issues;
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "string");
+}
+
+function validateStages(stages: unknown): string | null {
+  if (!Array.isArray(stages) || stages.length === 0)
+    return "stages must be a non-empty array";
+  const ids = new Set<string>();
+  for (const s of stages as PipelineStage[]) {
+    if (typeof s?.id !== "string" || !s.id.trim())
+      return "every stage needs an id";
+    if (ids.has(s.id)) return `duplicate stage id "${s.id}"`;
+    ids.add(s.id);
+    if (typeof s.label !== "string" || !s.label.trim())
+      return `stage "${s.id}" needs a label`;
+    if (typeof s.color !== "string" || !STAGE_COLOR.test(s.color))
+      return `stage "${s.id}" colour must be #rrggbb`;
+    if (s.outcome && s.outcome !== "won" && s.outcome !== "lost")
+      return `stage "${s.id}" outcome must be won, lost or empty`;
+    for (const key of ["allowedFrom", "requiredFields"] as const) {
+      const list = s[key];
+      if (list !== undefined && list !== null && !isStringArray(list))
+        return `stage "${s.id}" ${key} must be a list of strings`;
+    }
+  }
+  for (const s of stages as PipelineStage[]) {
+    const unknown = (s.allowedFrom || []).find((id) => !ids.has(id));
+    if (unknown)
+      return `stage "${s.id}" is allowed from unknown stage "${unknown}"`;
+  }
+  return null;
+}
+
+/**
+ * Replaces the pipeline. Stages are stored in the order given; removing a
+ * stage that leads are still in is refused so no lead ends up without one.
+ */
+export async function savePipeline(
+  input: PipelineStage[],
+): Promise<{ stages: PipelineStage[] } | { error: string }> {
+  const error = validateStages(input);
+  if (error) return { error };
+  const stages: PipelineStage[] = input.map((s, order) => ({
+    id: s.id.trim(),
+    label: s.label.trim(),
+    order,
+    color: s.color.toLowerCase(),
+    outcome: s.outcome || null,
+    allowedFrom: [...new Set(s.allowedFrom || [])],
+    requiredFields: [
+      ...new Set((s.requiredFields || []).map((f) => f.trim()).filter(Boolean)),
+    ],
+  }));
+
+  const store = getStore();
+  const kept = new Set(stages.map((s) => s.id));
+  const inUse = new Map<string, number>();
+  for (const l of await store.listLeads()) {
+    if (!kept.has(l.status))
+      inUse.set(l.status, (inUse.get(l.status) || 0) + 1);
+  }
+  const current = await getPipeline();
+  const removed = current.filter((s) => inUse.has(s.id));
+  if (removed.length > 0) {
+    const list = removed
+      .map((s) => {
+        const n = inUse.get(s.id)!;
+        return `"${s.label}" (${n} lead${n === 1 ? "" : "s"})`;
+      })
+      .join(", ");
+    const them = removed.length === 1 ? "it" : "them";
+    return { error: `Move leads out of ${list} before removing ${them}` };
+  }
+
+  await store.saveStages(stages);
+  return { stages };
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import type { Lead, PipelineStage, Salesperson, SlaPolicy } from "@shared/api";
+import { checkSlaPolicy, findSlaBreaches, slaDeadline } from "./sla";
+
+const STAGES: PipelineStage[] = [
+  { id: "new", label: "New", order: 0, color: "#000000" },
+  { id: "call", label: "Call", order: 1, color: "#000000" },
+];
+
+// Monday 2025-03-03 in Kolkata (UTC+05:30), working 09:00–18:00
+const OWNER: Salesperson = {
+  id: "p1",
+  name: "P",
+  active: true,
+  availability: {
+    timeZone: "Asia/Kolkata",
+    workingHours: { start: "09:00", end: "18:00" },
+  },
+  createdAt: "2025-01-01T00:00:00.000Z",
+};
+
+function lead(assignedAt: string, patch: Partial<Lead> = {}): Lead {
+  return {
+    id: assignedAt,
+    name: "L",
+    fields: {},
+    status: "new",
+    ownerId: "p1",
+    assignedAt,
+    createdAt: assignedAt,
+    updatedAt: assignedAt,
+    ...patch,
+  };
+}
+
+const POLICY: SlaPolicy = {
+  firstContactMinutes: 30,
+  workingHoursOnly: false,
+  reassign: false,
+};
+
+describe("slaDeadline", () => {
+  it("counts wall-clock minutes by default", () => {
+    // 17:50 local
+    const l = lead("2025-03-03T12:20:00.000Z");
+    expect(slaDeadline(l, OWNER, POLICY).toISOString()).toBe(
+      "2025-03-03T12:50:00.000Z",
+    );
+  });
+
+  it("pauses outside the owner's working hours", () => {
+    const l = lead("2025-03-03T12:20:00.000Z");
+    const working = { ...POLICY, workingHoursOnly: true };
+    // 10 minutes on Monday, the other 20 from 09:00 on Tuesday
+    expect(slaDeadline(l, OWNER, working).toISOString()).toBe(
+      "2025-03-04T03:50:00.000Z",
+    );
+  });
+
+  it("starts no earlier than the policy", () => {
+    const l = lead("2025-03-01T00:00:00.000Z");
+    const since = { ...POLICY, since: "2025-03-03T04:30:00.000Z" };
+    expect(slaDeadline(l, OWNER, since).toISOString()).toBe(
+      "2025-03-03T05:00:00.000Z",
+    );
+  });
+});
+
+describe("findSlaBreaches", () => {
+  const now = new Date("2025-03-03T06:00:00.000Z");
+
+  it("returns owned first-stage leads past the deadline", () => {
+    const leads = [
+      lead("2025-03-03T05:00:00.000Z"),
+      lead("2025-03-03T05:45:00.000Z"),
+      lead("2025-03-03T04:00:00.000Z", { status: "call" }),
+      lead("2025-03-03T04:10:00.000Z", { ownerId: null }),
+      lead("2025-03-03T04:20:00.000Z", {
+        slaBreachedAt: "2025-03-03T04:50:00.000Z",
+      }),
+    ];
+    expect(
+      findSlaBreaches(leads, [OWNER], POLICY, STAGES, now).map((l) => l.id),
+    ).toEqual(["2025-03-03T05:00:00.000Z"]);
+  });
+});
+
+describe("checkSlaPolicy", () => {
+  it("needs a positive whole number of minutes", () => {
+    expect(checkSlaPolicy(POLICY)).toEqual([]);
+    expect(checkSlaPolicy(null)).toEqual([]);
+    expect(checkSlaPolicy({ ...POLICY, firstContactMinutes: 0 })[0].field).toBe(
+      "sla.firstContactMinutes",
+    );
+  });
+});
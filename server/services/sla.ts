@@ -0,0 +1,74 @@
+import type {
+  Lead,
+  PipelineStage,
+  Salesperson,
+  SlaPolicy,
+  ValidationIssue,
+} from "@shared/api";
+import { addWorkingMinutes } from "./availability";
+import { ValidationError } from "./errors";
+
+export function checkSlaPolicy(
+  policy: SlaPolicy | null | undefined,
+): ValidationIssue[] {
+  if (!policy) return [];
+  const minutes = policy.firstContactMinutes;
+  if (!Number.isInteger(minutes) || minutes < 1)
+    return [
+      {
+        field: "sla.firstContactMinutes",
+        code: "invalid",
+        message: "First-contact time must be a whole number of minutes",
+      },
+    ];
+  return [];
+}
+
+// The policy to store; the clock starts when the SLA is first switched on
+export function nextSlaPolicy(
+  input: SlaPolicy | null,
+  current: SlaPolicy | null | undefined,
+  now = new Date(),
+): SlaPolicy | null {
+  if (!input) return null;
+  const issues = checkSlaPolicy(input);
+  if (issues.length > 0) throw new ValidationError(issues);
+  return {
+    firstContactMinutes: input.firstContactMinutes,
+    workingHoursOnly: !!input.workingHoursOnly,
+    reassign: !!input.reassign,
+    since: current?.since || now.toISOString(),
+  };
+}
+
+/**
+ * When the owner must have moved `lead` out of the first stage. The clock
+ * starts at assignment, or when the SLA was switched on for leads assigned
+ * before that.
+ */
+export function slaDeadline(lead: Lead, owner: Salesperson, policy: SlaPolicy) {
+  const start = new Date(
+    Math.max(Date.parse(lead.assignedAt!), Date.parse(policy.since || "") || 0),
+  );
+  if (policy.workingHoursOnly)
+    return addWorkingMinutes(owner, start, policy.firstContactMinutes);
+  return new Date(start.getTime() + policy.firstContactMinutes * 60 * 1000);
+}
+
+// Owned leads still in the first stage past their deadline, not yet escalated
+export function findSlaBreaches(
+  leads: Lead[],
+  salespersons: Salesperson[],
+  policy: SlaPolicy,
+  stages: PipelineStage[],
+  now = new Date(),
+): Lead[] {
+  const first = stages[0]?.id;
+  const owners = new Map(salespersons.map((s) => [s.id, s]));
+  return leads.filter((l) => {
+    const owner = l.ownerId && owners.get(l.ownerId);
+    if (!owner || !l.assignedAt || l.slaBreachedAt) return false;
+    if (l.status !== first) return false;
+    return slaDeadline(l, owner, policy).getTime() <= now.getTime();
+  });
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { LeadSource } from "@shared/api";
+import { createJsonStore } from "../stores/json";
+import { getStore, setStore } from "../stores";
+import {
+  isSyncDue,
+  syncDueSources,
+  syncLeadSource,
+  toCsvExportUrl,
+} from "./sources";
+
+const NOW = new Date("2025-03-03T10:00:00.000Z");
+
+function source(patch: Partial<LeadSource> = {}): LeadSource {
+  return {
+    id: "s1",
+    name: "Facebook",
+    sheetUrl: "https://example.com/facebook.csv",
+    ownerIds: [],
+    enabled: true,
+    syncMinutes: 15,
+    createdAt: "2025-03-01T00:00:00.000Z",
+    ...patch,
+  };
+}
+
+describe("isSyncDue", () => {
+  it("syncs a source that never synced", () => {
+    expect(isSyncDue(source(), NOW)).toBe(true);
+  });
+
+  it("waits out the interval after the last sync", () => {
+    const at = (minutesAgo: number) =>
+      new Date(NOW.getTime() - minutesAgo * 60 * 1000).toISOString();
+    expect(isSyncDue(source({ lastSyncAt: at(14) }), NOW)).toBe(false);
+    expect(isSyncDue(source({ lastSyncAt: at(15) }), NOW)).toBe(true);
+    // a failure restarts the wait too
+    expect(
+      isSyncDue(source({ lastSyncAt: at(60), lastErrorAt: at(5) }), NOW),
+    ).toBe(false);
+  });
+
+  it("never syncs a disabled source", () => {
+    expect(isSyncDue(source({ enabled: false }), NOW)).toBe(false);
+  });
+});
+
+describe("toCsvExportUrl", () => {
+  it("turns a Google Sheets link into its CSV export", () => {
+    expect(
+      toCsvExportUrl(
+        "https://docs.google.com/spreadsheets/d/abc-123/edit#gid=0",
+      ),
+    ).toBe("https://docs.google.com/spreadsheets/d/abc-123/export?format=csv");
+    expect(toCsvExportUrl("https://example.com/a.csv")).toBe(
+      "https://example.com/a.csv",
+    );
+  });
+});
+
+describe("syncLeadSource", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    setStore(null);
+    if (dir) await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("shares one lock between manual and scheduled syncs", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "crm-sources-"));
+    setStore(createJsonStore(dir));
+    await getStore().upsertLeadSources([source()]);
+    let release!: () => void;
+    const fetched = vi.fn(async () => {
+      await new Promise<void>((r) => (release = r));
+      return new Response("Name,Email\nAsha,asha@x.io\n");
+    });
+    vi.stubGlobal("fetch", fetched);
+
+    const manual = syncLeadSource(source());
+    await vi.waitFor(() => expect(fetched).toHaveBeenCalled());
+    expect(await syncLeadSource(source())).toBeNull();
+    expect(await syncDueSources(NOW)).toEqual({ synced: 0, failed: 0 });
+    release();
+    expect(await manual).toMatchObject({ imported: 1 });
+    expect(fetched).toHaveBeenCalledTimes(1);
+  });
+
+  it("saves no leads when a scheduled sync finds the sheet unchanged", async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "crm-sources-"));
+    setStore(createJsonStore(dir));
+    await getStore().upsertLeadSources([source()]);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("Name,Email\nAsha,asha@x.io\n")),
+    );
+    expect(await syncDueSources()).toEqual({ synced: 1, failed: 0 });
+    const [lead] = await getStore().listLeads();
+
+    const saved = vi.spyOn(getStore(), "upsertLeads");
+    const later = new Date(Date.now() + 60 * 60 * 1000);
+    expect(await syncDueSources(later)).toEqual({ synced: 1, failed: 0 });
+    expect(saved).not.toHaveBeenCalled();
+    expect((await getStore().listLeads())[0].updatedAt).toBe(lead.updatedAt);
+  });
+});
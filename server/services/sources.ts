@@ -0,0 +1,258 @@
+import { randomUUID } from "crypto";
+import type {
+  ImportSheetResponse,
+  LeadSource,
+  LeadSourceInput,
+  ValidationIssue,
+} from "@shared/api";
+import { getStore } from "../stores";
+import { ValidationError } from "./errors";
+import { parseCSV } from "../../shared/import";
+import {
+  importFromCsvRows,
+  nextColumnMapping,
+  type ImportOptions,
+} from "./crm";
+
+export const DEFAULT_SYNC_MINUTES = 15;
+const MAX_SYNC_MINUTES = 24 * 60;
+
+// Google Sheets links become their CSV export; other URLs are used as is
+export function toCsvExportUrl(input: string): string {
+  const m = input.match(/docs.google.com\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+  if (!m) return input;
+  return `https://docs.google.com/spreadsheets/d/${m[1]}/export?format=csv`;
+}
+
+export async function fetchCsvText(url: string): Promise<string> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch sheet: ${res.status}`);
+  return await res.text();
+}
+
+export async function listLeadSources() {
+  return getStore().listLeadSources();
+}
+
+export async function getLeadSource(id: string) {
+  return getStore().getLeadSource(id);
+}
+
+function isHttpUrl(value: string) {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// name and sheetUrl are required on create; owners must be on the team
+async function checkLeadSource(
+  input: LeadSourceInput,
+  creating: boolean,
+): Promise<ValidationIssue[]> {
+  const issues: ValidationIssue[] = [];
+  for (const key of ["name", "sheetUrl"] as const) {
+    const value = input[key];
+    if (value === undefined && !creating) continue;
+    if (typeof value !== "string" || !value.trim())
+      issues.push({
+        field: key,
+        code: "required",
+        message: `${key === "name" ? "Name" : "Sheet URL"} is required`,
+      });
+  }
+  if (
+    typeof input.sheetUrl === "string" &&
+    input.sheetUrl.trim() &&
+    !isHttpUrl(input.sheetUrl.trim())
+  )
+    issues.push({
+      field: "sheetUrl",
+      code: "invalid",
+      message: "Sheet URL must be an http(s) link",
+    });
+  const minutes = input.syncMinutes;
+  if (
+    minutes !== undefined &&
+    !(Number.isInteger(minutes) && minutes >= 1 && minutes <= MAX_SYNC_MINUTES)
+  )
+    issues.push({
+      field: "syncMinutes",
+      code: "invalid",
+      message: `Sync interval must be 1 to ${MAX_SYNC_MINUTES} minutes`,
+    });
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean")
+    issues.push({
+      field: "enabled",
+      code: "invalid",
+      message: "enabled must be true or false",
+    });
+  if (input.ownerIds !== undefined) {
+    const team = new Set(
+      (await getStore().listSalespersons()).map((s) => s.id),
+    );
+    if (!Array.isArray(input.ownerIds))
+      issues.push({
+        field: "ownerIds",
+        code: "invalid",
+        message: "ownerIds must be a list of salesperson ids",
+      });
+    else if (input.ownerIds.some((id) => !team.has(id)))
+      issues.push({
+        field: "ownerIds",
+        code: "invalid",
+        message: "Owner pool has someone who is not on the team",
+      });
+  }
+  return issues;
+}
+
+// The stored form of the fields `input` sets
+async function sourceFields(
+  input: LeadSourceInput,
+  creating: boolean,
+): Promise<Partial<LeadSource>> {
+  const issues = await checkLeadSource(input, creating);
+  if (issues.length > 0) throw new ValidationError(issues);
+  const fields: Partial<LeadSource> = {};
+  if (input.name !== undefined) fields.name = input.name.trim();
+  if (input.sheetUrl !== undefined)
+    fields.sheetUrl = toCsvExportUrl(input.sheetUrl.trim());
+  if (input.columnMapping !== undefined)
+    fields.columnMapping = nextColumnMapping(input.columnMapping);
+  if (input.sourceTag !== undefined)
+    fields.sourceTag = input.sourceTag?.trim() || undefined;
+  if (input.ownerIds !== undefined) fields.ownerIds = [...input.ownerIds];
+  if (input.enabled !== undefined) fields.enabled = input.enabled;
+  if (input.syncMinutes !== undefined) fields.syncMinutes = input.syncMinutes;
+  return fields;
+}
+
+export async function createLeadSource(input: LeadSourceInput) {
+  const source: LeadSource = {
+    id: randomUUID(),
+    name: "",
+    sheetUrl: "",
+    columnMapping: null,
+    ownerIds: [],
+    enabled: true,
+    syncMinutes: DEFAULT_SYNC_MINUTES,
+    lastSyncAt: null,
+    lastError: null,
+    lastErrorAt: null,
+    createdAt: new Date().toISOString(),
+    ...(await sourceFields(input, true)),
+  };
+  await getStore().upsertLeadSources([source]);
+  return source;
+}
+
+export async function updateLeadSource(id: string, patch: LeadSourceInput) {
+  const fields = await sourceFields(patch, false);
+  const current = await getStore().getLeadSource(id);
+  if (!current) return null;
+  const updated: LeadSource = { ...current, ...fields };
+  await getStore().upsertLeadSources([updated]);
+  return updated;
+}
+
+export async function deleteLeadSource(id: string) {
+  await getStore().deleteLeadSource(id);
+}
+
+export function sourceImportOptions(source: LeadSource): ImportOptions {
+  return {
+    columnMapping: source.columnMapping,
+    sourceTag: source.sourceTag,
+    ownerIds: source.ownerIds,
+  };
+}
+
+/**
+ * Stores the outcome of a sync: the headers seen on success, the message on
+ * failure. Sources deleted while syncing stay deleted.
+ */
+export async function recordSourceSync(
+  id: string,
+  result: { headers: string[] } | { error: string },
+  now = new Date(),
+) {
+  const current = await getStore().getLeadSource(id);
+  if (!current) return null;
+  const at = now.toISOString();
+  const next: LeadSource =
+    "error" in result
+      ? { ...current, lastError: result.error, lastErrorAt: at }
+      : {
+          ...current,
+          lastSyncAt: at,
+          lastError: null,
+          lastErrorAt: null,
+          headers: result.headers,
+        };
+  await getStore().upsertLeadSources([next]);
+  return next;
+}
+
+async function importLeadSource(
+  source: LeadSource,
+): Promise<ImportSheetResponse> {
+  try {
+    const { rows, headers } = parseCSV(await fetchCsvText(source.sheetUrl));
+    const counts = await importFromCsvRows(
+      rows,
+      headers,
+      sourceImportOptions(source),
+    );
+    const now = new Date();
+    await recordSourceSync(source.id, { headers }, now);
+    return { ...counts, lastSyncAt: now.toISOString() };
+  } catch (e: any) {
+    await recordSourceSync(source.id, { error: e?.message || String(e) });
+    throw e;
+  }
+}
+
+// Failed syncs wait a full interval too, so a broken sheet is not hammered
+export function isSyncDue(source: LeadSource, now = new Date()) {
+  if (!source.enabled) return false;
+  const last = Math.max(
+    Date.parse(source.lastSyncAt || "") || 0,
+    Date.parse(source.lastErrorAt || "") || 0,
+  );
+  return now.getTime() - last >= source.syncMinutes * 60 * 1000;
+}
+
+// Ids of the sources with a sync running, scheduled or manual
+const running = new Set<string>();
+
+/**
+ * Fetches and imports a source's sheet, or resolves to null without doing
+ * anything while another sync of the same source is still running.
+ */
+export async function syncLeadSource(
+  source: LeadSource,
+): Promise<ImportSheetResponse | null> {
+  if (running.has(source.id)) return null;
+  running.add(source.id);
+  try {
+    return await importLeadSource(source);
+  } finally {
+    running.delete(source.id);
+  }
+}
+
+export async function syncDueSources(now = new Date()) {
+  const due = (await listLeadSources()).filter((s) => isSyncDue(s, now));
+  let synced = 0;
+  let failed = 0;
+  for (const source of due) {
+    try {
+      if (await syncLeadSource(source)) synced++;
+    } catch {
+      failed++;
+    }
+  }
+  return { synced, failed };
+}
@@ -0,0 +1,139 @@
+import { randomUUID } from "crypto";
+import type {
+  CreateLeadTaskRequest,
+  DueTask,
+  DueTasksQuery,
+  DueTasksResponse,
+  LeadTask,
+  LeadTaskType,
+  UpdateLeadTaskRequest,
+} from "@shared/api";
+import { getStore } from "../stores";
+
+export const TASK_TYPES: LeadTaskType[] = [
+  "call",
+  "site visit",
+  "send quotation",
+];
+
+export async function listLeadTasks(leadId: string) {
+  return getStore().listTasks({ leadId });
+}
+
+// Returns null when the lead does not exist
+export async function createTask(
+  leadId: string,
+  input: CreateLeadTaskRequest,
+): Promise<LeadTask | null> {
+  const store = getStore();
+  const lead = await store.getLead(leadId);
+  if (!lead) return null;
+  const now = new Date().toISOString();
+  const task: LeadTask = {
+    id: randomUUID(),
+    leadId,
+    ownerId: input.ownerId === undefined ? lead.ownerId || null : input.ownerId,
+    type: input.type,
+    dueAt: new Date(input.dueAt).toISOString(),
+    note: input.note || undefined,
+    completedAt: null,
+    overdueAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await store.upsertTasks([task]);
+  return task;
+}
+
+export async function updateTask(
+  leadId: string,
+  taskId: string,
+  patch: UpdateLeadTaskRequest,
+): Promise<LeadTask | null> {
+  const store = getStore();
+  const current = await store.getTask(taskId);
+  if (!current || current.leadId !== leadId) return null;
+  const now = new Date().toISOString();
+  const dueAt = patch.dueAt
+    ? new Date(patch.dueAt).toISOString()
+    : current.dueAt;
+  let completedAt = current.completedAt || null;
+  if (patch.completed === true) completedAt = completedAt || now;
+  if (patch.completed === false) completedAt = null;
+  const updated: LeadTask = {
+    ...current,
+    type: patch.type || current.type,
+    ownerId: patch.ownerId === undefined ? current.ownerId : patch.ownerId,
+    note: patch.note === undefined ? current.note : patch.note || undefined,
+    dueAt,
+    completedAt,
+    // rescheduling clears the overdue flag so the scheduler can raise it again
+    overdueAt: dueAt === current.dueAt ? current.overdueAt || null : null,
+    updatedAt: now,
+  };
+  await store.upsertTasks([updated]);
+  return updated;
+}
+
+export async function deleteTask(leadId: string, taskId: string) {
+  const store = getStore();
+  const current = await store.getTask(taskId);
+  if (!current || current.leadId !== leadId) return false;
+  await store.deleteTask(taskId);
+  return true;
+}
+
+export async function deleteLeadTasks(leadId: string) {
+  const store = getStore();
+  for (const t of await store.listTasks({ leadId }))
+    await store.deleteTask(t.id);
+}
+
+// Hands a merged-away lead's tasks to the lead that absorbed it
+export async function moveLeadTasks(fromLeadId: string, toLeadId: string) {
+  const store = getStore();
+  const tasks = await store.listTasks({ leadId: fromLeadId });
+  await store.upsertTasks(tasks.map((t) => ({ ...t, leadId: toLeadId })));
+}
+
+// Open tasks due up to `until`, split into overdue and still due today
+export async function listDueTasks(
+  query: DueTasksQuery & { ownerIds?: string[] },
+  now = new Date(),
+): Promise<DueTasksResponse> {
+  const store = getStore();
+  const tasks = await store.listTasks({
+    ownerId: query.ownerId,
+    ownerIds: query.ownerIds,
+    open: true,
+    dueBefore: query.until,
+  });
+  const leadIds = [...new Set(tasks.map((t) => t.leadId))];
+  const leads = new Map(
+    await Promise.all(
+      leadIds.map(async (id) => [id, await store.getLead(id)] as const),
+    ),
+  );
+  const result: DueTasksResponse = { overdue: [], dueToday: [] };
+  for (const t of tasks) {
+    const lead = leads.get(t.leadId);
+    // tasks of deleted leads are dropped with the lead; skip any stragglers
+    if (!lead) continue;
+    const item: DueTask = { ...t, leadName: lead.name, leadPhone: lead.phone };
+    if (Date.parse(t.dueAt) < now.getTime()) result.overdue.push(item);
+    else result.dueToday.push(item);
+  }
+  return result;
+}
+
+// Marks open tasks that just went past due; returns the newly flagged tasks
+export async function flagOverdueTasks(now = new Date()) {
+  const store = getStore();
+  const at = now.toISOString();
+  const due = await store.listTasks({ open: true, dueBefore: at });
+  const flagged = due
+    .filter((t) => !t.overdueAt && Date.parse(t.dueAt) < now.getTime())
+    .map((t) => ({ ...t, overdueAt: at, updatedAt: at }));
+  await store.upsertTasks(flagged);
+  return flagged;
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import ExcelJS from "exceljs";
+import { parseUploadedSheet } from "./uploads";
+import { ValidationError } from "./errors";
+
+async function xlsx(sheets: Record<string, unknown[][]>) {
+  const workbook = new ExcelJS.Workbook();
+  for (const [name, rows] of Object.entries(sheets))
+    workbook.addWorksheet(name).addRows(rows);
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+describe("parseUploadedSheet", () => {
+  it("reads the first worksheet like a CSV export", async () => {
+    const buffer = await xlsx({
+      Leads: [
+        ["Name", "Phone", null, "Added"],
+        ["Asha", 9000000001, "no header", new Date(Date.UTC(2025, 2, 12))],
+        [],
+        [{ formula: 'UPPER("ravi")', result: "RAVI" }, null, null, null],
+      ],
+      Other: [["Email"], ["x@y.io"]],
+    });
+    const { headers, rows } = await parseUploadedSheet({
+      originalname: "Expo.XLSX",
+      buffer,
+    });
+    expect(headers).toEqual(["Name", "Phone", "Added"]);
+    expect(rows).toEqual([
+      { Name: "Asha", Phone: "9000000001", Added: "12/03/2025" },
+      { Name: "RAVI", Phone: "", Added: "" },
+    ]);
+  });
+
+  it("reads a chosen worksheet by name and refuses unknown ones", async () => {
+    const buffer = await xlsx({
+      Leads: [["Name"]],
+      "Partner list": [["Email"], ["x@y.io"]],
+    });
+    const file = { originalname: "leads.xlsx", buffer };
+    expect((await parseUploadedSheet(file, " partner LIST")).rows).toEqual([
+      { Email: "x@y.io" },
+    ]);
+    await expect(parseUploadedSheet(file, "Missing")).rejects.toThrow(
+      /No sheet named "Missing"/,
+    );
+  });
+
+  it("parses .csv files and refuses other types", async () => {
+    const csv = { originalname: "a.csv", buffer: Buffer.from("Name\nAsha\n") };
+    expect((await parseUploadedSheet(csv)).rows).toEqual([{ Name: "Asha" }]);
+    await expect(
+      parseUploadedSheet({ originalname: "a.pdf", buffer: Buffer.from("x") }),
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      parseUploadedSheet({ originalname: "a.xlsx", buffer: Buffer.from("x") }),
+    ).rejects.toThrow(/not a readable/);
+  });
+});
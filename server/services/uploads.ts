@@ -0,0 +1,101 @@
+import ExcelJS from "exceljs";
+import { parseCSV, type ParsedSheet } from "../../shared/import";
+import { ValidationError } from "./errors";
+
+// Larger files are refused before they are read
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export interface UploadedFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+function invalidFile(message: string, field = "file"): never {
+  throw new ValidationError([{ field, code: "invalid", message }]);
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Day first, as the sheets we import write dates; Excel dates carry no zone
+function formatDate(date: Date) {
+  const day = `${pad(date.getUTCDate())}/${pad(date.getUTCMonth() + 1)}/${date.getUTCFullYear()}`;
+  const time = date.getUTCHours() * 60 + date.getUTCMinutes();
+  if (time === 0) return day;
+  return `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+}
+
+// A cell as it reads in the sheet; formulas give their result
+function cellText(cell: ExcelJS.Cell): string {
+  const value =
+    cell.type === ExcelJS.ValueType.Formula ? cell.result : cell.value;
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value !== "object") return String(value).trim();
+  if ("error" in value) return "";
+  return cell.text.trim();
+}
+
+/**
+ * The first worksheet of an .xlsx file, or the one named `sheet` (ignoring
+ * case), read like parseCSV reads a CSV export: the first row holds the
+ * headers, columns without one are left out and blank rows are skipped.
+ */
+export async function parseXlsx(
+  buffer: Buffer,
+  sheet?: string,
+): Promise<ParsedSheet> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    // exceljs types its own Buffer, which Node's no longer matches
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+  } catch {
+    invalidFile("The file is not a readable .xlsx workbook");
+  }
+  const wanted = sheet?.trim().toLowerCase();
+  const worksheet = wanted
+    ? workbook.worksheets.find((w) => w.name.trim().toLowerCase() === wanted)
+    : workbook.worksheets[0];
+  if (!worksheet)
+    invalidFile(
+      wanted
+        ? `No sheet named "${sheet!.trim()}"; the workbook has ${workbook.worksheets.map((w) => `"${w.name}"`).join(", ")}`
+        : "The workbook has no sheets",
+      wanted ? "sheet" : "file",
+    );
+
+  const headerRow = worksheet.getRow(1);
+  const headers: string[] = [];
+  for (let c = 1; c <= headerRow.cellCount; c++)
+    headers.push(cellText(headerRow.getCell(c)));
+  const columns = headers.flatMap((h, j) => (h ? [j] : []));
+  const rows: Record<string, string>[] = [];
+  for (let r = 2; r <= worksheet.rowCount; r++) {
+    const cells = worksheet.getRow(r);
+    const row: Record<string, string> = {};
+    let blank = true;
+    for (const j of columns) {
+      const text = cellText(cells.getCell(j + 1));
+      if (text) blank = false;
+      row[headers[j]] = text;
+    }
+    if (!blank) rows.push(row);
+  }
+  return { headers: headers.filter(Boolean), rows };
+}
+
+// An uploaded .csv or .xlsx file as headers and rows
+export async function parseUploadedSheet(
+  file: UploadedFile,
+  sheet?: string,
+): Promise<ParsedSheet> {
+  const extension = file.originalname.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  let parsed: ParsedSheet;
+  if (extension === "csv") parsed = parseCSV(file.buffer.toString("utf8"));
+  else if (extension === "xlsx") parsed = await parseXlsx(file.buffer, sheet);
+  else if (extension === "xls")
+    invalidFile("Old .xls workbooks are not supported; save it as .xlsx");
+  else invalidFile("Upload a .csv or .xlsx file");
+  if (parsed.headers.length === 0)
+    invalidFile("The first row must hold the column headers");
+  return parsed;
+}
@@ -0,0 +1,14 @@
+/**
+ * Thrown when a storage backend cannot be reached (status 503) or rejects a
+ * request (status 502). The API turns it into an ErrorResponse with that status.
+ */
+export class StoreError extends Error {
+  constructor(
+    message: string,
+    public readonly backend: string,
+    public readonly status: 502 | 503 = 503,
+  ) {
+    super(message);
+    this.name = "StoreError";
+  }
+}
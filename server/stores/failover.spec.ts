@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Lead } from "@shared/api";
+import type { CrmStore } from "./types";
+import { createJsonStore } from "./json";
+import { withFailover } from "./failover";
+import { StoreError } from "./errors";
+
+// A JSON store that can be switched off to simulate an outage
+function flaky(store: CrmStore) {
+  const state = { down: false };
+  const wrapped = { ...store, kind: "remote" } as CrmStore;
+  for (const key of Object.keys(store) as (keyof CrmStore)[]) {
+    if (typeof store[key] !== "function") continue;
+    (wrapped as any)[key] = async (...args: any[]) => {
+      if (state.down) throw new StoreError("remote down", "remote");
+      return (store[key] as any)(...args);
+    };
+  }
+  return { store: wrapped, state };
+}
+
+function makeLead(patch: Partial<Lead> = {}): Lead {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    fields: {},
+    name: "Lead",
+    status: "new",
+    ownerId: null,
+    createdAt: now,
+    updatedAt: now,
+    ...patch,
+  };
+}
+
+describe("withFailover", () => {
+  let dir: string;
+  let remote: ReturnType<typeof flaky>;
+  let local: CrmStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "crm-failover-"));
+    remote = flaky(createJsonStore(path.join(dir, "remote")));
+    local = createJsonStore(path.join(dir, "local"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("rethrows and reports degraded in strict mode", async () => {
+    const store = withFailover(remote.store, local, {
+      mode: "strict",
+      dataDir: dir,
+    });
+    remote.state.down = true;
+    await expect(store.listLeads()).rejects.toBeInstanceOf(StoreError);
+    await expect(store.upsertLeads([makeLead()])).rejects.toThrow();
+    expect(await local.listLeads()).toEqual([]);
+    const status = await store.getStatus();
+    expect(status).toMatchObject({
+      mode: "strict",
+      degraded: true,
+      lastError: "remote down",
+      pendingWrites: 0,
+    });
+
+    remote.state.down = false;
+    await store.listLeads();
+    expect((await store.getStatus()).degraded).toBe(false);
+  });
+
+  it("buffers writes locally and replays them on reconcile", async () => {
+    const store = withFailover(remote.store, local, {
+      mode: "fallback",
+      dataDir: dir,
+    });
+    const lead = makeLead();
+    remote.state.down = true;
+    await store.upsertLeads([lead]);
+    expect(await store.getLead(lead.id)).toMatchObject({ id: lead.id });
+    expect(await store.getStatus()).toMatchObject({
+      degraded: true,
+      pendingWrites: 1,
+    });
+
+    // still degraded after recovery until the outbox is replayed
+    remote.state.down = false;
+    expect(await store.getLead(lead.id)).toBeNull();
+    expect((await store.getStatus()).degraded).toBe(true);
+
+    expect(await store.reconcile()).toEqual({
+      replayed: 1,
+      skipped: 0,
+      remaining: 0,
+      error: undefined,
+    });
+    expect(await store.getLead(lead.id)).toMatchObject({ id: lead.id });
+    expect((await store.getStatus()).degraded).toBe(false);
+  });
+
+  it("does not overwrite leads edited remotely after the outage", async () => {
+    const store = withFailover(remote.store, local, {
+      mode: "fallback",
+      dataDir: dir,
+    });
+    const lead = makeLead({ updatedAt: "2025-01-01T00:00:00.000Z" });
+    await store.upsertLeads([lead]);
+
+    remote.state.down = true;
+    await store.upsertLeads([
+      { ...lead, status: "call", updatedAt: "2025-01-02T00:00:00.000Z" },
+    ]);
+    remote.state.down = false;
+    await store.upsertLeads([
+      { ...lead, status: "site visit", updatedAt: "2025-01-03T00:00:00.000Z" },
+    ]);
+
+    const result = await store.reconcile();
+    expect(result).toMatchObject({ replayed: 1, skipped: 1, remaining: 0 });
+    expect((await store.getLead(lead.id))!.status).toBe("site visit");
+  });
+
+  it("replays only the fields a buffered write changed", async () => {
+    const store = withFailover(remote.store, local, {
+      mode: "fallback",
+      dataDir: dir,
+    });
+    const lead = makeLead({
+      notes: "old",
+      fields: { City: "Pune" },
+      updatedAt: "2025-01-01T00:00:00.000Z",
+    });
+    await store.upsertLeads([lead]);
+    await local.upsertLeads([lead]); // the stale copy read during the outage
+
+    remote.state.down = true;
+    const stale = (await store.getLead(lead.id))!;
+    await store.upsertLeads([
+      {
+        ...stale,
+        notes: "called back",
+        status: "call",
+        fields: { City: "Pune", Budget: "5L" },
+        updatedAt: "2025-01-03T00:00:00.000Z",
+      },
+    ]);
+    // meanwhile a sync on another instance changed the same lead
+    remote.state.down = false;
+    await remote.store.upsertLeads([
+      {
+        ...lead,
+        status: "site visit",
+        fields: { City: "Mumbai" },
+        updatedAt: "2025-01-02T00:00:00.000Z",
+      },
+    ]);
+
+    const result = await store.reconcile();
+    expect(result).toMatchObject({ replayed: 1, skipped: 1, remaining: 0 });
+    expect(await store.getLead(lead.id)).toMatchObject({
+      notes: "called back",
+      status: "site visit",
+      fields: { City: "Mumbai", Budget: "5L" },
+      updatedAt: "2025-01-03T00:00:00.000Z",
+    });
+  });
+
+  it("keeps the outbox when the remote is still down", async () => {
+    const store = withFailover(remote.store, local, {
+      mode: "fallback",
+      dataDir: dir,
+    });
+    remote.state.down = true;
+    await store.deleteLead("missing");
+    const result = await store.reconcile();
+    expect(result).toMatchObject({
+      replayed: 0,
+      remaining: 1,
+      error: "remote down",
+    });
+  });
+});
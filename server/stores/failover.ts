@@ -0,0 +1,327 @@
+import { randomUUID } from "crypto";
+import type {
+  Lead,
+  ReconcileResponse,
+  StoreFailureMode,
+  StoreStatusResponse,
+} from "@shared/api";
+import { readJSON, updateJSON, DATA_DIR } from "../utils/storage";
+import type { CrmStore } from "./types";
+
+const FILE_OUTBOX = "outbox.json";
+
+const READ_METHODS = [
+  "listLeads",
+  "queryLeads",
+  "getLead",
+  "listSalespersons",
+  "getSalesperson",
+  "getConfig",
+  "listActivity",
+  "getLeadRedirect",
+  "listTasks",
+  "getTask",
+  "listStages",
+  "listAssignmentRules",
+  "listLeadSources",
+  "getLeadSource",
+  "listUsers",
+  "getUser",
+  "getUserByEmail",
+] as const;
+
+const WRITE_METHODS = [
+  "upsertLeads",
+  "deleteLead",
+  "upsertSalespersons",
+  "deleteSalesperson",
+  "saveConfig",
+  "appendActivity",
+  "moveActivity",
+  "upsertLeadRedirects",
+  "upsertTasks",
+  "deleteTask",
+  "saveStages",
+  "saveAssignmentRules",
+  "upsertLeadSources",
+  "deleteLeadSource",
+  "upsertUsers",
+  "deleteUser",
+] as const;
+
+type WriteMethod = (typeof WRITE_METHODS)[number];
+
+interface OutboxEntry {
+  id: string;
+  at: string; // ISO
+  method: WriteMethod;
+  args: any[];
+  // upsertLeads: the local copy each lead was read from (null: none)
+  base?: (Lead | null)[];
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * `remote` with the changes `lead` made to `base`, the copy it was built on.
+ * A change the remote also made differently since `base` is a conflict and
+ * keeps the remote value. The lead is null when nothing is left to write.
+ */
+function mergeLeadChanges(lead: Lead, base: Lead, remote: Lead) {
+  const merged: any = { ...remote, fields: { ...remote.fields } };
+  let changes = 0;
+  let conflicts = 0;
+  const carry = (
+    target: any,
+    key: string,
+    ours: any,
+    from: any,
+    theirs: any,
+  ) => {
+    if (same(ours, from)) return;
+    if (!same(theirs, from)) {
+      if (!same(theirs, ours)) conflicts++;
+      return;
+    }
+    target[key] = ours;
+    changes++;
+  };
+  const keys = new Set([...Object.keys(lead), ...Object.keys(base)]);
+  for (const key of keys) {
+    if (["id", "createdAt", "updatedAt", "fields"].includes(key)) continue;
+    carry(
+      merged,
+      key,
+      (lead as any)[key],
+      (base as any)[key],
+      (remote as any)[key],
+    );
+  }
+  const fields = new Set([
+    ...Object.keys(lead.fields || {}),
+    ...Object.keys(base.fields || {}),
+  ]);
+  for (const key of fields)
+    carry(
+      merged.fields,
+      key,
+      lead.fields?.[key],
+      base.fields?.[key],
+      remote.fields?.[key],
+    );
+  for (const key of Object.keys(merged.fields))
+    if (merged.fields[key] === undefined) delete merged.fields[key];
+  if (changes === 0) return { lead: null, conflicts };
+  if (lead.updatedAt > remote.updatedAt) merged.updatedAt = lead.updatedAt;
+  return { lead: merged as Lead, conflicts };
+}
+
+export interface FailoverOptions {
+  mode: StoreFailureMode;
+  dataDir?: string;
+}
+
+export interface FailoverStore extends CrmStore {
+  getStatus(): Promise<StoreStatusResponse>;
+  reconcile(): Promise<ReconcileResponse>;
+}
+
+/**
+ * Applies the storage failure policy around a remote store.
+ *
+ * In "strict" mode remote errors are recorded and rethrown. In "fallback"
+ * mode reads are served from the local store and writes are applied locally
+ * and buffered in outbox.json until `reconcile()` replays them; buffered
+ * lead writes only carry the fields they changed over. Either way
+ * the store reports itself degraded until the remote answers again and the
+ * outbox is empty.
+ */
+export function withFailover(
+  primary: CrmStore,
+  local: CrmStore,
+  opts: FailoverOptions,
+): FailoverStore {
+  const dataDir = opts.dataDir || DATA_DIR;
+  let lastError: string | undefined;
+  let degradedSince: string | undefined;
+
+  const readOutbox = () => readJSON<OutboxEntry[]>(FILE_OUTBOX, [], dataDir);
+
+  async function markHealthy() {
+    if (!degradedSince) return;
+    lastError = undefined;
+    if ((await readOutbox()).length === 0) degradedSince = undefined;
+  }
+
+  function markFailed(e: any) {
+    lastError = e?.message || String(e);
+    if (!degradedSince) degradedSince = new Date().toISOString();
+    console.error(`Store "${primary.kind}" failed: ${lastError}`);
+  }
+
+  function read<K extends (typeof READ_METHODS)[number]>(method: K) {
+    return (async (...args: any[]) => {
+      try {
+        const result = await (primary[method] as any)(...args);
+        await markHealthy();
+        return result;
+      } catch (e) {
+        markFailed(e);
+        if (opts.mode === "strict") throw e;
+        return await (local[method] as any)(...args);
+      }
+    }) as CrmStore[K];
+  }
+
+  function write<K extends WriteMethod>(method: K) {
+    return (async (...args: any[]) => {
+      try {
+        await (primary[method] as any)(...args);
+        await markHealthy();
+      } catch (e) {
+        markFailed(e);
+        if (opts.mode === "strict") throw e;
+        const base =
+          method === "upsertLeads"
+            ? await Promise.all(
+                (args[0] as Lead[]).map((l) => local.getLead(l.id)),
+              )
+            : undefined;
+        await (local[method] as any)(...args);
+        const entry: OutboxEntry = {
+          id: randomUUID(),
+          at: new Date().toISOString(),
+          method,
+          args,
+          base,
+        };
+        await updateJSON<OutboxEntry[]>(
+          FILE_OUTBOX,
+          [],
+          (cur) => [...cur, entry],
+          dataDir,
+        );
+      }
+    }) as CrmStore[K];
+  }
+
+  /**
+   * What to write for buffered lead writes, and how many lost something to a
+   * remote edit. Each lead carries over only the fields it changed from its
+   * `base`; fields the remote also changed since keep the remote value.
+   */
+  async function buffered(leads: Lead[], base: (Lead | null)[] = []) {
+    const keep: Lead[] = [];
+    let skipped = 0;
+    for (const [i, l] of leads.entries()) {
+      const remote = await primary.getLead(l.id);
+      const from = base[i] ?? null;
+      if (!remote) {
+        // deleted remotely since it was read: stays deleted
+        if (from) skipped++;
+        else keep.push(l);
+        continue;
+      }
+      if (!from) {
+        // never read from the local copy, so only a newer write may replace it
+        if (remote.updatedAt <= l.updatedAt) keep.push(l);
+        else skipped++;
+        continue;
+      }
+      const { lead, conflicts } = mergeLeadChanges(l, from, remote);
+      if (conflicts > 0) skipped++;
+      if (lead) keep.push(lead);
+    }
+    return { keep, skipped };
+  }
+
+  async function reconcile(): Promise<ReconcileResponse> {
+    const entries = await readOutbox();
+    let replayed = 0;
+    let skipped = 0;
+    let error: string | undefined;
+    for (const entry of entries) {
+      try {
+        let args = entry.args;
+        if (entry.method === "upsertLeads") {
+          const result = await buffered(args[0], entry.base);
+          skipped += result.skipped;
+          args = [result.keep];
+        }
+        await (primary[entry.method] as any)(...args);
+        await updateJSON<OutboxEntry[]>(
+          FILE_OUTBOX,
+          [],
+          (cur) => cur.filter((e) => e.id !== entry.id),
+          dataDir,
+        );
+        replayed++;
+      } catch (e: any) {
+        // stop at the first failure so later writes are not applied out of order
+        markFailed(e);
+        error = lastError;
+        break;
+      }
+    }
+    const remaining = (await readOutbox()).length;
+    if (!error && remaining === 0) {
+      lastError = undefined;
+      degradedSince = undefined;
+    }
+    return { replayed, skipped, remaining, error };
+  }
+
+  return {
+    kind: primary.kind,
+    listLeads: read("listLeads"),
+    queryLeads: read("queryLeads"),
+    getLead: read("getLead"),
+    upsertLeads: write("upsertLeads"),
+    deleteLead: write("deleteLead"),
+    appendActivity: write("appendActivity"),
+    listActivity: read("listActivity"),
+    moveActivity: write("moveActivity"),
+    getLeadRedirect: read("getLeadRedirect"),
+    upsertLeadRedirects: write("upsertLeadRedirects"),
+    listTasks: read("listTasks"),
+    getTask: read("getTask"),
+    upsertTasks: write("upsertTasks"),
+    deleteTask: write("deleteTask"),
+    listSalespersons: read("listSalespersons"),
+    getSalesperson: read("getSalesperson"),
+    upsertSalespersons: write("upsertSalespersons"),
+    deleteSalesperson: write("deleteSalesperson"),
+    listUsers: read("listUsers"),
+    getUser: read("getUser"),
+    getUserByEmail: read("getUserByEmail"),
+    upsertUsers: write("upsertUsers"),
+    deleteUser: write("deleteUser"),
+    listStages: read("listStages"),
+    saveStages: write("saveStages"),
+    listAssignmentRules: read("listAssignmentRules"),
+    saveAssignmentRules: write("saveAssignmentRules"),
+    listLeadSources: read("listLeadSources"),
+    getLeadSource: read("getLeadSource"),
+    upsertLeadSources: write("upsertLeadSources"),
+    deleteLeadSource: write("deleteLeadSource"),
+    getConfig: read("getConfig"),
+    saveConfig: write("saveConfig"),
+
+    async getStatus() {
+      const pendingWrites = (await readOutbox()).length;
+      if (pendingWrites > 0 && !degradedSince)
+        degradedSince = new Date().toISOString();
+      return {
+        backend: primary.kind,
+        mode: opts.mode,
+        degraded: !!lastError || pendingWrites > 0,
+        degradedSince,
+        lastError,
+        pendingWrites,
+      };
+    },
+
+    reconcile,
+  };
+}
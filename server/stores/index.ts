@@ -0,0 +1,89 @@
+import type { CrmStore } from "./types";
+import { createJsonStore } from "./json";
+import { createSupabaseStore } from "./supabase";
+import { createSqliteStore } from "./sqlite";
+import { withFailover, type FailoverStore } from "./failover";
+import type {
+  ReconcileResponse,
+  StoreFailureMode,
+  StoreStatusResponse,
+} from "@shared/api";
+
+export type { CrmStore, CRMState, LeadQuery, UserRecord } from "./types";
+export { DEFAULT_CONFIG } from "./types";
+export { createJsonStore } from "./json";
+export { createSupabaseStore } from "./supabase";
+export { createSqliteStore } from "./sqlite";
+export { StoreError } from "./errors";
+export { isListableLead } from "./query";
+export type { FailoverStore } from "./failover";
+
+let current: CrmStore | null = null;
+
+export function hasSupabaseEnv() {
+  return !!process.env.SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+}
+
+export function failureModeFromEnv(): StoreFailureMode {
+  const mode = (process.env.STORE_FAILURE_MODE || "").trim().toLowerCase();
+  return mode === "fallback" ? "fallback" : "strict";
+}
+
+export function createSupabaseStoreFromEnv(): CrmStore {
+  return createSupabaseStore({
+    url: process.env.SUPABASE_URL!,
+    serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  });
+}
+
+/**
+ * Pick the backend from the environment. CRM_STORE=json|supabase|sqlite
+ * forces one; otherwise Supabase is used when configured and the JSON files
+ * alone when it is not. STORE_FAILURE_MODE=strict|fallback decides what
+ * happens when Supabase fails (see failover.ts); strict is the default.
+ */
+export function createStoreFromEnv(): CrmStore {
+  const kind = (process.env.CRM_STORE || "").trim().toLowerCase();
+  const json = createJsonStore();
+  if (kind === "sqlite")
+    return createSqliteStore(process.env.SQLITE_PATH || undefined);
+  if (kind === "json") return json;
+  if (kind === "supabase" || hasSupabaseEnv()) {
+    if (!hasSupabaseEnv())
+      throw new Error(
+        "CRM_STORE=supabase requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY",
+      );
+    return withFailover(createSupabaseStoreFromEnv(), json, {
+      mode: failureModeFromEnv(),
+    });
+  }
+  return json;
+}
+
+export function getStore(): CrmStore {
+  if (!current) current = createStoreFromEnv();
+  return current;
+}
+
+// Used by tests and scripts to swap the backend
+export function setStore(store: CrmStore | null) {
+  current = store;
+}
+
+export async function getStoreStatus(): Promise<StoreStatusResponse> {
+  const store = getStore();
+  if (store.getStatus) return store.getStatus();
+  return {
+    backend: store.kind,
+    mode: "strict",
+    degraded: false,
+    pendingWrites: 0,
+  };
+}
+
+// Replays writes buffered during an outage; null when the store never buffers
+export async function reconcileStore(): Promise<ReconcileResponse | null> {
+  const store = getStore() as Partial<FailoverStore>;
+  if (!store.reconcile) return null;
+  return store.reconcile();
+}
@@ -0,0 +1,278 @@
+import { readJSON, writeJSON, updateJSON, DATA_DIR } from "../utils/storage";
+import type {
+  AssignmentRule,
+  Lead,
+  LeadActivity,
+  LeadRedirect,
+  LeadSource,
+  LeadTask,
+  PipelineStage,
+  Salesperson,
+  ConfigState,
+} from "@shared/api";
+import { DEFAULT_CONFIG, type CrmStore, type UserRecord } from "./types";
+import { byDueAt, matchesTaskQuery, queryLeadsInMemory } from "./query";
+
+const FILE_LEADS = "leads.json";
+const FILE_SALESPERSONS = "salespersons.json";
+const FILE_CONFIG = "config.json";
+const FILE_ACTIVITY = "activity.json";
+const FILE_TASKS = "tasks.json";
+const FILE_PIPELINE = "pipeline.json";
+const FILE_USERS = "users.json";
+const FILE_ASSIGNMENT_RULES = "assignment-rules.json";
+const FILE_LEAD_SOURCES = "lead-sources.json";
+const FILE_LEAD_REDIRECTS = "lead-redirects.json";
+
+function upsertById<T extends { id: string }>(current: T[], next: T[]): T[] {
+  const byId = new Map(next.map((item) => [item.id, item] as const));
+  const merged = current.map((item) => {
+    const replacement = byId.get(item.id);
+    if (!replacement) return item;
+    byId.delete(item.id);
+    return replacement;
+  });
+  // new records go first, matching the "newest on top" layout of leads.json
+  return [...byId.values(), ...merged];
+}
+
+export function createJsonStore(dataDir: string = DATA_DIR): CrmStore {
+  const readLeads = () => readJSON<Lead[]>(FILE_LEADS, [], dataDir);
+  const readTasks = () => readJSON<LeadTask[]>(FILE_TASKS, [], dataDir);
+  const readSalespersons = () =>
+    readJSON<Salesperson[]>(FILE_SALESPERSONS, [], dataDir);
+  const readUsers = () => readJSON<UserRecord[]>(FILE_USERS, [], dataDir);
+  const readLeadSources = () =>
+    readJSON<LeadSource[]>(FILE_LEAD_SOURCES, [], dataDir);
+
+  return {
+    kind: "json",
+
+    listLeads: readLeads,
+
+    async queryLeads(query) {
+      return queryLeadsInMemory(await readLeads(), query);
+    },
+
+    async getLead(id) {
+      const leads = await readLeads();
+      return leads.find((l) => l.id === id) || null;
+    },
+
+    async upsertLeads(leads) {
+      if (leads.length === 0) return;
+      await updateJSON<Lead[]>(
+        FILE_LEADS,
+        [],
+        (current) => upsertById(current, leads),
+        dataDir,
+      );
+    },
+
+    async deleteLead(id) {
+      await updateJSON<Lead[]>(
+        FILE_LEADS,
+        [],
+        (current) => current.filter((l) => l.id !== id),
+        dataDir,
+      );
+    },
+
+    async appendActivity(entries) {
+      if (entries.length === 0) return;
+      await updateJSON<LeadActivity[]>(
+        FILE_ACTIVITY,
+        [],
+        (current) => [...current, ...entries],
+        dataDir,
+      );
+    },
+
+    async listActivity(leadId) {
+      const all = await readJSON<LeadActivity[]>(FILE_ACTIVITY, [], dataDir);
+      return all.filter((a) => a.leadId === leadId);
+    },
+
+    async moveActivity(fromLeadId, toLeadId) {
+      await updateJSON<LeadActivity[]>(
+        FILE_ACTIVITY,
+        [],
+        (current) =>
+          current.map((a) =>
+            a.leadId === fromLeadId ? { ...a, leadId: toLeadId } : a,
+          ),
+        dataDir,
+      );
+    },
+
+    async getLeadRedirect(id) {
+      const redirects = await readJSON<LeadRedirect[]>(
+        FILE_LEAD_REDIRECTS,
+        [],
+        dataDir,
+      );
+      return redirects.find((r) => r.id === id) || null;
+    },
+
+    async upsertLeadRedirects(redirects) {
+      if (redirects.length === 0) return;
+      await updateJSON<LeadRedirect[]>(
+        FILE_LEAD_REDIRECTS,
+        [],
+        (current) => upsertById(current, redirects),
+        dataDir,
+      );
+    },
+
+    async listTasks(query) {
+      const tasks = await readTasks();
+      return tasks.filter((t) => matchesTaskQuery(t, query)).sort(byDueAt);
+    },
+
+    async getTask(id) {
+      const tasks = await readTasks();
+      return tasks.find((t) => t.id === id) || null;
+    },
+
+    async upsertTasks(tasks) {
+      if (tasks.length === 0) return;
+      await updateJSON<LeadTask[]>(
+        FILE_TASKS,
+        [],
+        (current) => upsertById(current, tasks),
+        dataDir,
+      );
+    },
+
+    async deleteTask(id) {
+      await updateJSON<LeadTask[]>(
+        FILE_TASKS,
+        [],
+        (current) => current.filter((t) => t.id !== id),
+        dataDir,
+      );
+    },
+
+    listSalespersons: readSalespersons,
+
+    async getSalesperson(id) {
+      const items = await readSalespersons();
+      return items.find((s) => s.id === id) || null;
+    },
+
+    async upsertSalespersons(salespersons) {
+      if (salespersons.length === 0) return;
+      await updateJSON<Salesperson[]>(
+        FILE_SALESPERSONS,
+        [],
+        (current) => upsertById(current, salespersons),
+        dataDir,
+      );
+    },
+
+    async deleteSalesperson(id) {
+      await updateJSON<Salesperson[]>(
+        FILE_SALESPERSONS,
+        [],
+        (current) => current.filter((s) => s.id !== id),
+        dataDir,
+      );
+    },
+
+    async listUsers() {
+      const users = await readUsers();
+      return [...users].sort((a, b) => a.email.localeCompare(b.email));
+    },
+
+    async getUser(id) {
+      const users = await readUsers();
+      return users.find((u) => u.id === id) || null;
+    },
+
+    async getUserByEmail(email) {
+      const users = await readUsers();
+      return users.find((u) => u.email === email) || null;
+    },
+
+    async upsertUsers(users) {
+      if (users.length === 0) return;
+      await updateJSON<UserRecord[]>(
+        FILE_USERS,
+        [],
+        (current) => upsertById(current, users),
+        dataDir,
+      );
+    },
+
+    async deleteUser(id) {
+      await updateJSON<UserRecord[]>(
+        FILE_USERS,
+        [],
+        (current) => current.filter((u) => u.id !== id),
+        dataDir,
+      );
+    },
+
+    async listStages() {
+      const stages = await readJSON<PipelineStage[]>(
+        FILE_PIPELINE,
+        [],
+        dataDir,
+      );
+      return [...stages].sort((a, b) => a.order - b.order);
+    },
+
+    async saveStages(stages) {
+      await writeJSON(FILE_PIPELINE, stages, dataDir);
+    },
+
+    async listAssignmentRules() {
+      const rules = await readJSON<AssignmentRule[]>(
+        FILE_ASSIGNMENT_RULES,
+        [],
+        dataDir,
+      );
+      return [...rules].sort((a, b) => a.order - b.order);
+    },
+
+    async saveAssignmentRules(rules) {
+      await writeJSON(FILE_ASSIGNMENT_RULES, rules, dataDir);
+    },
+
+    async listLeadSources() {
+      const sources = await readLeadSources();
+      return [...sources].sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async getLeadSource(id) {
+      const sources = await readLeadSources();
+      return sources.find((s) => s.id === id) || null;
+    },
+
+    async upsertLeadSources(sources) {
+      if (sources.length === 0) return;
+      await updateJSON<LeadSource[]>(
+        FILE_LEAD_SOURCES,
+        [],
+        (current) => upsertById(current, sources),
+        dataDir,
+      );
+    },
+
+    async deleteLeadSource(id) {
+      await updateJSON<LeadSource[]>(
+        FILE_LEAD_SOURCES,
+        [],
+        (current) => current.filter((s) => s.id !== id),
+        dataDir,
+      );
+    },
+
+    getConfig: () =>
+      readJSON<ConfigState>(FILE_CONFIG, DEFAULT_CONFIG, dataDir),
+
+    async saveConfig(config) {
+      await writeJSON(FILE_CONFIG, config, dataDir);
+    },
+  };
+}
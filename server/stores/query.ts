@@ -0,0 +1,115 @@
+import type { Lead, LeadSortField, LeadTask, Paginated } from "@shared/api";
+import type { LeadQuery, TaskQuery } from "./types";
+
+// Column behind each sortable Lead property in the SQL schema
+export const SORT_COLUMNS: Record<LeadSortField, string> = {
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+  name: "name",
+  status: "status",
+};
+
+/**
+ * Whether a stored lead is a real lead rather than a junk sheet row (blank
+ * rows, date separators, totals). The SQL stores push down the core of this
+ * check: non-empty fields and at least one of name, email or phone.
+ */
+export function isListableLead(l: Lead) {
+  const vals = Object.values(l.fields || {}).map((v) =>
+    (v || "").toString().trim(),
+  );
+  const nonEmpty = vals.filter((v) => v !== "");
+  if (nonEmpty.length === 0) return false;
+
+  // Check if only one non-empty value - likely junk
+  if (nonEmpty.length === 1) {
+    const v = nonEmpty[0];
+    const dateLike =
+      /^\d{1,2}[\-/]\d{1,2}[\-/]\d{2,4}$/.test(v) ||
+      /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i.test(v) ||
+      /^`\d{2}-\d{2}-\d{4}$/.test(v);
+    const totalLike = /^sum|^total|^subtotal/i.test(v);
+    const numericOnly = /^[-+]?\d{1,3}(?:[\,\d]*)(?:\.\d+)?$/.test(
+      v.replace(/\s+/g, ""),
+    );
+    if (dateLike || totalLike || numericOnly) return false;
+  }
+
+  // Also check if this is a real lead (has name, email or phone)
+  const hasRealData = !!(l.name || l.email || l.phone);
+  if (!hasRealData) {
+    // If no name, email or phone, at least need 3+ meaningful fields
+    const keyFields = [
+      "full name",
+      "phone",
+      "email",
+      "what_is_your_average_monthly_electricity_bill?",
+      "what_type_of_property_do_you_want_to_install_solar_on?",
+    ];
+    const realFieldCount = keyFields.filter(
+      (k) => (l.fields?.[k] || "").toString().trim() !== "",
+    ).length;
+    if (realFieldCount < 2) return false;
+  }
+
+  return true;
+}
+
+export function matchesLeadQuery(l: Lead, query: LeadQuery) {
+  if (query.status && l.status !== query.status) return false;
+  if (query.ownerId !== undefined && (l.ownerId || null) !== query.ownerId)
+    return false;
+  if (query.ownerIds && !query.ownerIds.includes(l.ownerId || "")) return false;
+  const created = Date.parse(l.createdAt);
+  if (query.createdFrom && created < Date.parse(query.createdFrom))
+    return false;
+  if (query.createdTo && created > Date.parse(query.createdTo)) return false;
+  if (query.q) {
+    const s = query.q.toLowerCase();
+    const haystack = [
+      ...Object.values(l.fields || {}),
+      l.name,
+      l.email,
+      l.phone,
+      l.company,
+    ]
+      .join(" ")
+      .toLowerCase();
+    if (!haystack.includes(s)) return false;
+  }
+  return true;
+}
+
+// In-memory implementation of CrmStore.queryLeads for stores without a query engine
+export function queryLeadsInMemory(
+  leads: Lead[],
+  query: LeadQuery,
+): Paginated<Lead> {
+  const matched = leads.filter(
+    (l) => isListableLead(l) && matchesLeadQuery(l, query),
+  );
+  const dir = query.order === "asc" ? 1 : -1;
+  matched.sort((a, b) => {
+    const av = (a[query.sort] || "").toString();
+    const bv = (b[query.sort] || "").toString();
+    return (av.localeCompare(bv) || a.id.localeCompare(b.id)) * dir;
+  });
+  return {
+    items: matched.slice(query.offset, query.offset + query.limit),
+    total: matched.length,
+  };
+}
+
+export function matchesTaskQuery(t: LeadTask, query: TaskQuery) {
+  if (query.leadId && t.leadId !== query.leadId) return false;
+  if (query.ownerId && t.ownerId !== query.ownerId) return false;
+  if (query.ownerIds && !query.ownerIds.includes(t.ownerId || "")) return false;
+  if (query.open && t.completedAt) return false;
+  if (query.dueBefore && Date.parse(t.dueAt) > Date.parse(query.dueBefore))
+    return false;
+  return true;
+}
+
+export function byDueAt(a: LeadTask, b: LeadTask) {
+  return Date.parse(a.dueAt) - Date.parse(b.dueAt) || a.id.localeCompare(b.id);
+}
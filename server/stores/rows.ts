@@ -0,0 +1,306 @@
+import type {
+  AssignmentRule,
+  ColumnMapping,
+  Lead,
+  LeadActivity,
+  LeadRedirect,
+  LeadSource,
+  LeadTask,
+  LeadStatus,
+  MappedField,
+  PipelineStage,
+  Salesperson,
+} from "@shared/api";
+import { mappedValue, resolveColumnMapping } from "../../shared/column-mapping";
+import type { UserRecord } from "./types";
+
+// Row shapes of the tables in supabase-schema.sql, shared
+// by every SQL-backed store.
+
+function getFieldValue(
+  fields: Record<string, string | undefined>,
+  candidates: string[],
+) {
+  for (const c of candidates) {
+    if (!c) continue;
+    if (
+      fields[c] !== undefined &&
+      fields[c] !== null &&
+      String(fields[c]).trim() !== ""
+    )
+      return String(fields[c]);
+  }
+  return undefined;
+}
+
+export function rowToLead(d: any): Lead {
+  return {
+    id: d.id,
+    fields: d.fields || {},
+    name: d.name,
+    email: d.email || undefined,
+    phone: d.phone || undefined,
+    phoneRaw: d.phone_raw || undefined,
+    company: d.company || undefined,
+    source: d.source || undefined,
+    status: d.status || "new",
+    ownerId: d.owner_id || null,
+    assignedAt: d.assigned_at ?? null,
+    slaBreachedAt: d.sla_breached_at ?? null,
+    escalatedTo: d.escalated_to ?? null,
+    notes: d.notes || undefined,
+    createdAt: d.created_at,
+    updatedAt: d.updated_at,
+  };
+}
+
+// Top-level sheet columns come from the configured column mapping, with
+// fields it leaves out matched against the lead's own sheet headers
+export function leadToRow(l: Lead, saved?: ColumnMapping | null) {
+  const fields = l.fields || {};
+  const mapping = resolveColumnMapping(saved, Object.keys(fields));
+  const value = (field: MappedField) => mappedValue(fields, mapping, field);
+  const whatType = value("propertyType");
+  const avgBill = value("bill");
+  const fullName = value("name");
+  const phoneField = value("phone");
+  const emailField = value("email");
+  const street = value("address");
+  const postCode = value("postCode");
+  const leadStatusField = value("status");
+  const note1 = getFieldValue(fields, ["note1", "note 1", ""]);
+  const note2 = getFieldValue(fields, ["note2", "note 2", ""]);
+
+  const body: any = {
+    id: l.id,
+    fields: fields || {},
+    name: l.name || fullName || null,
+    email: l.email || emailField || null,
+    phone: l.phone || phoneField || null,
+    phone_raw: l.phoneRaw || null,
+    company: l.company || null,
+    source: l.source || null,
+    status: l.status || (leadStatusField as LeadStatus) || "new",
+    owner_id: l.ownerId || null,
+    assigned_at: l.assignedAt ?? null,
+    sla_breached_at: l.slaBreachedAt ?? null,
+    escalated_to: l.escalatedTo ?? null,
+    notes: l.notes || null,
+    created_at: l.createdAt,
+    updated_at: l.updatedAt,
+  };
+
+  // add top-level sheet columns if available (these columns should exist in DB schema)
+  if (whatType) body.what_type_of_property = whatType;
+  if (avgBill) body.average_monthly_bill = avgBill;
+  if (fullName) body.full_name = fullName;
+  if (street) body.street_address = street;
+  if (postCode) body.post_code = postCode;
+  if (note1) body.note1 = note1;
+  if (note2) body.note2 = note2;
+  if (leadStatusField) body.lead_status = leadStatusField;
+  return body;
+}
+
+export function rowToSalesperson(d: any): Salesperson {
+  return {
+    id: d.id,
+    name: d.name,
+    email: d.email || undefined,
+    active: !!d.active,
+    managerId: d.manager_id ?? null,
+    weight: d.weight == null ? 1 : Number(d.weight),
+    maxOpenLeads: d.max_open_leads ?? null,
+    dailyCap: d.daily_cap ?? null,
+    availability: d.availability ?? null,
+    createdAt: d.created_at,
+  };
+}
+
+export function salespersonToRow(s: Salesperson) {
+  return {
+    id: s.id,
+    name: s.name,
+    email: s.email || null,
+    active: s.active,
+    manager_id: s.managerId ?? null,
+    weight: s.weight ?? 1,
+    max_open_leads: s.maxOpenLeads ?? null,
+    daily_cap: s.dailyCap ?? null,
+    availability: s.availability ?? null,
+    created_at: s.createdAt,
+  };
+}
+
+export function rowToActivity(d: any): LeadActivity {
+  return {
+    id: d.id,
+    leadId: d.lead_id,
+    at: d.at,
+    actor: d.actor,
+    kind: d.kind,
+    changes: d.changes || [],
+  };
+}
+
+export function activityToRow(a: LeadActivity) {
+  return {
+    id: a.id,
+    lead_id: a.leadId,
+    at: a.at,
+    actor: a.actor,
+    kind: a.kind,
+    changes: a.changes,
+  };
+}
+
+export function rowToLeadRedirect(d: any): LeadRedirect {
+  return { id: d.id, leadId: d.lead_id, mergedAt: d.merged_at };
+}
+
+export function leadRedirectToRow(r: LeadRedirect) {
+  return { id: r.id, lead_id: r.leadId, merged_at: r.mergedAt };
+}
+
+export function rowToTask(d: any): LeadTask {
+  return {
+    id: d.id,
+    leadId: d.lead_id,
+    ownerId: d.owner_id ?? null,
+    type: d.type,
+    dueAt: d.due_at,
+    note: d.note || undefined,
+    completedAt: d.completed_at ?? null,
+    overdueAt: d.overdue_at ?? null,
+    createdAt: d.created_at,
+    updatedAt: d.updated_at,
+  };
+}
+
+export function taskToRow(t: LeadTask) {
+  return {
+    id: t.id,
+    lead_id: t.leadId,
+    owner_id: t.ownerId ?? null,
+    type: t.type,
+    due_at: t.dueAt,
+    note: t.note ?? null,
+    completed_at: t.completedAt ?? null,
+    overdue_at: t.overdueAt ?? null,
+    created_at: t.createdAt,
+    updated_at: t.updatedAt,
+  };
+}
+
+export function rowToStage(d: any): PipelineStage {
+  return {
+    id: d.id,
+    label: d.label,
+    order: Number(d.position),
+    color: d.color,
+    outcome: d.outcome ?? null,
+    allowedFrom: d.allowed_from || [],
+    requiredFields: d.required_fields || [],
+  };
+}
+
+// `order` is a reserved word in SQL, so the column is called `position`
+export function stageToRow(s: PipelineStage) {
+  return {
+    id: s.id,
+    label: s.label,
+    position: s.order,
+    color: s.color,
+    outcome: s.outcome ?? null,
+    allowed_from: s.allowedFrom || [],
+    required_fields: s.requiredFields || [],
+  };
+}
+
+export function rowToAssignmentRule(d: any): AssignmentRule {
+  return {
+    id: d.id,
+    name: d.name || "",
+    order: Number(d.position),
+    active: Boolean(d.active),
+    conditions: d.conditions || [],
+    targetIds: d.target_ids || [],
+  };
+}
+
+export function assignmentRuleToRow(r: AssignmentRule) {
+  return {
+    id: r.id,
+    name: r.name,
+    position: r.order,
+    active: r.active,
+    conditions: r.conditions,
+    target_ids: r.targetIds,
+  };
+}
+
+export function rowToLeadSource(d: any): LeadSource {
+  return {
+    id: d.id,
+    name: d.name,
+    sheetUrl: d.sheet_url,
+    columnMapping: d.column_mapping ?? null,
+    sourceTag: d.source_tag || undefined,
+    ownerIds: d.owner_ids || [],
+    enabled: Boolean(d.enabled),
+    syncMinutes: Number(d.sync_minutes),
+    lastSyncAt: d.last_sync_at ?? null,
+    lastError: d.last_error ?? null,
+    lastErrorAt: d.last_error_at ?? null,
+    headers: d.headers || undefined,
+    createdAt: d.created_at,
+  };
+}
+
+export function leadSourceToRow(s: LeadSource) {
+  return {
+    id: s.id,
+    name: s.name,
+    sheet_url: s.sheetUrl,
+    column_mapping: s.columnMapping ?? null,
+    source_tag: s.sourceTag || null,
+    owner_ids: s.ownerIds,
+    enabled: s.enabled,
+    sync_minutes: s.syncMinutes,
+    last_sync_at: s.lastSyncAt ?? null,
+    last_error: s.lastError ?? null,
+    last_error_at: s.lastErrorAt ?? null,
+    headers: s.headers ?? null,
+    created_at: s.createdAt,
+  };
+}
+
+export function rowToUser(d: any): UserRecord {
+  return {
+    id: d.id,
+    email: d.email,
+    name: d.name || "",
+    // every stored account has a role (add-roles.sql backfills old ones);
+    // a missing one gets the least access rather than the most
+    role: d.role || "salesperson",
+    salespersonId: d.salesperson_id ?? null,
+    passwordHash: d.password_hash,
+    sessionVersion: Number(d.session_version) || 0,
+    createdAt: d.created_at,
+    updatedAt: d.updated_at,
+  };
+}
+
+export function userToRow(u: UserRecord) {
+  return {
+    id: u.id,
+    email: u.email,
+    name: u.name,
+    role: u.role,
+    salesperson_id: u.salespersonId ?? null,
+    password_hash: u.passwordHash,
+    session_version: u.sessionVersion ?? 0,
+    created_at: u.createdAt,
+    updated_at: u.updatedAt,
+  };
+}
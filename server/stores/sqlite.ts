@@ -0,0 +1,799 @@
+import Database from "better-sqlite3";
+import path from "path";
+import { promises as fs } from "fs";
+import type { ConfigState } from "@shared/api";
+import { DATA_DIR } from "../utils/storage";
+import { StoreError } from "./errors";
+import {
+  DEFAULT_CONFIG,
+  type CrmStore,
+  type LeadQuery,
+  type TaskQuery,
+} from "./types";
+import { SORT_COLUMNS } from "./query";
+import {
+  activityToRow,
+  leadRedirectToRow,
+  leadToRow,
+  rowToActivity,
+  rowToLead,
+  rowToSalesperson,
+  rowToStage,
+  rowToTask,
+  rowToAssignmentRule,
+  assignmentRuleToRow,
+  rowToLeadSource,
+  rowToLeadRedirect,
+  leadSourceToRow,
+  salespersonToRow,
+  stageToRow,
+  taskToRow,
+  rowToUser,
+  userToRow,
+} from "./rows";
+
+export const DEFAULT_SQLITE_FILE = path.join(DATA_DIR, "crm.sqlite");
+
+// Mirrors supabase-schema.sql (plus supabase-sql/add-sheet-columns.sql).
+// JSON/array columns are stored as TEXT and timestamps as ISO strings.
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS leads (
+  id TEXT PRIMARY KEY,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  phone_raw TEXT,
+  company TEXT,
+  source TEXT,
+  status TEXT DEFAULT 'new',
+  owner_id TEXT,
+  assigned_at TEXT,
+  sla_breached_at TEXT,
+  escalated_to TEXT,
+  notes TEXT,
+  fields TEXT NOT NULL DEFAULT '{}',
+  what_type_of_property TEXT,
+  average_monthly_bill TEXT,
+  full_name TEXT,
+  street_address TEXT,
+  post_code TEXT,
+  lead_status TEXT,
+  note1 TEXT,
+  note2 TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_leads_email ON leads(email);
+CREATE INDEX IF NOT EXISTS idx_leads_phone ON leads(phone);
+CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);
+CREATE INDEX IF NOT EXISTS idx_leads_owner_id ON leads(owner_id);
+CREATE INDEX IF NOT EXISTS idx_leads_created_at ON leads(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_full_name ON leads(lower(full_name));
+CREATE INDEX IF NOT EXISTS idx_leads_post_code ON leads(post_code);
+
+CREATE TABLE IF NOT EXISTS lead_activity (
+  id TEXT PRIMARY KEY,
+  lead_id TEXT NOT NULL,
+  at TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  changes TEXT NOT NULL DEFAULT '[]'
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_activity_lead_at ON lead_activity(lead_id, at);
+
+CREATE TABLE IF NOT EXISTS lead_redirects (
+  id TEXT PRIMARY KEY,
+  lead_id TEXT NOT NULL,
+  merged_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS lead_tasks (
+  id TEXT PRIMARY KEY,
+  lead_id TEXT NOT NULL,
+  owner_id TEXT,
+  type TEXT NOT NULL,
+  due_at TEXT NOT NULL,
+  note TEXT,
+  completed_at TEXT,
+  overdue_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_lead_id ON lead_tasks(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_owner_due ON lead_tasks(owner_id, due_at);
+
+CREATE TABLE IF NOT EXISTS salespersons (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  email TEXT,
+  active INTEGER NOT NULL DEFAULT 1,
+  manager_id TEXT,
+  weight REAL NOT NULL DEFAULT 1,
+  max_open_leads INTEGER,
+  daily_cap INTEGER,
+  availability TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_salespersons_name ON salespersons(name);
+CREATE INDEX IF NOT EXISTS idx_salespersons_active ON salespersons(active);
+
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL DEFAULT '',
+  role TEXT NOT NULL,
+  salesperson_id TEXT,
+  password_hash TEXT NOT NULL,
+  session_version INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  id TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  color TEXT NOT NULL,
+  outcome TEXT,
+  allowed_from TEXT NOT NULL DEFAULT '[]',
+  required_fields TEXT NOT NULL DEFAULT '[]'
+);
+
+CREATE TABLE IF NOT EXISTS assignment_rules (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL DEFAULT '',
+  position INTEGER NOT NULL,
+  active INTEGER NOT NULL DEFAULT 1,
+  conditions TEXT NOT NULL DEFAULT '[]',
+  target_ids TEXT NOT NULL DEFAULT '[]'
+);
+
+CREATE TABLE IF NOT EXISTS lead_sources (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  sheet_url TEXT NOT NULL,
+  column_mapping TEXT,
+  source_tag TEXT,
+  owner_ids TEXT NOT NULL DEFAULT '[]',
+  enabled INTEGER NOT NULL DEFAULT 1,
+  sync_minutes INTEGER NOT NULL,
+  last_sync_at TEXT,
+  last_error TEXT,
+  last_error_at TEXT,
+  headers TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS config (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  sheet_url TEXT,
+  last_sync_at TEXT,
+  headers TEXT NOT NULL DEFAULT '[]',
+  sla TEXT,
+  column_mapping TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+`;
+
+// Columns added after a table first shipped; CREATE TABLE IF NOT EXISTS
+// does not add them to databases created by an older version.
+const ADDED_COLUMNS: Record<string, Record<string, string>> = {
+  pipeline_stages: {
+    allowed_from: "TEXT NOT NULL DEFAULT '[]'",
+    required_fields: "TEXT NOT NULL DEFAULT '[]'",
+  },
+  leads: {
+    assigned_at: "TEXT",
+    sla_breached_at: "TEXT",
+    escalated_to: "TEXT",
+    phone_raw: "TEXT",
+  },
+  salespersons: {
+    manager_id: "TEXT",
+    weight: "REAL NOT NULL DEFAULT 1",
+    max_open_leads: "INTEGER",
+    daily_cap: "INTEGER",
+    availability: "TEXT",
+  },
+  users: { role: "TEXT", session_version: "INTEGER NOT NULL DEFAULT 0" },
+  config: { sla: "TEXT", column_mapping: "TEXT" },
+};
+
+function addMissingColumns(conn: Database.Database) {
+  for (const [table, columns] of Object.entries(ADDED_COLUMNS)) {
+    const existing = new Set(
+      (conn.pragma(`table_info(${table})`) as { name: string }[]).map(
+        (c) => c.name,
+      ),
+    );
+    for (const [name, type] of Object.entries(columns)) {
+      if (!existing.has(name))
+        conn.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+    }
+  }
+}
+
+const LEAD_COLUMNS = [
+  "id",
+  "name",
+  "email",
+  "phone",
+  "phone_raw",
+  "company",
+  "source",
+  "status",
+  "owner_id",
+  "assigned_at",
+  "sla_breached_at",
+  "escalated_to",
+  "notes",
+  "fields",
+  "what_type_of_property",
+  "average_monthly_bill",
+  "full_name",
+  "street_address",
+  "post_code",
+  "lead_status",
+  "note1",
+  "note2",
+  "created_at",
+  "updated_at",
+];
+
+function upsertSql(table: string, columns: string[]) {
+  const updates = columns
+    .filter((c) => c !== "id")
+    .map((c) => `${c} = excluded.${c}`)
+    .join(", ");
+  return `INSERT INTO ${table} (${columns.join(", ")})
+    VALUES (${columns.map((c) => `@${c}`).join(", ")})
+    ON CONFLICT(id) DO UPDATE SET ${updates}`;
+}
+
+// owner_id IN (...) with one named parameter per id; matches nothing when empty
+function ownerInClause(ownerIds: string[], params: Record<string, unknown>) {
+  if (ownerIds.length === 0) return "0 = 1";
+  const names = ownerIds.map((id, i) => {
+    params[`owner${i}`] = id;
+    return `@owner${i}`;
+  });
+  return `owner_id IN (${names.join(", ")})`;
+}
+
+// SQL counterpart of isListableLead plus the LeadQuery filters
+function whereClause(query: LeadQuery) {
+  const clauses = [
+    "fields <> '{}'",
+    "(trim(coalesce(name, '')) <> '' OR trim(coalesce(email, '')) <> '' OR trim(coalesce(phone, '')) <> '')",
+  ];
+  const params: Record<string, unknown> = {};
+  if (query.status) {
+    clauses.push("status = @status");
+    params.status = query.status;
+  }
+  if (query.ownerId === null) clauses.push("owner_id IS NULL");
+  else if (query.ownerId !== undefined) {
+    clauses.push("owner_id = @ownerId");
+    params.ownerId = query.ownerId;
+  }
+  if (query.ownerIds) clauses.push(ownerInClause(query.ownerIds, params));
+  // julianday() compares ISO timestamps regardless of "Z" vs "+00:00" suffixes
+  if (query.createdFrom) {
+    clauses.push("julianday(created_at) >= julianday(@createdFrom)");
+    params.createdFrom = query.createdFrom;
+  }
+  if (query.createdTo) {
+    clauses.push("julianday(created_at) <= julianday(@createdTo)");
+    params.createdTo = query.createdTo;
+  }
+  if (query.q) {
+    const columns = ["name", "email", "phone", "company"].map(
+      (c) => `instr(lower(coalesce(${c}, '')), @q) > 0`,
+    );
+    columns.push(
+      "EXISTS (SELECT 1 FROM json_each(fields) WHERE instr(lower(value), @q) > 0)",
+    );
+    clauses.push(`(${columns.join(" OR ")})`);
+    params.q = query.q.toLowerCase();
+  }
+  return { sql: clauses.join(" AND "), params };
+}
+
+const TASK_COLUMNS = [
+  "id",
+  "lead_id",
+  "owner_id",
+  "type",
+  "due_at",
+  "note",
+  "completed_at",
+  "overdue_at",
+  "created_at",
+  "updated_at",
+];
+
+const LEAD_SOURCE_COLUMNS = [
+  "id",
+  "name",
+  "sheet_url",
+  "column_mapping",
+  "source_tag",
+  "owner_ids",
+  "enabled",
+  "sync_minutes",
+  "last_sync_at",
+  "last_error",
+  "last_error_at",
+  "headers",
+  "created_at",
+];
+
+const USER_COLUMNS = [
+  "id",
+  "email",
+  "name",
+  "role",
+  "salesperson_id",
+  "password_hash",
+  "session_version",
+  "created_at",
+  "updated_at",
+];
+
+function taskWhereClause(query: TaskQuery) {
+  const clauses = ["1 = 1"];
+  const params: Record<string, unknown> = {};
+  if (query.leadId) {
+    clauses.push("lead_id = @leadId");
+    params.leadId = query.leadId;
+  }
+  if (query.ownerId) {
+    clauses.push("owner_id = @ownerId");
+    params.ownerId = query.ownerId;
+  }
+  if (query.ownerIds) clauses.push(ownerInClause(query.ownerIds, params));
+  if (query.open) clauses.push("completed_at IS NULL");
+  if (query.dueBefore) {
+    clauses.push("julianday(due_at) <= julianday(@dueBefore)");
+    params.dueBefore = query.dueBefore;
+  }
+  return { sql: clauses.join(" AND "), params };
+}
+
+function fromLeadRow(row: any) {
+  return rowToLead({ ...row, fields: JSON.parse(row.fields || "{}") });
+}
+
+function fromLeadSourceRow(row: any) {
+  return rowToLeadSource({
+    ...row,
+    column_mapping: row.column_mapping ? JSON.parse(row.column_mapping) : null,
+    owner_ids: JSON.parse(row.owner_ids || "[]"),
+    headers: row.headers ? JSON.parse(row.headers) : null,
+  });
+}
+
+function fromSalespersonRow(row: any) {
+  return rowToSalesperson({
+    ...row,
+    availability: row.availability ? JSON.parse(row.availability) : null,
+  });
+}
+
+export function createSqliteStore(
+  filename: string = DEFAULT_SQLITE_FILE,
+): CrmStore {
+  let db: Database.Database | null = null;
+
+  // Opened on first use so that selecting the store never blocks startup
+  async function open() {
+    if (db) return db;
+    if (filename !== ":memory:")
+      await fs.mkdir(path.dirname(filename), { recursive: true });
+    // older Node crashes inside the native module instead of failing cleanly
+    if (Number(process.versions.node.split(".")[0]) < 22)
+      throw new StoreError(
+        `The SQLite store needs Node 22 or later (running ${process.version})`,
+        "sqlite",
+      );
+    db = new Database(filename);
+    db.pragma("journal_mode = WAL");
+    db.exec(SCHEMA);
+    addMissingColumns(db);
+    // accounts from before roles had full access; as in add-roles.sql
+    db.exec("UPDATE users SET role = 'admin' WHERE role IS NULL");
+    return db;
+  }
+
+  return {
+    kind: "sqlite",
+
+    async listLeads() {
+      const conn = await open();
+      const rows = conn
+        .prepare("SELECT * FROM leads ORDER BY created_at DESC")
+        .all();
+      return rows.map(fromLeadRow);
+    },
+
+    async queryLeads(query) {
+      const conn = await open();
+      const where = whereClause(query);
+      const dir = query.order === "asc" ? "ASC" : "DESC";
+      const { total } = conn
+        .prepare(`SELECT count(*) AS total FROM leads WHERE ${where.sql}`)
+        .get(where.params) as { total: number };
+      const rows = conn
+        .prepare(
+          `SELECT * FROM leads WHERE ${where.sql}
+          ORDER BY ${SORT_COLUMNS[query.sort]} ${dir}, id ${dir}
+          LIMIT @limit OFFSET @offset`,
+        )
+        .all({ ...where.params, limit: query.limit, offset: query.offset });
+      return { items: rows.map(fromLeadRow), total };
+    },
+
+    async getLead(id) {
+      const conn = await open();
+      const row = conn.prepare("SELECT * FROM leads WHERE id = ?").get(id);
+      return row ? fromLeadRow(row) : null;
+    },
+
+    async upsertLeads(leads) {
+      if (leads.length === 0) return;
+      const conn = await open();
+      const stmt = conn.prepare(upsertSql("leads", LEAD_COLUMNS));
+      const config: any = conn
+        .prepare("SELECT column_mapping FROM config WHERE id = 1")
+        .get();
+      const mapping = config?.column_mapping
+        ? JSON.parse(config.column_mapping)
+        : null;
+      conn.transaction(() => {
+        for (const l of leads) {
+          const row = leadToRow(l, mapping);
+          const params: Record<string, unknown> = {};
+          for (const c of LEAD_COLUMNS) params[c] = row[c] ?? null;
+          params.fields = JSON.stringify(row.fields || {});
+          stmt.run(params);
+        }
+      })();
+    },
+
+    async deleteLead(id) {
+      const conn = await open();
+      conn.prepare("DELETE FROM leads WHERE id = ?").run(id);
+    },
+
+    async appendActivity(entries) {
+      if (entries.length === 0) return;
+      const conn = await open();
+      const stmt = conn.prepare(
+        `INSERT INTO lead_activity (id, lead_id, at, actor, kind, changes)
+        VALUES (@id, @lead_id, @at, @actor, @kind, @changes)`,
+      );
+      conn.transaction(() => {
+        for (const a of entries) {
+          const row = activityToRow(a);
+          stmt.run({ ...row, changes: JSON.stringify(row.changes) });
+        }
+      })();
+    },
+
+    async listActivity(leadId) {
+      const conn = await open();
+      const rows = conn
+        .prepare(
+          "SELECT * FROM lead_activity WHERE lead_id = ? ORDER BY at ASC, rowid ASC",
+        )
+        .all(leadId);
+      return rows.map((r: any) =>
+        rowToActivity({ ...r, changes: JSON.parse(r.changes || "[]") }),
+      );
+    },
+
+    async moveActivity(fromLeadId, toLeadId) {
+      const conn = await open();
+      conn
+        .prepare("UPDATE lead_activity SET lead_id = ? WHERE lead_id = ?")
+        .run(toLeadId, fromLeadId);
+    },
+
+    async getLeadRedirect(id) {
+      const conn = await open();
+      const row = conn
+        .prepare("SELECT * FROM lead_redirects WHERE id = ?")
+        .get(id);
+      return row ? rowToLeadRedirect(row) : null;
+    },
+
+    async upsertLeadRedirects(redirects) {
+      if (redirects.length === 0) return;
+      const conn = await open();
+      const stmt = conn.prepare(
+        upsertSql("lead_redirects", ["id", "lead_id", "merged_at"]),
+      );
+      conn.transaction(() => {
+        for (const r of redirects) stmt.run(leadRedirectToRow(r));
+      })();
+    },
+
+    async listTasks(query) {
+      const conn = await open();
+      const where = taskWhereClause(query);
+      const rows = conn
+        .prepare(
+          `SELECT * FROM lead_tasks WHERE ${where.sql}
+          ORDER BY julianday(due_at) ASC, id ASC`,
+        )
+        .all(where.params);
+      return rows.map(rowToTask);
+    },
+
+    async getTask(id) {
+      const conn = await open();
+      const row = conn.prepare("SELECT * FROM lead_tasks WHERE id = ?").get(id);
+      return row ? rowToTask(row) : null;
+    },
+
+    async upsertTasks(tasks) {
+      if (tasks.length === 0) return;
+      const conn = await open();
+      const stmt = conn.prepare(upsertSql("lead_tasks", TASK_COLUMNS));
+      conn.transaction(() => {
+        for (const t of tasks) stmt.run(taskToRow(t));
+      })();
+    },
+
+    async deleteTask(id) {
+      const conn = await open();
+      conn.prepare("DELETE FROM lead_tasks WHERE id = ?").run(id);
+    },
+
+    async listSalespersons() {
+      const conn = await open();
+      const rows = conn
+        .prepare("SELECT * FROM salespersons ORDER BY name ASC")
+        .all();
+      return rows.map(fromSalespersonRow);
+    },
+
+    async getSalesperson(id) {
+      const conn = await open();
+      const row = conn
+        .prepare("SELECT * FROM salespersons WHERE id = ?")
+        .get(id);
+      return row ? fromSalespersonRow(row) : null;
+    },
+
+    async upsertSalespersons(salespersons) {
+      if (salespersons.length === 0) return;
+      const conn = await open();
+      const stmt = conn.prepare(
+        upsertSql("salespersons", [
+          "id",
+          "name",
+          "email",
+          "active",
+          "manager_id",
+          "weight",
+          "max_open_leads",
+          "daily_cap",
+          "availability",
+          "created_at",
+        ]),
+      );
+      conn.transaction(() => {
+        for (const s of salespersons) {
+          const row = salespersonToRow(s);
+          stmt.run({
+            ...row,
+            active: row.active ? 1 : 0,
+            availability: row.availability
+              ? JSON.stringify(row.availability)
+              : null,
+          });
+        }
+      })();
+    },
+
+    async deleteSalesperson(id) {
+      const conn = await open();
+      conn.prepare("DELETE FROM salespersons WHERE id = ?").run(id);
+    },
+
+    async listUsers() {
+      const conn = await open();
+      const rows = conn.prepare("SELECT * FROM users ORDER BY email ASC").all();
+      return rows.map(rowToUser);
+    },
+
+    async getUser(id) {
+      const conn = await open();
+      const row = conn.prepare("SELECT * FROM users WHERE id = ?").get(id);
+      return row ? rowToUser(row) : null;
+    },
+
+    async getUserByEmail(email) {
+      const conn = await open();
+      const row = conn
+        .prepare("SELECT * FROM users WHERE email = ?")
+        .get(email);
+      return row ? rowToUser(row) : null;
+    },
+
+    async upsertUsers(users) {
+      if (users.length === 0) return;
+      const conn = await open();
+      const stmt = conn.prepare(upsertSql("users", USER_COLUMNS));
+      conn.transaction(() => {
+        for (const u of users) stmt.run(userToRow(u));
+      })();
+    },
+
+    async deleteUser(id) {
+      const conn = await open();
+      conn.prepare("DELETE FROM users WHERE id = ?").run(id);
+    },
+
+    async listStages() {
+      const conn = await open();
+      const rows = conn
+        .prepare("SELECT * FROM pipeline_stages ORDER BY position ASC")
+        .all();
+      return rows.map((r: any) =>
+        rowToStage({
+          ...r,
+          allowed_from: JSON.parse(r.allowed_from || "[]"),
+          required_fields: JSON.parse(r.required_fields || "[]"),
+        }),
+      );
+    },
+
+    async saveStages(stages) {
+      const conn = await open();
+      const stmt = conn.prepare(
+        `INSERT INTO pipeline_stages
+          (id, label, position, color, outcome, allowed_from, required_fields)
+        VALUES
+          (@id, @label, @position, @color, @outcome, @allowed_from, @required_fields)`,
+      );
+      conn.transaction(() => {
+        conn.prepare("DELETE FROM pipeline_stages").run();
+        for (const s of stages) {
+          const row = stageToRow(s);
+          stmt.run({
+            ...row,
+            allowed_from: JSON.stringify(row.allowed_from),
+            required_fields: JSON.stringify(row.required_fields),
+          });
+        }
+      })();
+    },
+
+    async listAssignmentRules() {
+      const conn = await open();
+      const rows = conn
+        .prepare("SELECT * FROM assignment_rules ORDER BY position ASC")
+        .all();
+      return rows.map((r: any) =>
+        rowToAssignmentRule({
+          ...r,
+          conditions: JSON.parse(r.conditions || "[]"),
+          target_ids: JSON.parse(r.target_ids || "[]"),
+        }),
+      );
+    },
+
+    async saveAssignmentRules(rules) {
+      const conn = await open();
+      const stmt = conn.prepare(
+        `INSERT INTO assignment_rules
+          (id, name, position, active, conditions, target_ids)
+        VALUES
+          (@id, @name, @position, @active, @conditions, @target_ids)`,
+      );
+      conn.transaction(() => {
+        conn.prepare("DELETE FROM assignment_rules").run();
+        for (const r of rules) {
+          const row = assignmentRuleToRow(r);
+          stmt.run({
+            ...row,
+            active: row.active ? 1 : 0,
+            conditions: JSON.stringify(row.conditions),
+            target_ids: JSON.stringify(row.target_ids),
+          });
+        }
+      })();
+    },
+
+    async listLeadSources() {
+      const conn = await open();
+      const rows = conn
+        .prepare("SELECT * FROM lead_sources ORDER BY name ASC")
+        .all();
+      return rows.map(fromLeadSourceRow);
+    },
+
+    async getLeadSource(id) {
+      const conn = await open();
+      const row = conn
+        .prepare("SELECT * FROM lead_sources WHERE id = ?")
+        .get(id);
+      return row ? fromLeadSourceRow(row) : null;
+    },
+
+    async upsertLeadSources(sources) {
+      if (sources.length === 0) return;
+      const conn = await open();
+      const stmt = conn.prepare(upsertSql("lead_sources", LEAD_SOURCE_COLUMNS));
+      conn.transaction(() => {
+        for (const s of sources) {
+          const row = leadSourceToRow(s);
+          stmt.run({
+            ...row,
+            enabled: row.enabled ? 1 : 0,
+            column_mapping: row.column_mapping
+              ? JSON.stringify(row.column_mapping)
+              : null,
+            owner_ids: JSON.stringify(row.owner_ids),
+            headers: row.headers ? JSON.stringify(row.headers) : null,
+          });
+        }
+      })();
+    },
+
+    async deleteLeadSource(id) {
+      const conn = await open();
+      conn.prepare("DELETE FROM lead_sources WHERE id = ?").run(id);
+    },
+
+    async getConfig() {
+      const conn = await open();
+      const row: any = conn.prepare("SELECT * FROM config WHERE id = 1").get();
+      if (!row) return DEFAULT_CONFIG;
+      const headers = JSON.parse(row.headers || "[]");
+      return {
+        sheetUrl: row.sheet_url || undefined,
+        lastSyncAt: row.last_sync_at || undefined,
+        headers: headers.length ? headers : undefined,
+        sla: row.sla ? JSON.parse(row.sla) : null,
+        columnMapping: row.column_mapping
+          ? JSON.parse(row.column_mapping)
+          : null,
+      };
+    },
+
+    async saveConfig(config: ConfigState) {
+      const conn = await open();
+      conn
+        .prepare(
+          `INSERT INTO config
+            (id, sheet_url, last_sync_at, headers, sla, column_mapping)
+          VALUES
+            (1, @sheet_url, @last_sync_at, @headers, @sla, @column_mapping)
+          ON CONFLICT(id) DO UPDATE SET
+            sheet_url = excluded.sheet_url,
+            last_sync_at = excluded.last_sync_at,
+            headers = excluded.headers,
+            sla = excluded.sla,
+            column_mapping = excluded.column_mapping,
+            updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`,
+        )
+        .run({
+          sheet_url: config.sheetUrl || null,
+          last_sync_at: config.lastSyncAt || null,
+          headers: JSON.stringify(config.headers || []),
+          sla: config.sla ? JSON.stringify(config.sla) : null,
+          column_mapping: config.columnMapping
+            ? JSON.stringify(config.columnMapping)
+            : null,
+        });
+    },
+  };
+}
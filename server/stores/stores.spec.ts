@@ -0,0 +1,519 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import type {
+  AssignmentRule,
+  Lead,
+  LeadActivity,
+  LeadSource,
+  LeadTask,
+  PipelineStage,
+  Salesperson,
+} from "@shared/api";
+import type { CrmStore, UserRecord } from "./types";
+import { createJsonStore } from "./json";
+import { createSupabaseStore } from "./supabase";
+
+function makeLead(patch: Partial<Lead> = {}): Lead {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    fields: { "full name": "Test Lead", phone: "9000000000" },
+    name: "Test Lead",
+    phone: "9000000000",
+    status: "new",
+    ownerId: null,
+    createdAt: now,
+    updatedAt: now,
+    ...patch,
+  };
+}
+
+function makeSalesperson(patch: Partial<Salesperson> = {}): Salesperson {
+  return {
+    id: randomUUID(),
+    name: "Test Person",
+    email: "person@example.com",
+    active: true,
+    createdAt: new Date().toISOString(),
+    ...patch,
+  };
+}
+
+function storeContract(
+  name: string,
+  setup: () => Promise<{ store: CrmStore; teardown: () => Promise<void> }>,
+  opts: { skip?: boolean } = {},
+) {
+  describe.skipIf(!!opts.skip)(`${name} store contract`, () => {
+    let store: CrmStore;
+    let teardown: () => Promise<void>;
+    const createdLeads: string[] = [];
+    const createdPeople: string[] = [];
+
+    beforeAll(async () => {
+      ({ store, teardown } = await setup());
+    });
+
+    afterAll(async () => {
+      for (const id of createdLeads) await store.deleteLead(id);
+      for (const id of createdPeople) await store.deleteSalesperson(id);
+      await teardown();
+    });
+
+    it("returns null for unknown ids", async () => {
+      expect(await store.getLead(randomUUID())).toBeNull();
+      expect(await store.getSalesperson(randomUUID())).toBeNull();
+    });
+
+    it("inserts new leads on upsert", async () => {
+      const lead = makeLead();
+      createdLeads.push(lead.id);
+      await store.upsertLeads([lead]);
+      const found = await store.getLead(lead.id);
+      expect(found).toMatchObject({
+        id: lead.id,
+        name: "Test Lead",
+        phone: "9000000000",
+        status: "new",
+        ownerId: null,
+      });
+      expect(found!.fields["full name"]).toBe("Test Lead");
+      const all = await store.listLeads();
+      expect(all.some((l) => l.id === lead.id)).toBe(true);
+    });
+
+    it("replaces existing leads on upsert", async () => {
+      const lead = makeLead();
+      createdLeads.push(lead.id);
+      await store.upsertLeads([lead]);
+      await store.upsertLeads([
+        {
+          ...lead,
+          status: "call",
+          assignedAt: "2025-01-02T03:04:05.000Z",
+          slaBreachedAt: "2025-01-02T04:04:05.000Z",
+          escalatedTo: randomUUID(),
+          phone: "+917416138391",
+          phoneRaw: "074161 38391",
+          fields: { ...lead.fields, note1: "call back" },
+        },
+      ]);
+      const found = await store.getLead(lead.id);
+      expect(found!.status).toBe("call");
+      expect(Date.parse(found!.assignedAt!)).toBe(
+        Date.parse("2025-01-02T03:04:05.000Z"),
+      );
+      expect(Date.parse(found!.slaBreachedAt!)).toBe(
+        Date.parse("2025-01-02T04:04:05.000Z"),
+      );
+      expect(found!.escalatedTo).toBeTruthy();
+      expect(found!.phone).toBe("+917416138391");
+      expect(found!.phoneRaw).toBe("074161 38391");
+      expect(found!.fields.note1).toBe("call back");
+      const all = await store.listLeads();
+      expect(all.filter((l) => l.id === lead.id)).toHaveLength(1);
+    });
+
+    it("deletes only the requested lead", async () => {
+      const keep = makeLead();
+      const drop = makeLead();
+      createdLeads.push(keep.id);
+      await store.upsertLeads([keep, drop]);
+      await store.deleteLead(drop.id);
+      expect(await store.getLead(drop.id)).toBeNull();
+      expect(await store.getLead(keep.id)).not.toBeNull();
+    });
+
+    it("filters, sorts and pages queried leads", async () => {
+      const token = `q${randomUUID().slice(0, 8)}`;
+      const owner = randomUUID();
+      const leads = [
+        makeLead({
+          name: `${token} Charlie`,
+          status: "call",
+          createdAt: "2025-01-01T00:00:00.000Z",
+        }),
+        makeLead({
+          name: `${token} Alice`,
+          ownerId: owner,
+          createdAt: "2025-01-02T00:00:00.000Z",
+        }),
+        makeLead({
+          name: `${token} Bob`,
+          createdAt: "2025-01-03T00:00:00.000Z",
+        }),
+        // junk sheet row: never listed
+        makeLead({ name: token, fields: {}, phone: undefined }),
+      ];
+      createdLeads.push(...leads.map((l) => l.id));
+      await store.upsertLeads(leads);
+
+      const base = {
+        offset: 0,
+        limit: 10,
+        sort: "createdAt" as const,
+        order: "desc" as const,
+        q: token,
+      };
+      const all = await store.queryLeads(base);
+      expect(all.total).toBe(3);
+      expect(all.items.map((l) => l.name)).toEqual([
+        `${token} Bob`,
+        `${token} Alice`,
+        `${token} Charlie`,
+      ]);
+
+      const byName = await store.queryLeads({
+        ...base,
+        sort: "name",
+        order: "asc",
+        offset: 1,
+        limit: 1,
+      });
+      expect(byName.total).toBe(3);
+      expect(byName.items.map((l) => l.name)).toEqual([`${token} Bob`]);
+
+      expect((await store.queryLeads({ ...base, status: "call" })).total).toBe(
+        1,
+      );
+      expect((await store.queryLeads({ ...base, ownerId: owner })).total).toBe(
+        1,
+      );
+      expect((await store.queryLeads({ ...base, ownerId: null })).total).toBe(
+        2,
+      );
+      expect(
+        (await store.queryLeads({ ...base, ownerIds: [owner, randomUUID()] }))
+          .total,
+      ).toBe(1);
+      expect((await store.queryLeads({ ...base, ownerIds: [] })).total).toBe(0);
+      const ranged = await store.queryLeads({
+        ...base,
+        createdFrom: "2025-01-02T00:00:00.000Z",
+        createdTo: "2025-01-02T23:59:59.999Z",
+      });
+      expect(ranged.items.map((l) => l.name)).toEqual([`${token} Alice`]);
+    });
+
+    it("appends and lists activity per lead in order", async () => {
+      const leadId = randomUUID();
+      const entry = (at: string, to: string): LeadActivity => ({
+        id: randomUUID(),
+        leadId,
+        at,
+        actor: "user",
+        kind: "update",
+        changes: [{ field: "status", from: "new", to }],
+      });
+      await store.appendActivity([
+        entry("2025-01-01T00:00:00.000Z", "contacted"),
+      ]);
+      await store.appendActivity([
+        entry("2025-01-02T00:00:00.000Z", "qualified"),
+        { ...entry("2025-01-03T00:00:00.000Z", "won"), leadId: randomUUID() },
+      ]);
+      const items = await store.listActivity(leadId);
+      expect(items.map((a) => a.changes[0].to)).toEqual([
+        "contacted",
+        "qualified",
+      ]);
+      expect(items[0]).toMatchObject({ leadId, actor: "user", kind: "update" });
+    });
+
+    it("moves activity to a merged lead and keeps its redirect", async () => {
+      const [from, to] = [randomUUID(), randomUUID()];
+      await store.appendActivity([
+        {
+          id: randomUUID(),
+          leadId: from,
+          at: "2025-01-01T00:00:00.000Z",
+          actor: "user",
+          kind: "create",
+          changes: [],
+        },
+      ]);
+      await store.moveActivity(from, to);
+      expect(await store.listActivity(from)).toEqual([]);
+      expect(await store.listActivity(to)).toHaveLength(1);
+
+      await store.upsertLeadRedirects([
+        { id: from, leadId: to, mergedAt: "2025-01-02T00:00:00.000Z" },
+      ]);
+      const redirect = await store.getLeadRedirect(from);
+      expect(redirect).toMatchObject({ id: from, leadId: to });
+      expect(Date.parse(redirect!.mergedAt)).toBe(
+        Date.parse("2025-01-02T00:00:00.000Z"),
+      );
+      expect(await store.getLeadRedirect(to)).toBeNull();
+    });
+
+    it("filters tasks and orders them by due time", async () => {
+      const leadId = randomUUID();
+      const owner = randomUUID();
+      const now = new Date().toISOString();
+      const task = (dueAt: string, patch: Partial<LeadTask> = {}) => ({
+        id: randomUUID(),
+        leadId,
+        ownerId: owner,
+        type: "call" as const,
+        dueAt,
+        completedAt: null,
+        overdueAt: null,
+        createdAt: now,
+        updatedAt: now,
+        ...patch,
+      });
+      const later = task("2025-01-03T17:00:00.000Z");
+      const earlier = task("2025-01-02T09:00:00.000Z", { note: "call back" });
+      const done = task("2025-01-01T09:00:00.000Z", { completedAt: now });
+      await store.upsertTasks([later, earlier, done]);
+
+      const forLead = await store.listTasks({ leadId });
+      expect(forLead.map((t) => t.id)).toEqual([done.id, earlier.id, later.id]);
+      expect(forLead[1]).toMatchObject({ note: "call back", ownerId: owner });
+
+      const open = await store.listTasks({
+        ownerId: owner,
+        open: true,
+        dueBefore: "2025-01-02T23:59:59.999Z",
+      });
+      expect(open.map((t) => t.id)).toEqual([earlier.id]);
+      expect(await store.listTasks({ leadId, ownerIds: [owner] })).toHaveLength(
+        3,
+      );
+      expect(await store.listTasks({ leadId, ownerIds: [] })).toEqual([]);
+
+      await store.upsertTasks([{ ...later, type: "site visit" }]);
+      expect((await store.getTask(later.id))!.type).toBe("site visit");
+      for (const t of [later, earlier, done]) await store.deleteTask(t.id);
+      expect(await store.listTasks({ leadId })).toEqual([]);
+    });
+
+    it("upserts and deletes salespersons", async () => {
+      const person = makeSalesperson();
+      createdPeople.push(person.id);
+      await store.upsertSalespersons([person]);
+      expect(await store.getSalesperson(person.id)).toMatchObject({
+        name: "Test Person",
+        active: true,
+      });
+      const managerId = randomUUID();
+      const capacity = {
+        weight: 1.5,
+        maxOpenLeads: 20,
+        dailyCap: 5,
+        availability: {
+          timeZone: "Asia/Kolkata",
+          workingHours: { start: "09:30", end: "18:00" },
+          offDays: [0],
+          leave: [{ from: "2025-03-01", to: "2025-03-07" }],
+        },
+      };
+      await store.upsertSalespersons([
+        { ...person, active: false, managerId, ...capacity },
+      ]);
+      expect(await store.getSalesperson(person.id)).toMatchObject({
+        active: false,
+        managerId,
+        ...capacity,
+      });
+      await store.deleteSalesperson(person.id);
+      expect(await store.getSalesperson(person.id)).toBeNull();
+    });
+
+    it("stores users and finds them by email", async () => {
+      const now = new Date().toISOString();
+      const email = `u${randomUUID().slice(0, 8)}@example.com`;
+      const user: UserRecord = {
+        id: randomUUID(),
+        email,
+        name: "Test User",
+        role: "manager",
+        salespersonId: null,
+        passwordHash: "scrypt$salt$hash",
+        createdAt: now,
+        updatedAt: now,
+      };
+      await store.upsertUsers([user]);
+      expect(await store.getUserByEmail(email)).toMatchObject({
+        id: user.id,
+        role: "manager",
+        passwordHash: "scrypt$salt$hash",
+      });
+      const salespersonId = randomUUID();
+      await store.upsertUsers([{ ...user, salespersonId, sessionVersion: 3 }]);
+      expect(await store.getUser(user.id)).toMatchObject({
+        salespersonId,
+        sessionVersion: 3,
+      });
+      expect((await store.listUsers()).some((u) => u.id === user.id)).toBe(
+        true,
+      );
+      await store.deleteUser(user.id);
+      expect(await store.getUser(user.id)).toBeNull();
+      expect(await store.getUserByEmail(email)).toBeNull();
+    });
+
+    it("replaces the pipeline stages", async () => {
+      const original = await store.listStages();
+      const stage = (id: string, order: number): PipelineStage => ({
+        id,
+        label: id.toUpperCase(),
+        order,
+        color: "#112233",
+        outcome: null,
+        allowedFrom: [],
+        requiredFields: [],
+      });
+      const done: PipelineStage = {
+        ...stage("done", 2),
+        outcome: "won",
+        allowedFrom: ["second"],
+        requiredFields: ["quotation amount"],
+      };
+      await store.saveStages([stage("second", 1), stage("first", 0), done]);
+      expect((await store.listStages()).map((s) => s.id)).toEqual([
+        "first",
+        "second",
+        "done",
+      ]);
+      expect((await store.listStages())[2]).toEqual(done);
+      await store.saveStages([stage("only", 0)]);
+      expect(await store.listStages()).toEqual([stage("only", 0)]);
+      await store.saveStages(original);
+    });
+
+    it("replaces the assignment rules", async () => {
+      const original = await store.listAssignmentRules();
+      const rule = (order: number): AssignmentRule => ({
+        id: randomUUID(),
+        name: `rule ${order}`,
+        order,
+        active: true,
+        conditions: [],
+        targetIds: [randomUUID()],
+      });
+      const second = rule(1);
+      const first: AssignmentRule = {
+        ...rule(0),
+        active: false,
+        conditions: [
+          { field: "post_code", op: "prefix", values: ["5600", "5601"] },
+          { field: "monthly_bill", op: "range", min: 2000, max: null },
+        ],
+      };
+      await store.saveAssignmentRules([second, first]);
+      expect(await store.listAssignmentRules()).toEqual([first, second]);
+      await store.saveAssignmentRules([second]);
+      expect(await store.listAssignmentRules()).toEqual([second]);
+      await store.saveAssignmentRules(original);
+    });
+
+    it("upserts and deletes lead sources", async () => {
+      const source: LeadSource = {
+        id: randomUUID(),
+        name: "Test source",
+        sheetUrl: "https://example.com/source.csv",
+        columnMapping: null,
+        ownerIds: [],
+        enabled: true,
+        syncMinutes: 15,
+        lastSyncAt: null,
+        lastError: null,
+        lastErrorAt: null,
+        createdAt: new Date().toISOString(),
+      };
+      await store.upsertLeadSources([source]);
+      expect(await store.getLeadSource(source.id)).toMatchObject({
+        name: "Test source",
+        enabled: true,
+        syncMinutes: 15,
+        ownerIds: [],
+      });
+      const next = {
+        ...source,
+        columnMapping: { name: "Customer", status: "" },
+        sourceTag: "facebook",
+        ownerIds: [randomUUID()],
+        enabled: false,
+        lastError: "Failed to fetch sheet: 404",
+        headers: ["Customer", "Phone"],
+      };
+      await store.upsertLeadSources([next]);
+      expect(await store.getLeadSource(source.id)).toMatchObject({
+        columnMapping: next.columnMapping,
+        sourceTag: "facebook",
+        ownerIds: next.ownerIds,
+        enabled: false,
+        lastError: next.lastError,
+        headers: next.headers,
+      });
+      expect((await store.listLeadSources()).map((s) => s.id)).toContain(
+        source.id,
+      );
+      await store.deleteLeadSource(source.id);
+      expect(await store.getLeadSource(source.id)).toBeNull();
+    });
+
+    it("round-trips config", async () => {
+      const original = await store.getConfig();
+      const next = {
+        sheetUrl: "https://example.com/sheet.csv",
+        lastSyncAt: "2025-01-01T00:00:00.000Z",
+        headers: ["full name", "phone"],
+        sla: {
+          firstContactMinutes: 30,
+          workingHoursOnly: true,
+          reassign: false,
+          since: "2025-01-01T00:00:00.000Z",
+        },
+        columnMapping: { name: "full name", notes: "" },
+      };
+      await store.saveConfig(next);
+      const saved = await store.getConfig();
+      expect(saved.sheetUrl).toBe(next.sheetUrl);
+      expect(new Date(saved.lastSyncAt!).toISOString()).toBe(next.lastSyncAt);
+      expect(saved.headers).toEqual(next.headers);
+      expect(saved.sla).toEqual(next.sla);
+      expect(saved.columnMapping).toEqual(next.columnMapping);
+      await store.saveConfig(original);
+    });
+  });
+}
+
+storeContract("json", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "crm-store-"));
+  return {
+    store: createJsonStore(dir),
+    teardown: () => fs.rm(dir, { recursive: true, force: true }),
+  };
+});
+
+// Runs against a disposable Supabase project when its credentials are provided
+storeContract(
+  "supabase",
+  async () => ({
+    store: createSupabaseStore({
+      url: process.env.SUPABASE_TEST_URL!,
+      serviceRoleKey: process.env.SUPABASE_TEST_SERVICE_ROLE_KEY!,
+    }),
+    teardown: async () => {},
+  }),
+  {
+    skip:
+      !process.env.SUPABASE_TEST_URL ||
+      !process.env.SUPABASE_TEST_SERVICE_ROLE_KEY,
+  },
+);
+
+storeContract("sqlite", async () => {
+  const { createSqliteStore } = await import("./sqlite");
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "crm-sqlite-"));
+  return {
+    store: createSqliteStore(path.join(dir, "crm.sqlite")),
+    teardown: () => fs.rm(dir, { recursive: true, force: true }),
+  };
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Lead } from "@shared/api";
+import { createSupabaseStore } from "./supabase";
+
+function lead(i: number, patch: Partial<Lead> = {}): Lead {
+  const at = new Date(Date.UTC(2025, 0, 1, 0, 0, i)).toISOString();
+  return {
+    id: `l${i}`,
+    name: `Lead ${i}`,
+    status: "new",
+    ownerId: null,
+    fields: {},
+    createdAt: at,
+    updatedAt: at,
+    ...patch,
+  };
+}
+
+// A PostgREST stand-in that caps every response at 1000 rows
+function fakeSupabase(rows: unknown[]) {
+  const calls: { url: URL; init?: RequestInit }[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: string, init?: RequestInit) => {
+      const url = new URL(input);
+      calls.push({ url, init });
+      if (url.pathname.endsWith("/config")) return Response.json([]);
+      if (init?.method === "POST") return new Response(null, { status: 201 });
+      const offset = Number(url.searchParams.get("offset") || 0);
+      const limit = Math.min(
+        Number(url.searchParams.get("limit") || 1000),
+        1000,
+      );
+      return Response.json(rows.slice(offset, offset + limit));
+    }),
+  );
+  return calls;
+}
+
+const store = () =>
+  createSupabaseStore({ url: "https://crm.example", serviceRoleKey: "key" });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("supabase store", () => {
+  it("lists every lead past the 1000-row response cap", async () => {
+    const rows = Array.from({ length: 2500 }, (_, i) => ({
+      id: `l${i}`,
+      name: `Lead ${i}`,
+      status: "new",
+      fields: {},
+    }));
+    const calls = fakeSupabase(rows);
+    const leads = await store().listLeads();
+    expect(leads).toHaveLength(2500);
+    expect(calls).toHaveLength(3);
+    expect(calls[2].url.searchParams.get("offset")).toBe("2000");
+  });
+
+  it("upserts leads in one request with the same columns in every row", async () => {
+    const calls = fakeSupabase([]);
+    await store().upsertLeads([
+      lead(1, { fields: { "Post Code": "560001" } }),
+      lead(2, { email: "b@x.io" }),
+    ]);
+    const posts = calls.filter((c) => c.init?.method === "POST");
+    expect(posts).toHaveLength(1);
+    expect(new Headers(posts[0].init!.headers).get("Prefer")).toMatch(
+      /resolution=merge-duplicates/,
+    );
+    const body = JSON.parse(String(posts[0].init!.body));
+    expect(body).toHaveLength(2);
+    expect(Object.keys(body[0]).sort()).toEqual(Object.keys(body[1]).sort());
+    expect(body[0]).toMatchObject({ post_code: "560001", email: null });
+    expect(body[1]).toMatchObject({ post_code: null, email: "b@x.io" });
+  });
+});
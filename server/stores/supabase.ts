@@ -0,0 +1,426 @@
+import type { ConfigState } from "@shared/api";
+import {
+  DEFAULT_CONFIG,
+  type CrmStore,
+  type LeadQuery,
+  type TaskQuery,
+} from "./types";
+import { SORT_COLUMNS } from "./query";
+import { StoreError } from "./errors";
+import {
+  activityToRow,
+  leadRedirectToRow,
+  leadToRow,
+  rowToActivity,
+  rowToLead,
+  rowToSalesperson,
+  rowToStage,
+  rowToTask,
+  rowToAssignmentRule,
+  assignmentRuleToRow,
+  rowToLeadSource,
+  rowToLeadRedirect,
+  leadSourceToRow,
+  salespersonToRow,
+  stageToRow,
+  taskToRow,
+  rowToUser,
+  userToRow,
+} from "./rows";
+
+// PostgREST returns at most this many rows per request by default
+const PAGE = 1000;
+
+export interface SupabaseStoreOptions {
+  url: string;
+  serviceRoleKey: string;
+}
+
+// Columns searched by the free-text filter; PostgREST cannot search inside `fields`
+const SEARCH_COLUMNS = [
+  "name",
+  "email",
+  "phone",
+  "company",
+  "full_name",
+  "street_address",
+  "post_code",
+];
+
+// PostgREST "in" filter; an id that cannot exist stands in for an empty list
+function ownerInFilter(ownerIds: string[]) {
+  const ids = ownerIds.length
+    ? ownerIds.map((id) => `"${id.replace(/"/g, "")}"`)
+    : ["00000000-0000-0000-0000-000000000000"];
+  return `in.(${ids.join(",")})`;
+}
+
+// PostgREST filters for a LeadQuery, mirroring isListableLead in query.ts
+function leadQueryParams(query: LeadQuery) {
+  const params = new URLSearchParams();
+  params.set("select", "*");
+  const and = [
+    "fields.neq.{}",
+    `or(${["name", "email", "phone"].map((c) => `${c}.neq.""`).join(",")})`,
+  ];
+  if (query.q) {
+    // strip characters that have a meaning in PostgREST filter syntax
+    const q = query.q.replace(/[,()"*\\]/g, " ").trim();
+    if (q)
+      and.push(
+        `or(${SEARCH_COLUMNS.map((c) => `${c}.ilike."*${q}*"`).join(",")})`,
+      );
+  }
+  params.set("and", `(${and.join(",")})`);
+  if (query.status) params.set("status", `eq.${query.status}`);
+  if (query.ownerId === null) params.set("owner_id", "is.null");
+  else if (query.ownerId !== undefined)
+    params.set("owner_id", `eq.${query.ownerId}`);
+  if (query.ownerIds) params.append("owner_id", ownerInFilter(query.ownerIds));
+  if (query.createdFrom)
+    params.append("created_at", `gte.${query.createdFrom}`);
+  if (query.createdTo) params.append("created_at", `lte.${query.createdTo}`);
+  const col = SORT_COLUMNS[query.sort];
+  params.set("order", `${col}.${query.order},id.${query.order}`);
+  params.set("offset", String(query.offset));
+  params.set("limit", String(query.limit));
+  return params.toString();
+}
+
+function taskQueryParams(query: TaskQuery) {
+  const params = new URLSearchParams();
+  params.set("select", "*");
+  if (query.leadId) params.set("lead_id", `eq.${query.leadId}`);
+  if (query.ownerId) params.set("owner_id", `eq.${query.ownerId}`);
+  if (query.ownerIds) params.append("owner_id", ownerInFilter(query.ownerIds));
+  if (query.open) params.set("completed_at", "is.null");
+  if (query.dueBefore) params.set("due_at", `lte.${query.dueBefore}`);
+  params.set("order", "due_at.asc,id.asc");
+  return params.toString();
+}
+
+export function createSupabaseStore(opts: SupabaseStoreOptions): CrmStore {
+  const baseUrl = `${opts.url.replace(/\/+$/, "")}/rest/v1/`;
+
+  async function supabaseFetch(path: string, init: RequestInit = {}) {
+    const headers: Record<string, string> = {
+      apikey: opts.serviceRoleKey,
+      Authorization: `Bearer ${opts.serviceRoleKey}`,
+      "Content-Type": "application/json",
+      Prefer: "return=representation",
+    };
+    let res: Response;
+    try {
+      res = await fetch(baseUrl + path, {
+        ...init,
+        headers: { ...headers, ...((init.headers as any) || {}) },
+      });
+    } catch (e: any) {
+      throw new StoreError(
+        `Supabase unreachable: ${e?.message || e}`,
+        "supabase",
+      );
+    }
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new StoreError(
+        `Supabase error ${res.status}: ${text}`,
+        "supabase",
+        res.status >= 500 ? 503 : 502,
+      );
+    }
+    return res;
+  }
+
+  // on_conflict only picks the key; PostgREST still needs merge-duplicates to update
+  async function upsert(table: string, body: unknown) {
+    await supabaseFetch(`${table}?on_conflict=id`, {
+      method: "POST",
+      headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  // Every row `path` selects, a page at a time; `path` must fix the order
+  async function selectAll(path: string) {
+    const rows: any[] = [];
+    for (let offset = 0; ; offset += PAGE) {
+      const res = await supabaseFetch(`${path}&limit=${PAGE}&offset=${offset}`);
+      const page = (await res.json()) || [];
+      rows.push(...page);
+      if (page.length < PAGE) return rows;
+    }
+  }
+
+  // select=* so lead writes keep working before add-column-mapping.sql runs
+  async function columnMapping() {
+    const res = await supabaseFetch("config?select=*&limit=1");
+    const data = await res.json();
+    return data?.[0]?.column_mapping ?? null;
+  }
+
+  return {
+    kind: "supabase",
+
+    async listLeads() {
+      const rows = await selectAll(
+        "leads?select=*&order=created_at.desc,id.desc",
+      );
+      return rows.map(rowToLead);
+    },
+
+    async queryLeads(query) {
+      const res = await supabaseFetch(`leads?${leadQueryParams(query)}`, {
+        headers: { Prefer: "count=exact" },
+      });
+      const data = await res.json();
+      // Content-Range: 0-49/1234 (or */0 when nothing matched)
+      const range = res.headers.get("content-range") || "";
+      const total = Number(range.split("/")[1]);
+      return {
+        items: (data || []).map(rowToLead),
+        total: Number.isFinite(total) ? total : (data || []).length,
+      };
+    },
+
+    async getLead(id) {
+      const res = await supabaseFetch(
+        `leads?select=*&id=eq.${encodeURIComponent(id)}&limit=1`,
+      );
+      const data = await res.json();
+      return data && data[0] ? rowToLead(data[0]) : null;
+    },
+
+    async upsertLeads(leads) {
+      if (leads.length === 0) return;
+      const mapping = await columnMapping();
+      const rows = leads.map((l) => leadToRow(l, mapping));
+      // A bulk insert needs the same keys in every row, but rows carry
+      // different optional sheet columns: a column a lead lacks is null
+      const columns = [...new Set(rows.flatMap((r) => Object.keys(r)))];
+      const body = rows.map((r) =>
+        Object.fromEntries(columns.map((c) => [c, r[c] ?? null])),
+      );
+      for (let i = 0; i < body.length; i += PAGE)
+        await upsert("leads", body.slice(i, i + PAGE));
+    },
+
+    async deleteLead(id) {
+      await supabaseFetch(`leads?id=eq.${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+    },
+
+    async appendActivity(entries) {
+      if (entries.length === 0) return;
+      await supabaseFetch("lead_activity", {
+        method: "POST",
+        headers: { Prefer: "return=minimal" },
+        body: JSON.stringify(entries.map(activityToRow)),
+      });
+    },
+
+    async listActivity(leadId) {
+      const res = await supabaseFetch(
+        `lead_activity?select=*&lead_id=eq.${encodeURIComponent(leadId)}&order=at.asc`,
+      );
+      const data = await res.json();
+      return (data || []).map(rowToActivity);
+    },
+
+    async moveActivity(fromLeadId, toLeadId) {
+      await supabaseFetch(
+        `lead_activity?lead_id=eq.${encodeURIComponent(fromLeadId)}`,
+        {
+          method: "PATCH",
+          headers: { Prefer: "return=minimal" },
+          body: JSON.stringify({ lead_id: toLeadId }),
+        },
+      );
+    },
+
+    async getLeadRedirect(id) {
+      const res = await supabaseFetch(
+        `lead_redirects?select=*&id=eq.${encodeURIComponent(id)}&limit=1`,
+      );
+      const data = await res.json();
+      return data && data[0] ? rowToLeadRedirect(data[0]) : null;
+    },
+
+    async upsertLeadRedirects(redirects) {
+      if (redirects.length === 0) return;
+      await upsert("lead_redirects", redirects.map(leadRedirectToRow));
+    },
+
+    async listTasks(query) {
+      const res = await supabaseFetch(`lead_tasks?${taskQueryParams(query)}`);
+      const data = await res.json();
+      return (data || []).map(rowToTask);
+    },
+
+    async getTask(id) {
+      const res = await supabaseFetch(
+        `lead_tasks?select=*&id=eq.${encodeURIComponent(id)}&limit=1`,
+      );
+      const data = await res.json();
+      return data && data[0] ? rowToTask(data[0]) : null;
+    },
+
+    async upsertTasks(tasks) {
+      if (tasks.length === 0) return;
+      await upsert("lead_tasks", tasks.map(taskToRow));
+    },
+
+    async deleteTask(id) {
+      await supabaseFetch(`lead_tasks?id=eq.${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+    },
+
+    async listSalespersons() {
+      const res = await supabaseFetch("salespersons?select=*&order=name.asc");
+      const data = await res.json();
+      return (data || []).map(rowToSalesperson);
+    },
+
+    async getSalesperson(id) {
+      const res = await supabaseFetch(
+        `salespersons?select=*&id=eq.${encodeURIComponent(id)}&limit=1`,
+      );
+      const data = await res.json();
+      return data && data[0] ? rowToSalesperson(data[0]) : null;
+    },
+
+    async upsertSalespersons(salespersons) {
+      if (salespersons.length === 0) return;
+      await upsert("salespersons", salespersons.map(salespersonToRow));
+    },
+
+    async deleteSalesperson(id) {
+      await supabaseFetch(`salespersons?id=eq.${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+    },
+
+    async listUsers() {
+      const res = await supabaseFetch("users?select=*&order=email.asc");
+      const data = await res.json();
+      return (data || []).map(rowToUser);
+    },
+
+    async getUser(id) {
+      const res = await supabaseFetch(
+        `users?select=*&id=eq.${encodeURIComponent(id)}&limit=1`,
+      );
+      const data = await res.json();
+      return data && data[0] ? rowToUser(data[0]) : null;
+    },
+
+    async getUserByEmail(email) {
+      const res = await supabaseFetch(
+        `users?select=*&email=eq.${encodeURIComponent(email)}&limit=1`,
+      );
+      const data = await res.json();
+      return data && data[0] ? rowToUser(data[0]) : null;
+    },
+
+    async upsertUsers(users) {
+      if (users.length === 0) return;
+      await upsert("users", users.map(userToRow));
+    },
+
+    async deleteUser(id) {
+      await supabaseFetch(`users?id=eq.${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+    },
+
+    async listStages() {
+      const res = await supabaseFetch(
+        "pipeline_stages?select=*&order=position.asc",
+      );
+      const data = await res.json();
+      return (data || []).map(rowToStage);
+    },
+
+    async saveStages(stages) {
+      // PostgREST has no transactions: drop removed stages, then upsert the rest
+      const keep = stages.map((s) => `"${s.id.replace(/"/g, "")}"`).join(",");
+      const filter = keep
+        ? `id=not.in.(${encodeURIComponent(keep)})`
+        : "id=not.is.null";
+      await supabaseFetch(`pipeline_stages?${filter}`, { method: "DELETE" });
+      if (stages.length > 0)
+        await upsert("pipeline_stages", stages.map(stageToRow));
+    },
+
+    async listAssignmentRules() {
+      const res = await supabaseFetch(
+        "assignment_rules?select=*&order=position.asc",
+      );
+      const data = await res.json();
+      return (data || []).map(rowToAssignmentRule);
+    },
+
+    async saveAssignmentRules(rules) {
+      // same approach as saveStages: drop removed rules, then upsert the rest
+      const keep = rules.map((r) => `"${r.id.replace(/"/g, "")}"`).join(",");
+      const filter = keep
+        ? `id=not.in.(${encodeURIComponent(keep)})`
+        : "id=not.is.null";
+      await supabaseFetch(`assignment_rules?${filter}`, { method: "DELETE" });
+      if (rules.length > 0)
+        await upsert("assignment_rules", rules.map(assignmentRuleToRow));
+    },
+
+    async listLeadSources() {
+      const res = await supabaseFetch("lead_sources?select=*&order=name.asc");
+      const data = await res.json();
+      return (data || []).map(rowToLeadSource);
+    },
+
+    async getLeadSource(id) {
+      const res = await supabaseFetch(
+        `lead_sources?select=*&id=eq.${encodeURIComponent(id)}&limit=1`,
+      );
+      const data = await res.json();
+      return data && data[0] ? rowToLeadSource(data[0]) : null;
+    },
+
+    async upsertLeadSources(sources) {
+      if (sources.length === 0) return;
+      await upsert("lead_sources", sources.map(leadSourceToRow));
+    },
+
+    async deleteLeadSource(id) {
+      await supabaseFetch(`lead_sources?id=eq.${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+    },
+
+    async getConfig() {
+      const res = await supabaseFetch("config?select=*&limit=1");
+      const data = await res.json();
+      const row = data && data[0];
+      if (!row) return DEFAULT_CONFIG;
+      return {
+        sheetUrl: row.sheet_url || undefined,
+        lastSyncAt: row.last_sync_at || undefined,
+        headers: row.headers || undefined,
+        sla: row.sla ?? null,
+        columnMapping: row.column_mapping ?? null,
+      };
+    },
+
+    async saveConfig(config: ConfigState) {
+      await upsert("config", {
+        id: 1,
+        sheet_url: config.sheetUrl || null,
+        last_sync_at: config.lastSyncAt || null,
+        headers: config.headers || null,
+        sla: config.sla ?? null,
+        column_mapping: config.columnMapping ?? null,
+      });
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import type {
+  AssignmentRule,
+  Lead,
+  LeadActivity,
+  LeadRedirect,
+  LeadSource,
+  LeadTask,
+  LeadSortField,
+  LeadStatus,
+  Paginated,
+  PipelineStage,
+  Salesperson,
+  SortOrder,
+  ConfigState,
+  StoreStatusResponse,
+  User,
+} from "@shared/api";
+
+export interface CRMState {
+  leads: Lead[];
+  salespersons: Salesperson[];
+  config: ConfigState;
+}
+
+export const DEFAULT_CONFIG: ConfigState = {
+  sheetUrl:
+    "https://docs.google.com/spreadsheets/d/1QY8_Q8-ybLKNVs4hynPZslZDwUfC-PIJrViJfL0-tpM/export?format=csv",
+  lastSyncAt: undefined,
+};
+
+// Normalized form of ListLeadsQuery handed to the stores
+export interface LeadQuery {
+  offset: number;
+  limit: number;
+  sort: LeadSortField;
+  order: SortOrder;
+  status?: LeadStatus;
+  ownerId?: string | null; // null = unassigned
+  ownerIds?: string[]; // access scope: only leads owned by one of these
+  createdFrom?: string;
+  createdTo?: string;
+  q?: string;
+}
+
+export interface TaskQuery {
+  leadId?: string;
+  ownerId?: string;
+  ownerIds?: string[]; // access scope: only tasks owned by one of these
+  open?: boolean; // only tasks that are not completed
+  dueBefore?: string; // ISO, inclusive
+}
+
+// Stored form of a User; passwordHash is "scrypt$<salt>$<hash>"
+export interface UserRecord extends User {
+  passwordHash: string;
+  // part of every session token; bumping it ends the sessions issued before
+  sessionVersion?: number;
+}
+
+/**
+ * Persistence backend for the CRM. Implementations only load and store
+ * records; merging, dedupe and assignment live in services/crm.ts so every
+ * backend behaves the same.
+ *
+ * `upsert*` inserts records whose id is unknown and replaces the rest.
+ */
+export interface CrmStore {
+  readonly kind: string;
+
+  listLeads(): Promise<Lead[]>;
+  // Only "listable" leads (see query.ts) are matched and counted
+  queryLeads(query: LeadQuery): Promise<Paginated<Lead>>;
+  getLead(id: string): Promise<Lead | null>;
+  upsertLeads(leads: Lead[]): Promise<void>;
+  deleteLead(id: string): Promise<void>;
+
+  // Activity is append-only; entries come back oldest first
+  appendActivity(entries: LeadActivity[]): Promise<void>;
+  listActivity(leadId: string): Promise<LeadActivity[]>;
+  // Hands one lead's history to another when they are merged
+  moveActivity(fromLeadId: string, toLeadId: string): Promise<void>;
+
+  // Keyed by the absorbed lead's id
+  getLeadRedirect(id: string): Promise<LeadRedirect | null>;
+  upsertLeadRedirects(redirects: LeadRedirect[]): Promise<void>;
+
+  // Tasks come back ordered by dueAt, earliest first
+  listTasks(query: TaskQuery): Promise<LeadTask[]>;
+  getTask(id: string): Promise<LeadTask | null>;
+  upsertTasks(tasks: LeadTask[]): Promise<void>;
+  deleteTask(id: string): Promise<void>;
+
+  listSalespersons(): Promise<Salesperson[]>;
+  getSalesperson(id: string): Promise<Salesperson | null>;
+  upsertSalespersons(salespersons: Salesperson[]): Promise<void>;
+  deleteSalesperson(id: string): Promise<void>;
+
+  // Users come back ordered by email; emails are stored lowercased
+  listUsers(): Promise<UserRecord[]>;
+  getUser(id: string): Promise<UserRecord | null>;
+  getUserByEmail(email: string): Promise<UserRecord | null>;
+  upsertUsers(users: UserRecord[]): Promise<void>;
+  deleteUser(id: string): Promise<void>;
+
+  // Stages come back in pipeline order; an empty list means "not configured"
+  listStages(): Promise<PipelineStage[]>;
+  // Replaces the whole pipeline
+  saveStages(stages: PipelineStage[]): Promise<void>;
+
+  // Rules come back in evaluation order; saving replaces them all
+  listAssignmentRules(): Promise<AssignmentRule[]>;
+  saveAssignmentRules(rules: AssignmentRule[]): Promise<void>;
+
+  // Sources come back ordered by name
+  listLeadSources(): Promise<LeadSource[]>;
+  getLeadSource(id: string): Promise<LeadSource | null>;
+  upsertLeadSources(sources: LeadSource[]): Promise<void>;
+  deleteLeadSource(id: string): Promise<void>;
+
+  getConfig(): Promise<ConfigState>;
+  saveConfig(config: ConfigState): Promise<void>;
+
+  // Only stores that can degrade report a status; others are always healthy
+  getStatus?(): Promise<StoreStatusResponse>;
+}
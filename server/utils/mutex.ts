@@ -0,0 +1,14 @@
+export type Mutex = <T>(fn: () => Promise<T>) => Promise<T>;
+
+/**
+ * Runs async critical sections one at a time, in call order. A failing
+ * section rejects its own caller but does not block the ones queued behind it.
+ */
+export function createMutex(): Mutex {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(fn: () => Promise<T>) => {
+    const run = tail.then(fn, fn);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { readJSON, writeJSON, updateJSON } from "./storage";
+
+describe("JSON storage", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "crm-storage-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("creates the file with the fallback when missing", async () => {
+    expect(await readJSON("items.json", [1], dir)).toEqual([1]);
+    const content = await fs.readFile(path.join(dir, "items.json"), "utf-8");
+    expect(JSON.parse(content)).toEqual([1]);
+  });
+
+  it("does not lose concurrent updates", async () => {
+    await writeJSON<number[]>("items.json", [], dir);
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        updateJSON<number[]>("items.json", [], (cur) => [...cur, i], dir),
+      ),
+    );
+    const items = await readJSON<number[]>("items.json", [], dir);
+    expect(items.sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 20 }, (_, i) => i),
+    );
+  });
+
+  it("leaves no temp files behind", async () => {
+    await writeJSON("items.json", [1], dir);
+    await writeJSON("items.json", [2], dir);
+    const files = await fs.readdir(dir);
+    expect(files.filter((f) => f.endsWith(".tmp"))).toEqual([]);
+  });
+
+  it("recovers a corrupted file from the newest good backup", async () => {
+    await writeJSON("items.json", [1], dir);
+    await writeJSON("items.json", [1, 2], dir);
+    await writeJSON("items.json", [1, 2, 3], dir);
+    await fs.writeFile(path.join(dir, "items.json"), '[1, 2, 3, {"trunc');
+    expect(await readJSON("items.json", [], dir)).toEqual([1, 2]);
+    // the recovered copy is written back
+    const content = await fs.readFile(path.join(dir, "items.json"), "utf-8");
+    expect(JSON.parse(content)).toEqual([1, 2]);
+  });
+
+  it("keeps a bounded number of backups", async () => {
+    for (let i = 0; i < 6; i++) await writeJSON("items.json", [i], dir);
+    const backups = (await fs.readdir(dir)).filter((f) => f.includes(".bak."));
+    expect(backups.sort()).toEqual([
+      "items.json.bak.1",
+      "items.json.bak.2",
+      "items.json.bak.3",
+    ]);
+  });
+
+  it("refuses to replace a corrupted file that has no backup", async () => {
+    await fs.writeFile(path.join(dir, "items.json"), "{not json");
+    await expect(readJSON("items.json", [], dir)).rejects.toThrow();
+  });
+});
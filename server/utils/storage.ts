@@ -1,29 +1,147 @@
 import { promises as fs } from "fs";
 import path from "path";
+import { createMutex, type Mutex } from "./mutex";
 
-const DATA_DIR = path.resolve(process.cwd(), "server", "data");
+export const DATA_DIR = path.resolve(process.cwd(), "server", "data");
 
-async function ensureDir() {
-  await fs.mkdir(DATA_DIR, { recursive: true });
+// number of last-known-good copies kept next to each file (file.json.bak.1 is newest)
+const BACKUP_COUNT = 3;
+
+const locks = new Map<string, Mutex>();
+let tmpCounter = 0;
+
+function lockFor(filePath: string): Mutex {
+  let lock = locks.get(filePath);
+  if (!lock) {
+    lock = createMutex();
+    locks.set(filePath, lock);
+  }
+  return lock;
+}
+
+function backupPath(filePath: string, n: number) {
+  return `${filePath}.bak.${n}`;
+}
+
+function isMissing(err: any) {
+  return err && (err.code === "ENOENT" || err.code === "ENOTDIR");
+}
+
+function isRecoverable(err: any) {
+  return isMissing(err) || err instanceof SyntaxError;
+}
+
+async function ensureDir(dir: string) {
+  await fs.mkdir(dir, { recursive: true });
+}
+
+async function readParsed<T>(filePath: string): Promise<T> {
+  const content = await fs.readFile(filePath, "utf-8");
+  return JSON.parse(content) as T;
+}
+
+async function rotateBackups(filePath: string) {
+  for (let n = BACKUP_COUNT - 1; n >= 1; n--) {
+    await fs
+      .rename(backupPath(filePath, n), backupPath(filePath, n + 1))
+      .catch((err) => {
+        if (!isMissing(err)) throw err;
+      });
+  }
+  // copy rather than move so the live file never disappears mid-write
+  await fs.copyFile(filePath, backupPath(filePath, 1)).catch((err) => {
+    if (!isMissing(err)) throw err;
+  });
+}
+
+// Write to a temp file, fsync it, then rename over the target so readers and
+// crashes only ever see the old or the new content.
+async function writeAtomic<T>(filePath: string, data: T, backup = true) {
+  await ensureDir(path.dirname(filePath));
+  const tmp = `${filePath}.${process.pid}.${++tmpCounter}.tmp`;
+  const handle = await fs.open(tmp, "w");
+  try {
+    await handle.writeFile(JSON.stringify(data, null, 2), "utf-8");
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  try {
+    if (backup) await rotateBackups(filePath);
+    await fs.rename(tmp, filePath);
+  } catch (err) {
+    await fs.rm(tmp, { force: true });
+    throw err;
+  }
 }
 
-export async function readJSON<T>(file: string, fallback: T): Promise<T> {
-  await ensureDir();
-  const filePath = path.join(DATA_DIR, file);
+async function readBackup<T>(filePath: string): Promise<T | undefined> {
+  for (let n = 1; n <= BACKUP_COUNT; n++) {
+    try {
+      return await readParsed<T>(backupPath(filePath, n));
+    } catch (err) {
+      if (!isRecoverable(err)) throw err;
+    }
+  }
+  return undefined;
+}
+
+// Must be called with the file lock held
+async function load<T>(filePath: string, fallback: T): Promise<T> {
   try {
-    const content = await fs.readFile(filePath, "utf-8");
-    return JSON.parse(content) as T;
+    return await readParsed<T>(filePath);
   } catch (err: any) {
-    if (err && (err.code === "ENOENT" || err.code === "ENOTDIR")) {
-      await writeJSON(file, fallback);
-      return fallback;
+    if (!isRecoverable(err)) throw err;
+    const recovered = await readBackup<T>(filePath);
+    if (recovered !== undefined) {
+      console.warn(`Recovered ${filePath} from backup: ${err.message}`);
+      await writeAtomic(filePath, recovered, false);
+      return recovered;
     }
-    throw err;
+    // a corrupt file with no usable backup is an error, not an empty store
+    if (!isMissing(err)) throw err;
+    await writeAtomic(filePath, fallback, false);
+    return fallback;
+  }
+}
+
+export async function readJSON<T>(
+  file: string,
+  fallback: T,
+  dir: string = DATA_DIR,
+): Promise<T> {
+  const filePath = path.join(dir, file);
+  try {
+    return await readParsed<T>(filePath);
+  } catch (err) {
+    if (!isRecoverable(err)) throw err;
+    return lockFor(filePath)(() => load(filePath, fallback));
   }
 }
 
-export async function writeJSON<T>(file: string, data: T): Promise<void> {
-  await ensureDir();
-  const filePath = path.join(DATA_DIR, file);
-  await fs.writeFile(filePath, JSON.stringify(data, null, 2), "utf-8");
+export async function writeJSON<T>(
+  file: string,
+  data: T,
+  dir: string = DATA_DIR,
+): Promise<void> {
+  const filePath = path.join(dir, file);
+  await lockFor(filePath)(() => writeAtomic(filePath, data));
+}
+
+/**
+ * Read-modify-write a file while holding its lock, so concurrent updates in
+ * this process are applied one after another instead of overwriting each other.
+ */
+export async function updateJSON<T>(
+  file: string,
+  fallback: T,
+  mutate: (current: T) => T | Promise<T>,
+  dir: string = DATA_DIR,
+): Promise<T> {
+  const filePath = path.join(dir, file);
+  return lockFor(filePath)(async () => {
+    const next = await mutate(await load(filePath, fallback));
+    await writeAtomic(filePath, next);
+    return next;
+  });
 }
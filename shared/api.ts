@@ -4,20 +4,18 @@
  * and/or small pure JS functions that can be used on both client and server
  */
 
-export type LeadStatus =
-  | "new"
-  | "call"
-  | "not lifted"
-  | "quotation sent"
-  | "site visit"
-  | "advance payment"
-  | "lead finished"
-  | "contacted"
-  | "not connected"
-  | "voice mail"
-  | "qualified"
-  | "won"
-  | "lost";
+// Defined with the sheet importer so the sync-sheet edge function deploys them
+import type {
+  ColumnMapping,
+  MappedField,
+  PipelineOutcome,
+  PipelineStage,
+} from "../supabase/functions/_shared/types.ts";
+
+export type { ColumnMapping, MappedField, PipelineOutcome, PipelineStage };
+
+// Id of a PipelineStage; the stages are configured at runtime (GET /api/pipeline)
+export type LeadStatus = string;
 
 export interface Lead {
   id: string;
@@ -26,28 +24,234 @@ export interface Lead {
   // convenience columns
   name: string;
   email?: string;
-  phone?: string;
+  phone?: string; // E.164 when valid, see shared/phone.ts
+  phoneRaw?: string; // as typed or imported
   company?: string;
   source?: string;
   status: LeadStatus;
   ownerId?: string | null;
+  assignedAt?: string | null; // ISO, when ownerId last changed to someone
+  // ISO, set when the current owner missed the first-contact SLA
+  slaBreachedAt?: string | null;
+  escalatedTo?: string | null; // User id of the manager told about the breach
   notes?: string;
   createdAt: string; // ISO
   updatedAt: string; // ISO
 }
 
+export type LeadActivityKind =
+  | "create"
+  | "update"
+  | "sync"
+  | "assign"
+  | "escalate"
+  | "merge";
+
+export interface LeadActivityChange {
+  field: string; // Lead property, or "fields.<sheet header>" for sheet values
+  from?: string | null;
+  to?: string | null;
+}
+
+// Append-only history entry for a lead
+export interface LeadActivity {
+  id: string;
+  leadId: string;
+  at: string; // ISO
+  actor: string; // "user", "sheet-sync", "auto-assign" or "sla"
+  kind: LeadActivityKind;
+  changes: LeadActivityChange[];
+}
+
+// Left behind by a merge so the absorbed lead's id still finds the lead
+export interface LeadRedirect {
+  id: string; // the absorbed lead's id
+  leadId: string; // the lead it was merged into
+  mergedAt: string; // ISO
+}
+
+// Two leads that may be one person, scored from 0 to 1
+export interface DuplicatePair {
+  leads: [Lead, Lead]; // older first
+  score: number;
+  reasons: string[]; // e.g. "Same phone", "Similar name (92%)"
+}
+
+export interface DuplicatesResponse {
+  items: DuplicatePair[];
+}
+
+// Lead properties a merge takes from one lead or the other
+export type MergeField =
+  | "name"
+  | "email"
+  | "phone"
+  | "company"
+  | "source"
+  | "status"
+  | "ownerId";
+
+// POST /api/leads/merge; fields and notes of both leads are combined
+export interface MergeLeadsRequest {
+  survivorId: string;
+  absorbedId: string;
+  // the survivor's value unless picked here, or empty on the survivor
+  take?: Partial<Record<MergeField, "survivor" | "absorbed">>;
+}
+
+// POST /api/leads answers with the lead and how many leads it may repeat
+export interface CreateLeadResponse extends Lead {
+  possibleDuplicates: number;
+}
+
+export type LeadTaskType = "call" | "site visit" | "send quotation";
+
+// Follow-up for a lead, owned by a salesperson
+export interface LeadTask {
+  id: string;
+  leadId: string;
+  ownerId: string | null;
+  type: LeadTaskType;
+  dueAt: string; // ISO
+  note?: string;
+  completedAt?: string | null; // ISO, null while open
+  overdueAt?: string | null; // ISO, set by the scheduler once the task is past due
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
 export interface Salesperson {
   id: string;
   name: string;
   email?: string;
   active: boolean;
+  managerId?: string | null; // User id of the manager whose team this is
+  // Auto-assign capacity: share of new leads relative to others (default 1),
+  // and optional limits on open leads and on leads assigned per day
+  weight?: number;
+  maxOpenLeads?: number | null;
+  dailyCap?: number | null;
+  availability?: Availability | null; // null: available whenever active
   createdAt: string;
 }
 
+// When auto-assign may give someone leads; times and dates are in timeZone
+export interface Availability {
+  timeZone?: string; // IANA name such as "Asia/Kolkata"; server time when empty
+  workingHours?: { start: string; end: string } | null; // "HH:MM"; null: any time
+  offDays?: number[]; // 0 = Sunday … 6 = Saturday
+  leave?: LeaveRange[];
+  // While on leave, leads still in the first pipeline stage go to teammates
+  reassignOnLeave?: boolean;
+}
+
+export interface LeaveRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  note?: string;
+}
+
+// Leads counted against a salesperson's capacity
+export interface SalespersonLoad {
+  salespersonId: string;
+  openLeads: number; // owned leads in stages without a won/lost outcome
+  assignedToday: number;
+}
+
+export interface SalespersonLoadResponse {
+  items: SalespersonLoad[];
+}
+
+// admin: everything; manager: leads of their team; salesperson: own leads
+export type UserRole = "admin" | "manager" | "salesperson";
+
+// Login account; the password hash never leaves the server
+export interface User {
+  id: string;
+  email: string; // lowercased, unique
+  name: string;
+  role: UserRole;
+  salespersonId: string | null; // the team member this account acts as
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
+export type AssignmentOperator = "equals" | "prefix" | "contains" | "range";
+
+// One test on a lead value; text comparisons ignore case
+export interface AssignmentCondition {
+  // "source", "company" or "status", otherwise a Lead.fields key (sheet header)
+  field: string;
+  op: AssignmentOperator;
+  values?: string[]; // equals/prefix/contains: any of these matches
+  min?: number | null; // range: first number in the value, inclusive
+  max?: number | null;
+}
+
+// Rules are tried in order; the first whose conditions all match routes the lead
+export interface AssignmentRule {
+  id: string;
+  name: string;
+  order: number;
+  active: boolean;
+  conditions: AssignmentCondition[];
+  // One salesperson, or a pool shared least-loaded first
+  targetIds: string[];
+}
+
 export interface ConfigState {
   sheetUrl?: string;
   lastSyncAt?: string; // ISO
   headers?: string[]; // last seen sheet headers (preserve order)
+  sla?: SlaPolicy | null; // null: first contact is not timed
+  // saved header per lead field; fields left out are suggested from headers
+  columnMapping?: ColumnMapping | null;
+}
+
+// A named sheet synced on its own schedule. While none exist, the background
+// sync keeps using ConfigState.sheetUrl.
+export interface LeadSource {
+  id: string;
+  name: string;
+  sheetUrl: string; // CSV export URL
+  columnMapping?: ColumnMapping | null; // null: ConfigState.columnMapping
+  sourceTag?: string; // Lead.source for rows without a Source column
+  // New leads are offered to these salespersons only; empty: the whole team
+  ownerIds: string[];
+  enabled: boolean;
+  syncMinutes: number;
+  lastSyncAt?: string | null; // ISO, last successful sync
+  lastError?: string | null; // why the last sync failed; null once one succeeds
+  lastErrorAt?: string | null; // ISO
+  headers?: string[]; // last seen sheet headers
+  createdAt: string; // ISO
+}
+
+export type LeadSourceInput = Partial<
+  Pick<
+    LeadSource,
+    | "name"
+    | "sheetUrl"
+    | "columnMapping"
+    | "sourceTag"
+    | "ownerIds"
+    | "enabled"
+    | "syncMinutes"
+  >
+>;
+
+export interface LeadSourcesResponse {
+  items: LeadSource[];
+}
+
+// How long a lead may sit in the first pipeline stage once it has an owner
+export interface SlaPolicy {
+  firstContactMinutes: number;
+  // count only the owner's working hours (see Availability)
+  workingHoursOnly: boolean;
+  // hand breached leads to the next available salesperson after escalating
+  reassign: boolean;
+  since?: string; // ISO, set by the server; the clock never starts earlier
 }
 
 export interface Paginated<T> {
@@ -55,11 +259,111 @@ export interface Paginated<T> {
   total: number;
 }
 
-export interface ListLeadsResponse extends Paginated<Lead> {}
+export type LeadSortField = "createdAt" | "updatedAt" | "name" | "status";
+export type SortOrder = "asc" | "desc";
+
+// Query string accepted by GET /api/leads
+export interface ListLeadsQuery {
+  page?: number; // 1-based
+  limit?: number;
+  sort?: LeadSortField;
+  order?: SortOrder;
+  status?: LeadStatus;
+  ownerId?: string; // salesperson id or "unassigned"
+  from?: string; // createdAt lower bound, ISO
+  to?: string; // createdAt upper bound, ISO
+  q?: string; // free text across contact details and sheet fields
+}
+
+export interface ListLeadsResponse extends Paginated<Lead> {
+  page: number;
+  limit: number;
+}
 export interface ListSalespersonsResponse extends Paginated<Salesperson> {}
+export interface ListLeadActivityResponse extends Paginated<LeadActivity> {}
+export interface ListLeadTasksResponse extends Paginated<LeadTask> {}
+export interface ListUsersResponse extends Paginated<User> {}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+// GET /api/auth/session; setupRequired is true until the first account exists
+export interface SessionResponse {
+  user: User | null;
+  setupRequired: boolean;
+}
+
+export interface CreateUserRequest {
+  email: string;
+  password: string;
+  name?: string; // defaults to the linked salesperson's name
+  role?: UserRole; // defaults to "salesperson"
+  salespersonId?: string | null;
+}
+
+export interface UpdateUserRequest extends Partial<CreateUserRequest> {}
+
+export interface CreateLeadTaskRequest {
+  type: LeadTaskType;
+  dueAt: string; // ISO
+  ownerId?: string | null; // defaults to the lead owner
+  note?: string;
+}
+
+export interface UpdateLeadTaskRequest extends Partial<CreateLeadTaskRequest> {
+  completed?: boolean;
+}
+
+// Query string accepted by GET /api/tasks/due
+export interface DueTasksQuery {
+  ownerId?: string;
+  until: string; // ISO, usually the end of the caller's local day
+}
+
+export interface DueTask extends LeadTask {
+  leadName: string;
+  leadPhone?: string;
+}
+
+export interface DueTasksResponse {
+  overdue: DueTask[];
+  dueToday: DueTask[];
+}
+
+export interface PipelineResponse {
+  stages: PipelineStage[];
+}
+
+export interface UpdatePipelineRequest {
+  stages: PipelineStage[];
+}
+
+export interface AssignmentRulesResponse {
+  rules: AssignmentRule[];
+}
+
+export interface UpdateAssignmentRulesRequest {
+  rules: AssignmentRule[];
+}
+
+// Where auto-assign would send a lead; ruleId is null for the least-loaded fallback
+export interface AssignmentPreviewItem {
+  leadId: string;
+  leadName: string;
+  ownerId: string;
+  ruleId: string | null;
+}
+
+export interface AssignmentPreviewResponse {
+  items: AssignmentPreviewItem[];
+  unassigned: number; // leads nobody available with capacity can take
+}
 
 export interface ImportSheetRequest {
   sheetUrl?: string;
+  sourceId?: string; // sync a LeadSource instead; sheetUrl is ignored
 }
 
 export interface ImportSheetResponse {
@@ -70,8 +374,52 @@ export interface ImportSheetResponse {
   lastSyncAt: string;
 }
 
+// Form fields sent with an uploaded .csv or .xlsx in the multipart "file" field
+export interface ImportFileRequest {
+  sheet?: string; // worksheet of an .xlsx; the first one when empty
+  sourceId?: string; // read with this LeadSource's columns, tag and owners
+}
+
+// An uploaded file is not a sync, so nothing records when it was imported
+export type ImportFileResponse = Omit<ImportSheetResponse, "lastSyncAt">;
+
+export type ImportRowAction =
+  | "create"
+  | "update"
+  | "unchanged" // matches a lead the row would not change
+  | "skip"
+  | "duplicate";
+
+// What a sheet sync would do with one data row
+export interface ImportPreviewRow {
+  row: number; // 1-based among the sheet's non-blank data rows
+  action: ImportRowAction;
+  name?: string; // name, email or phone from the row
+  reason?: string; // why a row is skipped, a duplicate, unchanged or an update
+  leadId?: string; // update, unchanged: the existing lead the row matches
+  changes?: LeadActivityChange[]; // update: what the sync changes on it
+}
+
+export interface ImportPreviewResponse {
+  previewId: string; // POST to /api/import-sheet/apply to write these changes
+  expiresAt: string; // ISO
+  headers: string[];
+  rows: ImportPreviewRow[];
+  created: number;
+  updated: number;
+  unchanged: number; // match a lead without changing it
+  skipped: number; // junk rows (empty, or only a date, total or number)
+  duplicates: number; // repeat an email or phone of an earlier row
+}
+
+export interface ApplyImportRequest {
+  previewId: string;
+}
+
 export interface UpdateConfigRequest {
   sheetUrl?: string;
+  sla?: SlaPolicy | null;
+  columnMapping?: ColumnMapping | null;
 }
 
 export interface UpdateConfigResponse extends ConfigState {}
@@ -79,3 +427,41 @@ export interface UpdateConfigResponse extends ConfigState {}
 export interface ErrorResponse {
   error: string;
 }
+
+export type ValidationIssueCode =
+  | "unknown-status"
+  | "transition"
+  | "required"
+  | "invalid";
+
+export interface ValidationIssue {
+  field: string; // Lead property, or "fields.<key>" for sheet values
+  code: ValidationIssueCode;
+  message: string;
+}
+
+// 422 response when a lead change breaks the pipeline rules
+export interface ValidationErrorResponse extends ErrorResponse {
+  issues: ValidationIssue[];
+}
+
+// "strict" surfaces storage outages as errors; "fallback" keeps serving from
+// the local JSON files and buffers writes until they are reconciled.
+export type StoreFailureMode = "strict" | "fallback";
+
+export interface StoreStatusResponse {
+  backend: string;
+  mode: StoreFailureMode;
+  degraded: boolean;
+  degradedSince?: string; // ISO
+  lastError?: string;
+  pendingWrites: number;
+}
+
+export interface ReconcileResponse {
+  replayed: number;
+  // buffered lead writes dropped, in full or in part, for remote edits
+  skipped: number;
+  remaining: number;
+  error?: string;
+}
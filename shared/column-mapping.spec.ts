@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {
+  mappedValue,
+  resolveColumnMapping,
+  suggestColumnMapping,
+} from "./column-mapping";
+
+const HEADERS = [
+  "Full Name",
+  "Phone",
+  "E-mail",
+  "Street_Address",
+  "Post Code",
+  "what_is_your_average_monthly_electricity_bill?",
+  "What type of property do you want to install solar on?",
+  "Lead Status",
+  "note1",
+];
+
+describe("suggestColumnMapping", () => {
+  it("matches headers regardless of case, separators and question marks", () => {
+    expect(suggestColumnMapping(HEADERS)).toEqual({
+      name: "Full Name",
+      email: "E-mail",
+      phone: "Phone",
+      address: "Street_Address",
+      postCode: "Post Code",
+      bill: "what_is_your_average_monthly_electricity_bill?",
+      propertyType: "What type of property do you want to install solar on?",
+      status: "Lead Status",
+    });
+  });
+
+  it("prefers earlier candidates", () => {
+    expect(suggestColumnMapping(["Full Name", "name"]).name).toBe("name");
+  });
+});
+
+describe("resolveColumnMapping", () => {
+  it("lets saved columns override suggestions and keeps blanks unmapped", () => {
+    const mapping = resolveColumnMapping(
+      { name: "Customer", status: "" },
+      HEADERS,
+    );
+    expect(mapping.name).toBe("Customer");
+    expect(mapping.phone).toBe("Phone");
+    expect("status" in mapping).toBe(false);
+  });
+});
+
+describe("mappedValue", () => {
+  it("reads the trimmed value of the mapped column", () => {
+    const row = { Customer: "  Asha ", Phone: "" };
+    const mapping = { name: "Customer", phone: "Phone" };
+    expect(mappedValue(row, mapping, "name")).toBe("Asha");
+    expect(mappedValue(row, mapping, "phone")).toBeUndefined();
+    expect(mappedValue(row, mapping, "email")).toBeUndefined();
+  });
+});
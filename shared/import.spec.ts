@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { resolveColumnMapping } from "./column-mapping";
+import { dedupeKeys, junkReason, parseCSV, readLeadRow } from "./import";
+
+describe("parseCSV", () => {
+  it("keeps line breaks, commas and quotes inside quoted cells", () => {
+    const { headers, rows } = parseCSV(
+      'Name,Notes\r\n"Doe, Jane","Line one\nline ""two"""\r\nRavi,plain\r\n',
+    );
+    expect(headers).toEqual(["Name", "Notes"]);
+    expect(rows).toEqual([
+      { Name: "Doe, Jane", Notes: 'Line one\nline "two"' },
+      { Name: "Ravi", Notes: "plain" },
+    ]);
+  });
+
+  it("drops a byte order mark before the first header", () => {
+    const { headers, rows } = parseCSV("\uFEFFName,Phone\nAsha,123");
+    expect(headers).toEqual(["Name", "Phone"]);
+    expect(rows[0].Name).toBe("Asha");
+  });
+
+  it("leaves out trailing empty columns and blank rows", () => {
+    const { headers, rows } = parseCSV(
+      "Name,Phone,,\nAsha,123,,\n,,,\n\nRavi,,x,\n",
+    );
+    expect(headers).toEqual(["Name", "Phone"]);
+    expect(rows).toEqual([
+      { Name: "Asha", Phone: "123" },
+      { Name: "Ravi", Phone: "" },
+    ]);
+  });
+});
+
+describe("junkReason", () => {
+  it("flags empty rows and lone dates, totals and numbers", () => {
+    expect(junkReason({ Name: "", Phone: " " })).toBe("Empty row");
+    expect(junkReason({ Name: "12/03/2025", Phone: "" })).toMatch(/date/);
+    expect(junkReason({ Name: "Total", Phone: "" })).toMatch(/total/);
+    expect(junkReason({ Name: "", Phone: "1,250" })).toMatch(/number/);
+    expect(junkReason({ Name: "Asha", Phone: "" })).toBeNull();
+    expect(junkReason({ Name: "Total", Phone: "123" })).toBeNull();
+  });
+});
+
+describe("readLeadRow", () => {
+  it("reads mapped fields and the company and source aliases", () => {
+    const row = {
+      id: "x1",
+      "Full Name": "Asha",
+      "E-mail": "asha@x.io",
+      Phone: "+91 90000-00001",
+      "Company ": "Acme",
+      utm_source: "facebook",
+      Notes: "",
+    };
+    const lead = readLeadRow(row, resolveColumnMapping(null, Object.keys(row)));
+    expect(lead).toMatchObject({
+      name: "Asha",
+      email: "asha@x.io",
+      phone: "+919000000001",
+      company: "Acme",
+      source: "facebook",
+    });
+    expect(lead.fields).not.toHaveProperty("id");
+    expect(lead.fields).not.toHaveProperty("Notes");
+  });
+});
+
+describe("dedupeKeys", () => {
+  it("matches records by lowercased email and normalized phone", () => {
+    expect(
+      dedupeKeys({ email: " Asha@X.io", phone: "(900) 000-0001" }),
+    ).toEqual(["email:asha@x.io", "phone:+919000000001"]);
+    expect(dedupeKeys({ phone: "919000000001" })).toEqual(
+      dedupeKeys({ phone: "+91 90000 00001" }),
+    );
+    expect(dedupeKeys({ email: null, phone: "" })).toEqual([]);
+  });
+});
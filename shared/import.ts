@@ -0,0 +1,3 @@
+// Sheet parsing and row reading. The code lives under
+// supabase/functions/_shared so the sync-sheet edge function deploys with it.
+export * from "../supabase/functions/_shared/import.ts";
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { normalizePhone, phoneLinks, phoneSearchTerm, toE164 } from "./phone";
+
+describe("toE164", () => {
+  it("reads the ways one Indian mobile number gets written", () => {
+    for (const written of [
+      "917416138391",
+      "+91 74161 38391",
+      "07416138391",
+      "7416138391",
+      "0091-74161-38391",
+      "+91 (0) 7416138391",
+    ])
+      expect(toE164(written)).toBe("+917416138391");
+  });
+
+  it("keeps other countries written with their code", () => {
+    expect(toE164("+44 7911 123456")).toBe("+447911123456");
+    expect(toE164("5551234567", "1")).toBe("+15551234567");
+  });
+
+  it("rejects numbers of the wrong length", () => {
+    expect(toE164("741613839")).toBeNull();
+    expect(toE164("+91 74161 383911")).toBeNull();
+    expect(toE164("+44 12")).toBeNull();
+    expect(toE164("n/a")).toBeNull();
+  });
+});
+
+describe("normalizePhone", () => {
+  it("falls back to the digits written when the number is not valid", () => {
+    expect(normalizePhone("7416 138391")).toBe("+917416138391");
+    expect(normalizePhone("ext. 123")).toBe("123");
+  });
+});
+
+describe("phoneSearchTerm", () => {
+  it("searches phone numbers by their national digits", () => {
+    expect(phoneSearchTerm("+91 74161 38391")).toBe("7416138391");
+    expect(phoneSearchTerm("+44 7911 123456")).toBe("447911123456");
+    expect(phoneSearchTerm("asha")).toBe("asha");
+    expect(phoneSearchTerm("2025")).toBe("2025");
+  });
+});
+
+describe("phoneLinks", () => {
+  it("builds call and WhatsApp links from the E.164 form", () => {
+    expect(phoneLinks("07416138391")).toEqual({
+      tel: "tel:+917416138391",
+      whatsapp: "https://wa.me/917416138391",
+    });
+    expect(phoneLinks("123")).toBeNull();
+    expect(phoneLinks(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,3 @@
+// Phone number normalization. The code lives under
+// supabase/functions/_shared so the sync-sheet edge function deploys with it.
+export * from "../supabase/functions/_shared/phone.ts";
@@ -5,11 +5,15 @@ CREATE TABLE IF NOT EXISTS leads (
   -- Core lead fields
   name TEXT,
   email TEXT,
-  phone TEXT,
+  phone TEXT, -- E.164 when valid
+  phone_raw TEXT, -- as typed or imported
   company TEXT,
   source TEXT,
   status TEXT DEFAULT 'new',
   owner_id UUID,
+  assigned_at TIMESTAMP WITH TIME ZONE,
+  sla_breached_at TIMESTAMP WITH TIME ZONE,
+  escalated_to UUID,
   notes TEXT,
   
   -- Custom fields from Google Sheet (stored as JSON)
@@ -27,10 +31,8 @@ CREATE TABLE IF NOT EXISTS leads (
   
   -- Timestamps
   created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
-  
-  -- Indexes for performance
-  CONSTRAINT check_status CHECK (status IN ('new', 'call', 'not lifted', 'not connected', 'voice message', 'quotation sent', 'site visit', 'advance payment', 'lead finished', 'contacted'))
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+  -- status holds a pipeline_stages id; the API validates it against the pipeline
 );
 
 CREATE INDEX idx_leads_email ON leads(email);
@@ -39,24 +41,133 @@ CREATE INDEX idx_leads_status ON leads(status);
 CREATE INDEX idx_leads_owner_id ON leads(owner_id);
 CREATE INDEX idx_leads_created_at ON leads(created_at DESC);
 
+-- Create lead activity table (append-only history; no FK so it outlives deleted leads)
+CREATE TABLE IF NOT EXISTS lead_activity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id UUID NOT NULL,
+  at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  actor TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb
+);
+
+CREATE INDEX idx_lead_activity_lead_at ON lead_activity(lead_id, at);
+
+-- Follow-up tasks per lead
+CREATE TABLE IF NOT EXISTS lead_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id UUID NOT NULL,
+  owner_id UUID,
+  type TEXT NOT NULL,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  note TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  overdue_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_lead_tasks_lead_id ON lead_tasks(lead_id);
+CREATE INDEX idx_lead_tasks_owner_due ON lead_tasks(owner_id, due_at);
+
 -- Create salespersons table
 CREATE TABLE IF NOT EXISTS salespersons (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   name TEXT NOT NULL,
   email TEXT,
   active BOOLEAN DEFAULT true,
+  manager_id UUID,
+  weight NUMERIC NOT NULL DEFAULT 1,
+  max_open_leads INTEGER,
+  daily_cap INTEGER,
+  availability JSONB,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
 );
 
 CREATE INDEX idx_salespersons_name ON salespersons(name);
 CREATE INDEX idx_salespersons_active ON salespersons(active);
 
+-- Login accounts; only the server (service role) may read password hashes
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL DEFAULT '',
+  role TEXT NOT NULL, -- admin | manager | salesperson
+  salesperson_id UUID,
+  password_hash TEXT NOT NULL,
+  session_version INTEGER NOT NULL DEFAULT 0, -- bumped to end issued sessions
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Pipeline stages (lead statuses), edited by admins
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  id TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  color TEXT NOT NULL,
+  outcome TEXT CHECK (outcome IN ('won', 'lost')),
+  allowed_from TEXT[] NOT NULL DEFAULT '{}',
+  required_fields TEXT[] NOT NULL DEFAULT '{}'
+);
+
+INSERT INTO pipeline_stages (id, label, position, color, outcome, allowed_from, required_fields) VALUES
+  ('new', 'New', 0, '#64748b', NULL, '{}', '{}'),
+  ('call', 'Call', 1, '#0ea5e9', NULL, '{}', '{}'),
+  ('not lifted', 'Not lifted', 2, '#f59e0b', NULL, '{}', '{}'),
+  ('not connected', 'Not connected', 3, '#f97316', NULL, '{}', '{}'),
+  ('voice message', 'Voice message', 4, '#a855f7', NULL, '{}', '{}'),
+  ('contacted', 'Contacted', 5, '#06b6d4', NULL, '{}', '{}'),
+  ('quotation sent', 'Quotation sent', 6, '#6366f1', NULL, '{}', '{"quotation amount"}'),
+  ('site visit', 'Site visit', 7, '#8b5cf6', NULL, '{}', '{"visit date"}'),
+  ('advance payment', 'Advance payment', 8, '#14b8a6', NULL, '{"quotation sent"}', '{}'),
+  ('lead finished', 'Lead finished', 9, '#22c55e', NULL, '{}', '{}'),
+  ('won', 'Won', 10, '#16a34a', 'won', '{}', '{}'),
+  ('lost', 'Lost', 11, '#dc2626', 'lost', '{}', '{}')
+ON CONFLICT (id) DO NOTHING;
+
+-- Auto-assignment rules, tried in position order (PUT /api/assignment-rules)
+CREATE TABLE IF NOT EXISTS assignment_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL DEFAULT '',
+  position INTEGER NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  target_ids UUID[] NOT NULL DEFAULT '{}'
+);
+
+-- Named sheets synced on their own schedule (/api/lead-sources)
+CREATE TABLE IF NOT EXISTS lead_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  sheet_url TEXT NOT NULL,
+  column_mapping JSONB,
+  source_tag TEXT,
+  owner_ids UUID[] NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  sync_minutes INTEGER NOT NULL,
+  last_sync_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  last_error_at TIMESTAMP WITH TIME ZONE,
+  headers TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Left by merges: the absorbed lead's id and the lead it went into
+CREATE TABLE IF NOT EXISTS lead_redirects (
+  id UUID PRIMARY KEY,
+  lead_id UUID NOT NULL,
+  merged_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
 -- Create config table
 CREATE TABLE IF NOT EXISTS config (
   id INTEGER PRIMARY KEY DEFAULT 1,
   sheet_url TEXT,
   last_sync_at TIMESTAMP WITH TIME ZONE,
   headers TEXT[] DEFAULT '{}',
+  sla JSONB,
+  column_mapping JSONB,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
   
@@ -85,7 +196,84 @@ FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_config_updated_at BEFORE UPDATE ON config
 FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
--- Grant permissions (if using service role)
-GRANT SELECT, INSERT, UPDATE, DELETE ON leads TO authenticated;
-GRANT SELECT, INSERT, UPDATE, DELETE ON salespersons TO authenticated;
-GRANT SELECT, UPDATE ON config TO authenticated;
+-- Row level security for clients using Supabase Auth (the server uses the
+-- service role, which bypasses it). Auth users map to public.users by email.
+-- There are no blanket grants: Supabase's default privileges let
+-- authenticated reach the tables, and the policies below decide which rows
+-- each role sees. users (password hashes), assignment_rules, lead_sources
+-- and lead_redirects have no policy, so only the server reads them.
+CREATE OR REPLACE FUNCTION crm_role() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT role FROM users
+  WHERE email = lower(auth.jwt() ->> 'email')
+$$;
+
+-- Mirrors ownerScope() in server/services/access.ts
+CREATE OR REPLACE FUNCTION crm_can_see_owner(owner UUID) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users u
+    WHERE u.email = lower(auth.jwt() ->> 'email')
+      AND (
+        u.role = 'admin'
+        OR (owner IS NOT NULL AND owner = u.salesperson_id)
+        OR (u.role = 'manager' AND owner IN (
+          SELECT s.id FROM salespersons s WHERE s.manager_id = u.id
+        ))
+      )
+  )
+$$;
+
+ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE salespersons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assignment_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_redirects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE config ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS leads_select ON leads;
+DROP POLICY IF EXISTS leads_insert ON leads;
+DROP POLICY IF EXISTS leads_update ON leads;
+DROP POLICY IF EXISTS leads_delete ON leads;
+CREATE POLICY leads_select ON leads FOR SELECT TO authenticated
+  USING (crm_can_see_owner(owner_id));
+CREATE POLICY leads_insert ON leads FOR INSERT TO authenticated
+  WITH CHECK (crm_can_see_owner(owner_id));
+CREATE POLICY leads_update ON leads FOR UPDATE TO authenticated
+  USING (crm_can_see_owner(owner_id)) WITH CHECK (crm_can_see_owner(owner_id));
+CREATE POLICY leads_delete ON leads FOR DELETE TO authenticated
+  USING (crm_role() = 'admin');
+
+DROP POLICY IF EXISTS salespersons_select ON salespersons;
+DROP POLICY IF EXISTS salespersons_admin ON salespersons;
+CREATE POLICY salespersons_select ON salespersons FOR SELECT TO authenticated
+  USING (crm_role() IS NOT NULL);
+CREATE POLICY salespersons_admin ON salespersons FOR ALL TO authenticated
+  USING (crm_role() = 'admin') WITH CHECK (crm_role() = 'admin');
+
+DROP POLICY IF EXISTS lead_activity_select ON lead_activity;
+DROP POLICY IF EXISTS lead_activity_insert ON lead_activity;
+CREATE POLICY lead_activity_select ON lead_activity FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_id));
+CREATE POLICY lead_activity_insert ON lead_activity FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_id));
+
+DROP POLICY IF EXISTS lead_tasks_all ON lead_tasks;
+CREATE POLICY lead_tasks_all ON lead_tasks FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_id));
+
+DROP POLICY IF EXISTS pipeline_stages_select ON pipeline_stages;
+CREATE POLICY pipeline_stages_select ON pipeline_stages FOR SELECT
+  TO authenticated USING (crm_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS config_select ON config;
+DROP POLICY IF EXISTS config_update ON config;
+CREATE POLICY config_select ON config FOR SELECT TO authenticated
+  USING (crm_role() IS NOT NULL);
+CREATE POLICY config_update ON config FOR UPDATE TO authenticated
+  USING (crm_role() = 'admin') WITH CHECK (crm_role() = 'admin');
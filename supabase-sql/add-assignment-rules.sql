@@ -0,0 +1,12 @@
+-- Auto-assignment rules (run in Supabase SQL editor)
+-- No grants to authenticated: rules are read and written by the server only
+create table if not exists public.assignment_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null default '',
+  position integer not null,
+  active boolean not null default true,
+  conditions jsonb not null default '[]'::jsonb,
+  target_ids uuid[] not null default '{}'
+);
+
+alter table public.assignment_rules enable row level security;
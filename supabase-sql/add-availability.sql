@@ -0,0 +1,3 @@
+-- Salesperson availability for auto-assignment (run in Supabase SQL editor)
+-- NULL keeps the old behaviour: available whenever active
+alter table public.salespersons add column if not exists availability jsonb;
@@ -0,0 +1,10 @@
+-- Assignment capacity (run in Supabase SQL editor)
+alter table public.salespersons add column if not exists weight numeric not null default 1;
+alter table public.salespersons add column if not exists max_open_leads integer;
+alter table public.salespersons add column if not exists daily_cap integer;
+
+-- When a lead was last given an owner; existing assigned leads count as
+-- assigned when they were created
+alter table public.leads add column if not exists assigned_at timestamp with time zone;
+update public.leads set assigned_at = created_at
+  where owner_id is not null and assigned_at is null;
@@ -0,0 +1,3 @@
+-- Saved sheet header per lead field (run in Supabase SQL editor)
+-- NULL: every field is suggested from the sheet headers
+alter table public.config add column if not exists column_mapping jsonb;
@@ -0,0 +1,12 @@
+-- Append-only lead history (run in Supabase SQL editor)
+-- lead_id has no foreign key so history outlives deleted leads
+create table if not exists public.lead_activity (
+  id uuid primary key default gen_random_uuid(),
+  lead_id uuid not null,
+  at timestamp with time zone not null default now(),
+  actor text not null,
+  kind text not null,
+  changes jsonb not null default '[]'::jsonb
+);
+
+create index if not exists idx_lead_activity_lead_at on public.lead_activity (lead_id, at);
@@ -0,0 +1,9 @@
+-- Redirects left by lead merges (run in Supabase SQL editor)
+-- No grants to authenticated: the server resolves them
+create table if not exists public.lead_redirects (
+  id uuid primary key,
+  lead_id uuid not null,
+  merged_at timestamp with time zone not null default now()
+);
+
+alter table public.lead_redirects enable row level security;
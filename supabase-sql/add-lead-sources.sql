@@ -0,0 +1,19 @@
+-- Named sheets synced on their own schedule (run in Supabase SQL editor)
+-- No grants to authenticated: sources are read and written by the server only
+create table if not exists public.lead_sources (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  sheet_url text not null,
+  column_mapping jsonb,
+  source_tag text,
+  owner_ids uuid[] not null default '{}',
+  enabled boolean not null default true,
+  sync_minutes integer not null,
+  last_sync_at timestamp with time zone,
+  last_error text,
+  last_error_at timestamp with time zone,
+  headers text[],
+  created_at timestamp with time zone default now()
+);
+
+alter table public.lead_sources enable row level security;
@@ -0,0 +1,16 @@
+-- Follow-up tasks per lead (run in Supabase SQL editor)
+create table if not exists public.lead_tasks (
+  id uuid primary key default gen_random_uuid(),
+  lead_id uuid not null,
+  owner_id uuid,
+  type text not null,
+  due_at timestamp with time zone not null,
+  note text,
+  completed_at timestamp with time zone,
+  overdue_at timestamp with time zone,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+create index if not exists idx_lead_tasks_lead_id on public.lead_tasks (lead_id);
+create index if not exists idx_lead_tasks_owner_due on public.lead_tasks (owner_id, due_at);
@@ -0,0 +1,3 @@
+-- Phone as typed or imported (run in Supabase SQL editor)
+-- leads.phone holds the E.164 form used to match, search and call
+alter table public.leads add column if not exists phone_raw text;
@@ -0,0 +1,30 @@
+-- Configurable pipeline (run in Supabase SQL editor)
+-- Lead statuses move from the check_status constraint into a table edited
+-- through PUT /api/admin/pipeline.
+alter table public.leads drop constraint if exists check_status;
+
+create table if not exists public.pipeline_stages (
+  id text primary key,
+  label text not null,
+  position integer not null,
+  color text not null,
+  outcome text check (outcome in ('won', 'lost'))
+);
+
+insert into public.pipeline_stages (id, label, position, color, outcome) values
+  ('new', 'New', 0, '#64748b', null),
+  ('call', 'Call', 1, '#0ea5e9', null),
+  ('not lifted', 'Not lifted', 2, '#f59e0b', null),
+  ('not connected', 'Not connected', 3, '#f97316', null),
+  ('voice message', 'Voice message', 4, '#a855f7', null),
+  ('contacted', 'Contacted', 5, '#06b6d4', null),
+  ('quotation sent', 'Quotation sent', 6, '#6366f1', null),
+  ('site visit', 'Site visit', 7, '#8b5cf6', null),
+  ('advance payment', 'Advance payment', 8, '#14b8a6', null),
+  ('lead finished', 'Lead finished', 9, '#22c55e', null),
+  ('won', 'Won', 10, '#16a34a', 'won'),
+  ('lost', 'Lost', 11, '#dc2626', 'lost')
+on conflict (id) do nothing;
+
+-- Leads saved with the old "voice mail" spelling
+update public.leads set status = 'voice message' where status = 'voice mail';
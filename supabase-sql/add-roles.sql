@@ -0,0 +1,84 @@
+-- Roles and role-based row security (run in Supabase SQL editor)
+-- Accounts created before roles had full access: they become admins once,
+-- and from then on every account must have a role
+alter table public.users add column if not exists role text;
+update public.users set role = 'admin' where role is null;
+alter table public.users alter column role set not null;
+alter table public.salespersons add column if not exists manager_id uuid;
+
+-- Row level security for clients using Supabase Auth (the server uses the
+-- service role, which bypasses it). Auth users map to public.users by email.
+-- The policies replace the blanket grants: Supabase's default privileges let
+-- authenticated reach the tables, and RLS decides which rows each role sees.
+CREATE OR REPLACE FUNCTION crm_role() RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT role FROM users
+  WHERE email = lower(auth.jwt() ->> 'email')
+$$;
+
+-- Mirrors ownerScope() in server/services/access.ts
+CREATE OR REPLACE FUNCTION crm_can_see_owner(owner UUID) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users u
+    WHERE u.email = lower(auth.jwt() ->> 'email')
+      AND (
+        u.role = 'admin'
+        OR (owner IS NOT NULL AND owner = u.salesperson_id)
+        OR (u.role = 'manager' AND owner IN (
+          SELECT s.id FROM salespersons s WHERE s.manager_id = u.id
+        ))
+      )
+  )
+$$;
+
+ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE salespersons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE config ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS leads_select ON leads;
+DROP POLICY IF EXISTS leads_insert ON leads;
+DROP POLICY IF EXISTS leads_update ON leads;
+DROP POLICY IF EXISTS leads_delete ON leads;
+CREATE POLICY leads_select ON leads FOR SELECT TO authenticated
+  USING (crm_can_see_owner(owner_id));
+CREATE POLICY leads_insert ON leads FOR INSERT TO authenticated
+  WITH CHECK (crm_can_see_owner(owner_id));
+CREATE POLICY leads_update ON leads FOR UPDATE TO authenticated
+  USING (crm_can_see_owner(owner_id)) WITH CHECK (crm_can_see_owner(owner_id));
+CREATE POLICY leads_delete ON leads FOR DELETE TO authenticated
+  USING (crm_role() = 'admin');
+
+DROP POLICY IF EXISTS salespersons_select ON salespersons;
+DROP POLICY IF EXISTS salespersons_admin ON salespersons;
+CREATE POLICY salespersons_select ON salespersons FOR SELECT TO authenticated
+  USING (crm_role() IS NOT NULL);
+CREATE POLICY salespersons_admin ON salespersons FOR ALL TO authenticated
+  USING (crm_role() = 'admin') WITH CHECK (crm_role() = 'admin');
+
+DROP POLICY IF EXISTS lead_activity_select ON lead_activity;
+DROP POLICY IF EXISTS lead_activity_insert ON lead_activity;
+CREATE POLICY lead_activity_select ON lead_activity FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_id));
+CREATE POLICY lead_activity_insert ON lead_activity FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_id));
+
+DROP POLICY IF EXISTS lead_tasks_all ON lead_tasks;
+CREATE POLICY lead_tasks_all ON lead_tasks FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM leads l WHERE l.id = lead_id));
+
+DROP POLICY IF EXISTS pipeline_stages_select ON pipeline_stages;
+CREATE POLICY pipeline_stages_select ON pipeline_stages FOR SELECT
+  TO authenticated USING (crm_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS config_select ON config;
+DROP POLICY IF EXISTS config_update ON config;
+CREATE POLICY config_select ON config FOR SELECT TO authenticated
+  USING (crm_role() IS NOT NULL);
+CREATE POLICY config_update ON config FOR UPDATE TO authenticated
+  USING (crm_role() = 'admin') WITH CHECK (crm_role() = 'admin');
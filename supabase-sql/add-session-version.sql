@@ -0,0 +1,4 @@
+-- Session revocation (run in Supabase SQL editor)
+-- Session tokens carry this number; logout, password and role changes bump
+-- it so tokens issued before stop working
+alter table public.users add column if not exists session_version integer not null default 0;
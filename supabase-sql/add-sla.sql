@@ -0,0 +1,7 @@
+-- First-contact SLA (run in Supabase SQL editor)
+-- NULL keeps first contact untimed
+alter table public.config add column if not exists sla jsonb;
+
+-- Set when the current owner missed the SLA, with the manager it went to
+alter table public.leads add column if not exists sla_breached_at timestamp with time zone;
+alter table public.leads add column if not exists escalated_to uuid;
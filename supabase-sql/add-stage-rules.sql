@@ -0,0 +1,11 @@
+-- Transition rules and required fields per pipeline stage (run in Supabase SQL editor)
+alter table public.pipeline_stages
+  add column if not exists allowed_from text[] not null default '{}',
+  add column if not exists required_fields text[] not null default '{}';
+
+update public.pipeline_stages set required_fields = '{"quotation amount"}'
+  where id = 'quotation sent' and required_fields = '{}';
+update public.pipeline_stages set required_fields = '{"visit date"}'
+  where id = 'site visit' and required_fields = '{}';
+update public.pipeline_stages set allowed_from = '{"quotation sent"}'
+  where id = 'advance payment' and allowed_from = '{}';
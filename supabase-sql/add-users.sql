@@ -0,0 +1,11 @@
+-- Login accounts (run in Supabase SQL editor)
+-- No grants to authenticated: password hashes are read by the server only
+create table if not exists public.users (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  name text not null default '',
+  salesperson_id uuid,
+  password_hash text not null,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
@@ -0,0 +1,96 @@
+// Sheet header to lead field mapping, shared by the importer, the SQL row
+// writer and the sync-sheet edge function. Imports carry the .ts extension so
+// Deno can load this file as is.
+import type { ColumnMapping, MappedField } from "./types.ts";
+
+export const MAPPED_FIELDS: MappedField[] = [
+  "name",
+  "email",
+  "phone",
+  "address",
+  "postCode",
+  "bill",
+  "propertyType",
+  "status",
+  "notes",
+];
+
+export const MAPPED_FIELD_LABELS: Record<MappedField, string> = {
+  name: "Name",
+  email: "Email",
+  phone: "Phone",
+  address: "Street address",
+  postCode: "Post code",
+  bill: "Monthly bill",
+  propertyType: "Property type",
+  status: "Status",
+  notes: "Notes",
+};
+
+// Headers each field is suggested from, best first, in normalized form
+const CANDIDATES: Record<MappedField, string[]> = {
+  name: ["name", "full name", "lead name"],
+  email: ["email", "e mail", "email address"],
+  phone: ["phone", "mobile", "phone number", "mobile number"],
+  address: ["street address", "address"],
+  postCode: ["post code", "postcode", "zip code", "zip"],
+  bill: [
+    "what is your average monthly electricity bill",
+    "average monthly bill",
+    "monthly bill",
+  ],
+  propertyType: [
+    "what type of property do you want to install solar on",
+    "what type of property",
+    "property type",
+  ],
+  status: ["status", "lead status"],
+  notes: ["notes"],
+};
+
+// "What_Type_Of_Property?" and "what type of property" are the same header
+export function normalizeHeader(header: string) {
+  return header
+    .toLowerCase()
+    .replace(/\?/g, "")
+    .replace(/[\s_-]+/g, " ")
+    .trim();
+}
+
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const byKey = new Map<string, string>();
+  for (const h of headers) {
+    const key = normalizeHeader(h);
+    if (key && !byKey.has(key)) byKey.set(key, h);
+  }
+  const mapping: ColumnMapping = {};
+  for (const field of MAPPED_FIELDS) {
+    const match = CANDIDATES[field].find((c) => byKey.has(c));
+    if (match) mapping[field] = byKey.get(match);
+  }
+  return mapping;
+}
+
+/**
+ * The mapping an import uses: the saved one, with suggestions from `headers`
+ * for the fields it leaves out. A saved "" keeps the field unmapped.
+ */
+export function resolveColumnMapping(
+  saved: ColumnMapping | null | undefined,
+  headers: string[],
+): ColumnMapping {
+  const mapping = { ...suggestColumnMapping(headers), ...(saved || {}) };
+  for (const field of MAPPED_FIELDS) if (!mapping[field]) delete mapping[field];
+  return mapping;
+}
+
+// The trimmed value of the column mapped to `field`, if any
+export function mappedValue(
+  row: Record<string, string | undefined>,
+  mapping: ColumnMapping,
+  field: MappedField,
+): string | undefined {
+  const header = mapping[field];
+  const value = header ? row[header] : undefined;
+  return value?.trim() || undefined;
+}
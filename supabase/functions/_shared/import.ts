@@ -0,0 +1,185 @@
+// Sheet parsing and row reading shared by the server importer and the
+// sync-sheet edge function, so both see the same leads in the same sheet.
+// Imports carry the .ts extension so Deno can load this file as is.
+import type { ColumnMapping, PipelineStage } from "./types.ts";
+import { mappedValue, normalizeHeader } from "./column-mapping.ts";
+import { normalizePhone } from "./phone.ts";
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string>[]; // trimmed values by header
+}
+
+/**
+ * RFC 4180 CSV: quoted cells may hold commas, quotes ("") and line breaks.
+ * A leading byte order mark is dropped, columns without a header are left
+ * out, and rows with no value at all are skipped.
+ */
+export function parseCSV(text: string): ParsedSheet {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const lines: string[][] = [];
+  let line: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === "") quoted = true;
+    else if (ch === ",") {
+      line.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      line.push(cell);
+      lines.push(line);
+      line = [];
+      cell = "";
+    } else cell += ch;
+  }
+  line.push(cell);
+  lines.push(line);
+
+  const headers = (lines[0] || []).map((h) => h.trim());
+  const columns = headers.flatMap((h, j) => (h ? [j] : []));
+  const rows: Record<string, string>[] = [];
+  for (const cells of lines.slice(1)) {
+    if (cells.every((c) => c.trim() === "")) continue;
+    const row: Record<string, string> = {};
+    for (const j of columns) row[headers[j]] = (cells[j] ?? "").trim();
+    rows.push(row);
+  }
+  return { headers: headers.filter(Boolean), rows };
+}
+
+/**
+ * Why a row holds no lead, or null when it does: rows that are empty or
+ * carry a single date, total or number (section dividers and sums).
+ */
+export function junkReason(row: Record<string, string | undefined>) {
+  const values = Object.values(row)
+    .map((v) => (v ?? "").trim())
+    .filter((v) => v !== "");
+  if (values.length === 0) return "Empty row";
+  if (values.length !== 1) return null;
+  const v = values[0];
+  const dateLike =
+    /^\d{1,2}[\-/] \d{1,2}[\-/] \d{2,4}$/.test(v) ||
+    /^\d{1,2}[\-/]\d{1,2}[\-/]\d{2,4}$/.test(v) ||
+    /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i.test(v) ||
+    /^`\d{2}-\d{2}-\d{4}$/.test(v);
+  if (dateLike) return `Only a date ("${v}")`;
+  if (/^sum|^total|^subtotal/i.test(v)) return `Only a total ("${v}")`;
+  const numericOnly = /^[-+]?\d{1,3}(?:[\,\d]*)(?:\.\d+)?$/.test(
+    v.replace(/\s+/g, ""),
+  );
+  if (numericOnly) return `Only a number ("${v}")`;
+  return null;
+}
+
+// Headers company and source are read from, in normalized form
+const COMPANY_HEADERS = ["company"];
+const SOURCE_HEADERS = ["source", "utm source"];
+
+function valueOf(row: Record<string, string | undefined>, names: string[]) {
+  for (const name of names) {
+    const header = Object.keys(row).find((h) => normalizeHeader(h) === name);
+    const value = header ? row[header]?.trim() : undefined;
+    if (value) return value;
+  }
+  return undefined;
+}
+
+// What one sheet row says about a lead; status is the raw sheet value
+export interface SheetLead {
+  name?: string;
+  email?: string;
+  phone?: string; // normalized
+  phoneRaw?: string; // as written in the sheet
+  company?: string;
+  source?: string;
+  status?: string;
+  notes?: string;
+  fields: Record<string, string>; // the row's non-empty values
+}
+
+export function readLeadRow(
+  row: Record<string, string | undefined>,
+  mapping: ColumnMapping,
+): SheetLead {
+  const phone = mappedValue(row, mapping, "phone");
+  const fields: Record<string, string> = {};
+  for (const [k, v] of Object.entries(row))
+    if (k !== "id" && v && v.trim() !== "") fields[k] = v.trim();
+  return {
+    name: mappedValue(row, mapping, "name"),
+    email: mappedValue(row, mapping, "email"),
+    phone: phone ? normalizePhone(phone) : undefined,
+    phoneRaw: phone,
+    company: valueOf(row, COMPANY_HEADERS),
+    source: valueOf(row, SOURCE_HEADERS),
+    status: mappedValue(row, mapping, "status"),
+    notes: mappedValue(row, mapping, "notes"),
+    fields,
+  };
+}
+
+// The parts of an existing lead a sheet row may update
+export interface SheetMatch {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  phoneRaw?: string | null;
+  company?: string | null;
+  source?: string | null;
+  fields?: Record<string, string> | null;
+}
+
+/**
+ * What a sheet row changes on the lead it matches: contact details it fills
+ * in and its sheet columns. Stage, owner and notes belong to the salespeople
+ * working the lead, so a sync leaves them as they are.
+ */
+export function sheetUpdate<T extends SheetMatch>(existing: T, row: SheetLead) {
+  return {
+    name: row.name || existing.name,
+    email: row.email || existing.email,
+    phone: row.phone || existing.phone,
+    phoneRaw: row.phone ? row.phoneRaw : existing.phoneRaw,
+    company: row.company || existing.company,
+    source: row.source || existing.source,
+    fields: { ...(existing.fields || {}), ...row.fields },
+  };
+}
+
+/**
+ * Keys two records of the same lead share: the lowercased email and the
+ * normalized phone, when present.
+ */
+export function dedupeKeys(lead: {
+  email?: string | null;
+  phone?: string | null;
+}) {
+  const keys: string[] = [];
+  if (lead.email) keys.push(`email:${lead.email.trim().toLowerCase()}`);
+  if (lead.phone) keys.push(`phone:${normalizePhone(lead.phone)}`);
+  return keys;
+}
+
+// Matches a stage by id or label, ignoring case; null when nothing matches
+export function resolveStage<S extends Pick<PipelineStage, "id" | "label">>(
+  stages: S[],
+  raw?: string | null,
+): S | null {
+  const key = (raw || "").trim().toLowerCase();
+  if (!key) return null;
+  return (
+    stages.find((s) => s.id.toLowerCase() === key) ||
+    stages.find((s) => s.label.toLowerCase() === key) ||
+    null
+  );
+}
@@ -0,0 +1,79 @@
+// Phone numbers in E.164 (+<country code><number>), the form used to match,
+// search, call and message leads. Runs in the browser, Node and Deno.
+
+// Country assumed for numbers written without a country code
+export const DEFAULT_COUNTRY_CODE = "91";
+
+// Digits after the country code, for countries whose length is fixed
+const NATIONAL_LENGTH: Record<string, number> = { "91": 10 };
+
+function knownCountry(digits: string) {
+  return Object.keys(NATIONAL_LENGTH).find((cc) => digits.startsWith(cc));
+}
+
+/**
+ * The E.164 form of a phone as people write it, or null when it is not a
+ * valid number. Without a "+" or "00" prefix, leading zeros are a trunk
+ * prefix and the default country applies, unless the number already starts
+ * with that country's code ("917416138391").
+ */
+export function toE164(
+  raw: string,
+  countryCode = DEFAULT_COUNTRY_CODE,
+): string | null {
+  const written = raw.trim();
+  let digits = written.replace(/\D/g, "");
+  if (!digits) return null;
+  let international = written.startsWith("+");
+  if (!international && digits.startsWith("00")) {
+    digits = digits.slice(2);
+    international = true;
+  }
+  if (!international) {
+    digits = digits.replace(/^0+/, "");
+    const length = NATIONAL_LENGTH[countryCode];
+    const prefixed =
+      length !== undefined &&
+      digits.length === countryCode.length + length &&
+      digits.startsWith(countryCode);
+    if (!prefixed) digits = countryCode + digits;
+  }
+  const cc = knownCountry(digits);
+  if (cc) {
+    // "+91 0741..." still carries the trunk zero
+    const national = digits.slice(cc.length).replace(/^0/, "");
+    if (national.length !== NATIONAL_LENGTH[cc]) return null;
+    return `+${cc}${national}`;
+  }
+  if (digits.length < 8 || digits.length > 15) return null;
+  return `+${digits}`;
+}
+
+/**
+ * The form stored and compared: E.164 when the number is valid, otherwise
+ * the digits (and "+") as written, so nothing typed is lost.
+ */
+export function normalizePhone(raw: string) {
+  return toE164(raw) ?? raw.replace(/[^\d+]/g, "");
+}
+
+/**
+ * What to look for when a search is a phone number: the number without the
+ * default country code, which every stored form of it contains.
+ */
+export function phoneSearchTerm(q: string) {
+  if (!/^[\d\s+()\-.]+$/.test(q)) return q;
+  const e164 = toE164(q);
+  if (!e164) return q;
+  const digits = e164.slice(1);
+  return digits.startsWith(DEFAULT_COUNTRY_CODE)
+    ? digits.slice(DEFAULT_COUNTRY_CODE.length)
+    : digits;
+}
+
+// tel: and wa.me targets; null when the phone is not a valid number
+export function phoneLinks(raw?: string | null) {
+  const e164 = raw ? toE164(raw) : null;
+  if (!e164) return null;
+  return { tel: `tel:${e164}`, whatsapp: `https://wa.me/${e164.slice(1)}` };
+}
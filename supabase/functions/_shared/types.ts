@@ -0,0 +1,32 @@
+// The API types the sheet importer needs, re-exported by shared/api.ts. They
+// live here because `supabase functions deploy` only bundles files under
+// supabase/functions.
+
+export type PipelineOutcome = "won" | "lost";
+
+export interface PipelineStage {
+  id: string; // stored in Lead.status
+  label: string;
+  order: number;
+  color: string; // #rrggbb
+  outcome?: PipelineOutcome | null; // set on terminal stages
+  // Stage ids a lead may enter this stage from; empty allows any
+  allowedFrom?: string[];
+  // Lead.fields keys that must be filled before a lead enters this stage
+  requiredFields?: string[];
+}
+
+// Lead fields a sheet column can fill
+export type MappedField =
+  | "name"
+  | "email"
+  | "phone"
+  | "address"
+  | "postCode"
+  | "bill"
+  | "propertyType"
+  | "status"
+  | "notes";
+
+// Sheet header per field; "" marks a field deliberately left unmapped
+export type ColumnMapping = Partial<Record<MappedField, string>>;
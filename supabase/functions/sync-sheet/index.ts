@@ -1,3 +1,17 @@
+import type { MappedField } from "../_shared/types.ts";
+import {
+  mappedValue,
+  resolveColumnMapping,
+} from "../_shared/column-mapping.ts";
+import {
+  dedupeKeys,
+  junkReason,
+  parseCSV,
+  readLeadRow,
+  resolveStage,
+  sheetUpdate,
+} from "../_shared/import.ts";
+
 export default async function handler(req: Request) {
   const SUPABASE_URL = Deno.env.get("SB_URL");
   const KEY = Deno.env.get("SB_KEY");
@@ -29,22 +43,22 @@ export default async function handler(req: Request) {
     // ignore
   }
 
-  // if not provided in body, read from config row in Supabase
-  if (!sheetUrl) {
-    const cfgRes = await fetch(
-      `${SUPABASE_URL.replace(/\/+$/, "")}/rest/v1/config?id=eq.1`,
-      {
-        headers: { apikey: KEY, Authorization: `Bearer ${KEY}` },
-      },
-    );
-    if (!cfgRes.ok)
-      return new Response(`Failed to read config: ${cfgRes.status}`, {
-        status: 502,
-      });
-    const cfgArr = await cfgRes.json().catch(() => []);
-    const cfg = (cfgArr && cfgArr[0]) || {};
+  // the config row holds the column mapping, and the sheet url when the
+  // body has none
+  const cfgRes = await fetch(
+    `${SUPABASE_URL.replace(/\/+$/, "")}/rest/v1/config?id=eq.1`,
+    {
+      headers: { apikey: KEY, Authorization: `Bearer ${KEY}` },
+    },
+  );
+  if (!cfgRes.ok)
+    return new Response(`Failed to read config: ${cfgRes.status}`, {
+      status: 502,
+    });
+  const cfgArr = await cfgRes.json().catch(() => []);
+  const cfg = (cfgArr && cfgArr[0]) || {};
+  if (!sheetUrl)
     sheetUrl = (cfg as any).sheet_url || (cfg as any).sheetUrl || undefined;
-  }
 
   if (!sheetUrl)
     return new Response("No sheet_url configured", { status: 400 });
@@ -57,138 +71,200 @@ export default async function handler(req: Request) {
     });
   const csvText = await csvRes.text();
 
-  // Basic CSV parser: returns headers array and rows as objects
-  function parseCSV(text: string) {
-    const rows: string[][] = [];
-    let cur = "";
-    let inQuotes = false;
-    const arr: string[] = [];
-    function pushCell() {
-      arr.push(inQuotes ? cur.replace(/""/g, '"') : cur);
-      cur = "";
-      inQuotes = false;
-    }
-    for (let i = 0; i < text.length; i++) {
-      const ch = text[i];
-      if (inQuotes) {
-        if (ch === '"' && text[i + 1] === '"') {
-          cur += '"';
-          i++;
-        } else if (ch === '"') inQuotes = false;
-        else cur += ch;
-      } else {
-        if (ch === '"') inQuotes = true;
-        else if (ch === ",") pushCell();
-        else if (ch === "\n") {
-          pushCell();
-          rows.push([...arr]);
-          arr.length = 0;
-        } else if (ch === "\r") {
-          // ignore
-        } else cur += ch;
-      }
-    }
-    pushCell();
-    rows.push([...arr]);
-    if (rows.length === 0)
-      return { headers: [], rows: [] as Record<string, string>[] };
-    const headers = rows[0].map((h) => h.trim());
-    const out: Record<string, string>[] = [];
-    for (let i = 1; i < rows.length; i++) {
-      const row = rows[i];
-      if (row.every((c) => (c || "").trim() === "")) continue;
-      const obj: Record<string, string> = {};
-      for (let j = 0; j < headers.length; j++)
-        obj[headers[j]] = (row[j] ?? "").trim();
-      out.push(obj);
-    }
-    return { headers, rows: out };
-  }
-
   function chunk<T>(arr: T[], size: number) {
     const out: T[][] = [];
     for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
     return out;
   }
 
-  function ensureId(r: Record<string, string>) {
-    // Use crypto.randomUUID if available, fallback to random bytes
-    // @ts-ignore
-    if (
-      typeof crypto !== "undefined" &&
-      typeof (crypto as any).randomUUID === "function"
-    )
-      return (crypto as any).randomUUID();
-    // Web Crypto fallback
-    const a = new Uint8Array(16);
-    crypto.getRandomValues(a);
-    return Array.from(a)
+  const REST = `${SUPABASE_URL.replace(/\/+$/, "")}/rest/v1`;
+  const authHeaders = { apikey: KEY, Authorization: `Bearer ${KEY}` };
+
+  // Rows without an email or phone are identified by their sheet values, so
+  // the same row maps to the same id on every run
+  async function rowId(r: Record<string, string>) {
+    const values = Object.keys(r)
+      .filter((k) => k !== "id" && (r[k] || "").trim() !== "")
+      .sort()
+      .map((k) => [k, r[k].trim()]);
+    const digest = new Uint8Array(
+      await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(JSON.stringify(values)),
+      ),
+    ).slice(0, 16);
+    digest[6] = (digest[6] & 0x0f) | 0x50; // UUID version 5 layout
+    digest[8] = (digest[8] & 0x3f) | 0x80;
+    const hex = Array.from(digest)
       .map((b) => b.toString(16).padStart(2, "0"))
       .join("");
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
   }
 
-  const parsed = parseCSV(csvText);
-  const rows = parsed.rows; // array of objects
-  const headers = parsed.headers || [];
+  // Columns a sync writes on existing leads, read back to skip unchanged rows
+  const SYNCED_COLUMNS = [
+    "id",
+    "name",
+    "email",
+    "phone",
+    "phone_raw",
+    "company",
+    "source",
+    "fields",
+    "full_name",
+    "street_address",
+    "post_code",
+    "average_monthly_bill",
+    "what_type_of_property",
+    "lead_status",
+  ];
 
-  if (!rows.length) {
-    // update last_sync_at anyway
-    await fetch(`${SUPABASE_URL.replace(/\/+$/, "")}/rest/v1/config?id=eq.1`, {
-      method: "PATCH",
+  // PostgREST returns at most a page of rows per request
+  async function fetchExistingLeads() {
+    const PAGE = 1000;
+    const out: any[] = [];
+    for (let offset = 0; ; offset += PAGE) {
+      const res = await fetch(
+        `${REST}/leads?select=${SYNCED_COLUMNS.join(",")}&order=id.asc&limit=${PAGE}&offset=${offset}`,
+        { headers: authHeaders },
+      );
+      if (!res.ok) throw new Error(`Failed to read leads: ${res.status}`);
+      const page = await res.json();
+      out.push(...page);
+      if (page.length < PAGE) return out;
+    }
+  }
+
+  async function upsertLeads(payload: Record<string, unknown>[]) {
+    if (payload.length === 0) return null;
+    const res = await fetch(`${REST}/leads?on_conflict=id`, {
+      method: "POST",
       headers: {
-        apikey: KEY,
-        Authorization: `Bearer ${KEY}`,
+        ...authHeaders,
         "Content-Type": "application/json",
+        Prefer: "resolution=merge-duplicates",
       },
-      body: JSON.stringify({ last_sync_at: new Date().toISOString(), headers }),
+      body: JSON.stringify(payload),
+    });
+    if (res.ok) return null;
+    const txt = await res.text().catch(() => "");
+    return new Response(`Upsert failed: ${res.status} ${txt}`, {
+      status: 502,
     });
-    return new Response("No rows found", { status: 200 });
   }
 
-  // prepare payload and upsert in chunks
-  for (const chunkRows of chunk(rows, 100)) {
-    const payload = chunkRows.map((r) => {
-      const id = ensureId(r);
-      const fields = { ...r };
-      delete fields.id;
-      return {
-        id,
-        fields,
-        name: (r as any)["Full Name"] || (r as any)["Name"] || null,
-        email: (r as any)["Email"] || null,
-        phone: (r as any)["Phone"] || (r as any)["phone"] || null,
-        company: (r as any)["Company"] || null,
-        source: (r as any)["Source"] || null,
-        status: (r as any)["Lead Status"] || (r as any)["Status"] || "new",
-        owner_id: null,
-        notes: (r as any)["Notes"] || null,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
+  // Whether writing `row` over `match` would change any of its columns
+  function changes(match: any, row: Record<string, unknown>) {
+    return Object.entries(row).some(([k, v]) => {
+      if (k !== "fields") return (match[k] ?? null) !== (v ?? null);
+      const before = match.fields || {};
+      const after = (v || {}) as Record<string, unknown>;
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      return [...keys].some((f) => (before[f] ?? null) !== (after[f] ?? null));
     });
+  }
 
-    const upsertRes = await fetch(
-      `${SUPABASE_URL.replace(/\/+$/, "")}/rest/v1/leads?on_conflict=id`,
-      {
-        method: "POST",
-        headers: {
-          apikey: KEY,
-          Authorization: `Bearer ${KEY}`,
-          "Content-Type": "application/json",
-          Prefer: "resolution=merge-duplicates",
-        },
-        body: JSON.stringify(payload),
-      },
-    );
+  const parsed = parseCSV(csvText);
+  const rows = parsed.rows; // array of objects
+  const headers = parsed.headers || [];
+  const mapping = resolveColumnMapping((cfg as any).column_mapping, headers);
+
+  let existing: any[];
+  try {
+    existing = await fetchExistingLeads();
+  } catch (e) {
+    return new Response(String((e as Error).message), { status: 502 });
+  }
+  const byId = new Map(existing.map((l) => [l.id, l]));
+  const known = new Map(
+    existing.flatMap((l) => dedupeKeys(l).map((k) => [k, l] as const)),
+  );
+  // new leads start in the sheet's stage when it names one, else the first
+  const stagesRes = await fetch(
+    `${REST}/pipeline_stages?select=id,label&order=position.asc`,
+    { headers: authHeaders },
+  );
+  const stages: { id: string; label: string }[] = stagesRes.ok
+    ? await stagesRes.json()
+    : [];
+
+  // New leads get every column; existing ones keep owner, status and notes,
+  // so the two go in separate upserts (PostgREST wants uniform keys)
+  const created: Record<string, unknown>[] = [];
+  const updated: Record<string, unknown>[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+  const now = new Date().toISOString();
+
+  for (const r of rows) {
+    if (junkReason(r)) {
+      skipped++;
+      continue;
+    }
+    const lead = readLeadRow(r, mapping);
+    const value = (field: MappedField) =>
+      mappedValue(r, mapping, field) || null;
+    // a repeat of an earlier row in this sheet
+    const keys = dedupeKeys(lead);
+    const id = keys.length ? null : await rowId(r);
+    if (id) keys.push(`id:${id}`);
+    if (keys.some((k) => seen.has(k))) {
+      skipped++;
+      continue;
+    }
+    keys.forEach((k) => seen.add(k));
 
-    if (!upsertRes.ok) {
-      const txt = await upsertRes.text().catch(() => "");
-      return new Response(`Upsert failed: ${upsertRes.status} ${txt}`, {
-        status: 502,
+    const matchKey = keys.find((k) => known.has(k));
+    const match = matchKey ? known.get(matchKey) : id && byId.get(id);
+    const sheetColumns = {
+      full_name: value("name"),
+      street_address: value("address"),
+      post_code: value("postCode"),
+      average_monthly_bill: value("bill"),
+      what_type_of_property: value("propertyType"),
+      lead_status: value("status"),
+    };
+    if (match) {
+      const update = sheetUpdate({ ...match, phoneRaw: match.phone_raw }, lead);
+      const row = {
+        id: match.id,
+        name: update.name || null,
+        email: update.email || null,
+        phone: update.phone || null,
+        phone_raw: update.phoneRaw || null,
+        company: update.company || null,
+        source: update.source || null,
+        fields: update.fields,
+        ...sheetColumns,
+      };
+      // rows the sheet left as they were keep their updated_at
+      if (changes(match, row)) updated.push({ ...row, updated_at: now });
+    } else {
+      created.push({
+        id: id || crypto.randomUUID(),
+        name: lead.name || null,
+        email: lead.email || null,
+        phone: lead.phone || null,
+        phone_raw: lead.phoneRaw || null,
+        company: lead.company || null,
+        source: lead.source || null,
+        status: resolveStage(stages, lead.status)?.id || stages[0]?.id || "new",
+        owner_id: null,
+        notes: lead.notes || null,
+        fields: lead.fields,
+        ...sheetColumns,
+        created_at: now,
+        updated_at: now,
       });
     }
   }
 
+  for (const batch of [created, updated])
+    for (const chunkRows of chunk(batch, 100)) {
+      const failed = await upsertLeads(chunkRows);
+      if (failed) return failed;
+    }
+
   // update config last_sync_at and headers
   await fetch(`${SUPABASE_URL.replace(/\/+$/, "")}/rest/v1/config?id=eq.1`, {
     method: "PATCH",
@@ -200,5 +276,12 @@ export default async function handler(req: Request) {
     body: JSON.stringify({ last_sync_at: new Date().toISOString(), headers }),
   });
 
-  return new Response("ok", { status: 200 });
+  return new Response(
+    JSON.stringify({
+      created: created.length,
+      updated: updated.length,
+      skipped,
+    }),
+    { status: 200, headers: { "Content-Type": "application/json" } },
+  );
 }
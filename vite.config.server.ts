@@ -32,6 +32,9 @@ export default defineConfig({
         // External dependencies that should not be bundled
         "express",
         "cors",
+        "better-sqlite3",
+        "multer",
+        "exceljs",
       ],
       output: {
         format: "es",